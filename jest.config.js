@@ -0,0 +1,12 @@
+/** @type {import("jest").Config} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+  testMatch: ["**/__tests__/**/*.test.ts"],
+  moduleNameMapper: {
+    "^@raycast/api$": "<rootDir>/src/__mocks__/raycast-api.ts",
+    "^@harmonyhub/discover$": "<rootDir>/src/__mocks__/discover.ts",
+  },
+  clearMocks: true,
+};
@@ -0,0 +1,33 @@
+/**
+ * Test double for @harmonyhub/discover.
+ * Tests drive discovery by emitting "online" events on the created explorer.
+ * @module
+ */
+
+import { EventEmitter } from "events";
+
+/** Explorers created since the last reset, newest last */
+export const createdExplorers: Explorer[] = [];
+
+/**
+ * Fake Explorer that never touches the network
+ */
+export class Explorer extends EventEmitter {
+  start = jest.fn();
+  stop = jest.fn();
+  /** Arguments the explorer was created with: incoming port and ping options */
+  args: unknown[];
+
+  constructor(...args: unknown[]) {
+    super();
+    this.args = args;
+    createdExplorers.push(this);
+  }
+}
+
+/**
+ * Forgets created explorers
+ */
+export function resetDiscover(): void {
+  createdExplorers.length = 0;
+}
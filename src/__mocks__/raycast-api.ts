@@ -0,0 +1,45 @@
+/**
+ * Test double for @raycast/api.
+ * Provides an in-memory LocalStorage and recordable toast/preference helpers.
+ * @module
+ */
+
+/** Backing store for the mocked LocalStorage */
+const storage = new Map<string, string>();
+
+export const LocalStorage = {
+  getItem: jest.fn(async <T = string>(key: string): Promise<T | undefined> => storage.get(key) as T | undefined),
+  setItem: jest.fn(async (key: string, value: string): Promise<void> => {
+    storage.set(key, value);
+  }),
+  removeItem: jest.fn(async (key: string): Promise<void> => {
+    storage.delete(key);
+  }),
+  allItems: jest.fn(async (): Promise<Record<string, string>> => Object.fromEntries(storage)),
+  clear: jest.fn(async (): Promise<void> => {
+    storage.clear();
+  }),
+};
+
+export const getPreferenceValues = jest.fn((): Record<string, unknown> => ({}));
+
+export const showToast = jest.fn(async () => undefined);
+
+export const openExtensionPreferences = jest.fn(async () => undefined);
+
+export const Toast = {
+  Style: {
+    Success: "SUCCESS",
+    Failure: "FAILURE",
+    Animated: "ANIMATED",
+  },
+};
+
+export const Icon = new Proxy({} as Record<string, string>, { get: (_target, name) => String(name) });
+
+/**
+ * Clears the in-memory LocalStorage between tests
+ */
+export function resetLocalStorage(): void {
+  storage.clear();
+}
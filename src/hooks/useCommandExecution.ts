@@ -1,127 +1,191 @@
 /**
  * Hook for executing Harmony commands with memoization.
- * Provides command execution with retry logic and error handling.
+ * Sends commands through the command queue of the hub that owns them and exposes
+ * the pending commands and history of every connected hub's queue.
  * @module
  */
 
-import { getPreferenceValues } from "@raycast/api";
-import { useCallback, useState } from "react";
+import { useCallback, useMemo, useRef, useSyncExternalStore } from "react";
 
+import { CommandQueue } from "../services/harmony/commandQueue";
+import { getPreferences } from "../services/preferences";
 import { ToastManager } from "../services/toast";
+import {
+  CommandExecution,
+  CommandQueueSnapshot,
+  CommandResult,
+  CommandStatus,
+  ExecutionMode,
+} from "../types/core/command";
 import { HarmonyError, ErrorCategory } from "../types/core/errors";
 import { HarmonyCommand } from "../types/core/harmony";
-import { Preferences } from "../types/preferences";
+import { isTimeoutError } from "../utils/timeout";
 
 import { useHarmony } from "./useHarmony";
 
+/** Snapshot used while no hub is connected */
+const EMPTY_SNAPSHOT: CommandQueueSnapshot = { pending: [], history: [] };
+
+/** Number of finished commands kept in the combined history */
+const MAX_HISTORY = 50;
+
 /**
- * State interface for command execution.
- * Tracks execution state and statistics.
- * @interface CommandExecutionState
+ * Merges the snapshots of several queues
+ * @param snapshots - Snapshot of each queue
+ * @returns Pending commands oldest first and history newest first, across all queues
  */
-interface CommandExecutionState {
-  /** Whether a command is currently executing */
-  isExecuting: boolean;
-  /** Last executed command */
-  lastCommand: HarmonyCommand | null;
-  /** Last execution error */
-  error: HarmonyError | null;
+function combineSnapshots(snapshots: readonly CommandQueueSnapshot[]): CommandQueueSnapshot {
+  if (snapshots.length === 0) return EMPTY_SNAPSHOT;
+  if (snapshots.length === 1 && snapshots[0]) return snapshots[0];
+  return {
+    pending: snapshots.flatMap((snapshot) => snapshot.pending).sort((a, b) => a.queuedAt - b.queuedAt),
+    history: snapshots
+      .flatMap((snapshot) => snapshot.history)
+      .sort((a, b) => (b.completedAt ?? 0) - (a.completedAt ?? 0))
+      .slice(0, MAX_HISTORY),
+  };
+}
+
+/**
+ * Describes a finished execution for the success toast
+ * @param command - Command that was sent
+ * @param execution - How it was pressed
+ */
+function describeExecution(command: HarmonyCommand, execution?: CommandExecution): string {
+  switch (execution?.mode) {
+    case ExecutionMode.LONG_PRESS:
+      return `Held ${command.label} for ${execution.duration}ms`;
+    case ExecutionMode.REPEAT:
+      return `Executed ${command.label} ${execution.count} time${execution.count === 1 ? "" : "s"}`;
+    default:
+      return `Executed ${command.label}`;
+  }
 }
 
 /**
  * Result interface for command execution hook.
- * Contains execution functions and state.
+ * Contains execution functions and queue state.
  * @interface CommandExecutionResult
  */
 interface CommandExecutionResult {
   /** Execute a command with retry logic
    * @param command - Command to execute
+   * @param execution - Tap, long-press or repeat, a single tap by default
    */
-  execute: (command: HarmonyCommand) => Promise<void>;
+  execute: (command: HarmonyCommand, execution?: CommandExecution) => Promise<void>;
   /** Retry the last failed command */
   retry: () => Promise<void>;
+  /** Cancel a queued command by request ID */
+  cancel: (id: string) => boolean;
+  /** Cancel every queued command */
+  cancelAll: () => number;
   /** Whether a command is currently executing */
   isExecuting: boolean;
   /** Last executed command */
   lastCommand: HarmonyCommand | null;
   /** Last execution error */
   error: HarmonyError | null;
+  /** Commands waiting or executing, oldest first */
+  pending: readonly CommandResult[];
+  /** Finished commands, newest first */
+  history: readonly CommandResult[];
 }
 
 /**
  * Hook for executing commands with retry and error handling.
- * Provides automatic retry based on preferences.
+ * Commands are queued per hub; retries follow the auto retry preferences.
  * Shows toast notifications for execution status.
- * @returns CommandExecutionResult containing execution functions and state
+ * @returns CommandExecutionResult containing execution functions and queue state
  */
 export function useCommandExecution(): CommandExecutionResult {
-  const { executeCommand } = useHarmony();
-  const [state] = useState<CommandExecutionState>({
-    isExecuting: false,
-    lastCommand: null,
-    error: null,
-  });
-
-  const preferences = getPreferenceValues<Preferences>();
-  const holdTime = parseInt(preferences.commandHoldTime, 10);
-  const autoRetry = preferences.autoRetry;
-  const maxRetries = parseInt(preferences.maxRetries, 10);
+  const { connectedHubs, executeCommand } = useHarmony();
+
+  // Commands go to the queue of the hub that owns them, so every connected hub's queue is watched
+  const queues = useMemo(() => connectedHubs.map((hub) => CommandQueue.getQueue(hub)), [connectedHubs]);
+  const subscribe = useCallback(
+    (onChange: () => void) => {
+      const unsubscribers = queues.map((queue) => queue.subscribe(onChange));
+      return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+    },
+    [queues],
+  );
+  // The combined snapshot is only rebuilt when a queue's snapshot changed, as useSyncExternalStore requires
+  const combined = useRef<{ sources: CommandQueueSnapshot[]; snapshot: CommandQueueSnapshot } | null>(null);
+  const getSnapshot = useCallback(() => {
+    const sources = queues.map((queue) => queue.getSnapshot());
+    const cached = combined.current;
+    if (cached && cached.sources.length === sources.length && cached.sources.every((s, i) => s === sources[i])) {
+      return cached.snapshot;
+    }
+    const snapshot = combineSnapshots(sources);
+    combined.current = { sources, snapshot };
+    return snapshot;
+  }, [queues]);
+  const { pending, history } = useSyncExternalStore(subscribe, getSnapshot);
+
+  const preferences = getPreferences();
+  const retries = preferences.autoRetry ? preferences.maxRetries : 0;
 
   /**
-   * Execute a command with retry logic.
-   * Retries failed commands based on preferences.
+   * Execute a command through the queue.
    * Shows toast notifications for status.
    * @param command - Command to execute
+   * @param execution - Tap, long-press or repeat, a single tap by default
    */
   const execute = useCallback(
-    async (command: HarmonyCommand) => {
+    async (command: HarmonyCommand, execution?: CommandExecution) => {
       try {
-        let retries = 0;
-        let success = false;
-
-        while (!success && retries <= maxRetries) {
-          try {
-            await executeCommand(command);
-            success = true;
-          } catch (error) {
-            retries++;
-            if (!autoRetry || retries > maxRetries) {
-              throw error;
-            }
-            // Wait before retrying
-            await new Promise((resolve) => setTimeout(resolve, holdTime));
-          }
+        await executeCommand(command, { retries, execution });
+        ToastManager.success(describeExecution(command, execution));
+      } catch (error) {
+        // Cancelled commands were dropped on purpose
+        if (error instanceof HarmonyError && error.code === "COMMAND_CANCELLED") {
+          return;
         }
 
-        ToastManager.success(`Executed ${command.label}`);
-      } catch (error) {
         const harmonyError = new HarmonyError(
           `Failed to execute ${command.label}`,
           ErrorCategory.COMMAND_EXECUTION,
           error instanceof Error ? error : undefined,
         );
 
-        ToastManager.error(`Failed to execute ${command.label}`, harmonyError.message);
+        if (isTimeoutError(error)) {
+          ToastManager.error(`${command.label} timed out`, "The hub is slow to respond, try again in a moment");
+          return;
+        }
+
+        ToastManager.error(`Failed to execute ${command.label}`, harmonyError.cause?.message ?? harmonyError.message);
       }
     },
-    [executeCommand, holdTime, autoRetry, maxRetries],
+    [executeCommand, retries],
   );
 
+  const lastResult = history[0];
+  const lastCommand = lastResult?.command ?? null;
+  const error = lastResult?.status === CommandStatus.FAILED ? ((lastResult.error as HarmonyError) ?? null) : null;
+
   /**
    * Retry the last failed command.
-   * Only works if there is a last command.
+   * Only works if the last command failed.
    */
   const retry = useCallback(async () => {
-    if (state.lastCommand) {
-      await execute(state.lastCommand);
+    if (lastResult?.status === CommandStatus.FAILED) {
+      await execute(lastResult.command, lastResult.execution);
     }
-  }, [execute, state.lastCommand]);
+  }, [execute, lastResult]);
+
+  const cancel = useCallback((id: string) => queues.some((queue) => queue.cancel(id)), [queues]);
+  const cancelAll = useCallback(() => queues.reduce((count, queue) => count + queue.cancelAll(), 0), [queues]);
 
   return {
     execute,
     retry,
-    isExecuting: state.isExecuting,
-    lastCommand: state.lastCommand,
-    error: state.error,
+    cancel,
+    cancelAll,
+    isExecuting: pending.some((result) => result.status === CommandStatus.EXECUTING),
+    lastCommand,
+    error,
+    pending,
+    history,
   };
 }
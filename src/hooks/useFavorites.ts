@@ -0,0 +1,79 @@
+/**
+ * Hook for the selected hub's favorites and the favorites-only filter.
+ * Items owned by another connected hub are not starred here; switch to that hub to star them.
+ * @module
+ */
+
+import { useCallback, useEffect } from "react";
+
+import { ErrorHandler } from "../services/errorHandler";
+import { ToastManager } from "../services/toast";
+import { useFavoritesStore } from "../stores/favorites";
+import { useHarmonyStore } from "../stores/harmony";
+import { useViewStore } from "../stores/view";
+import { FavoriteKind } from "../types/core/favorites";
+
+/**
+ * Result interface for the favorites hook
+ * @interface FavoritesResult
+ */
+interface FavoritesResult {
+  /** Whether an item, owned by the given hub or the selected one, is starred */
+  isFavorite: (kind: FavoriteKind, id: string, hubId?: string) => boolean;
+  /** Star or unstar an item, naming it in the confirmation toast */
+  toggleFavorite: (kind: FavoriteKind, id: string, name: string, hubId?: string) => Promise<void>;
+  /** Whether lists are restricted to starred items */
+  showFavorites: boolean;
+  /** Switch between starred items only and all items */
+  toggleShowFavorites: () => void;
+}
+
+/**
+ * Hook for the selected hub's favorites.
+ * Loads the hub's favorites when the selected hub changes.
+ * @returns FavoritesResult containing lookups and actions
+ */
+export function useFavorites(): FavoritesResult {
+  const selectedHub = useHarmonyStore((state) => state.selectedHub);
+  const loadedHubId = useFavoritesStore((state) => state.hubId);
+  const favorites = useFavoritesStore((state) => state.favorites);
+  const loadFavorites = useFavoritesStore((state) => state.loadFavorites);
+  const toggleStoreFavorite = useFavoritesStore((state) => state.toggleFavorite);
+  const showFavorites = useViewStore((state) => state.filters.showFavorites);
+  const setFilters = useViewStore((state) => state.setFilters);
+
+  useEffect(() => {
+    if (selectedHub && selectedHub.hubId !== loadedHubId) {
+      loadFavorites(selectedHub.hubId);
+    }
+  }, [selectedHub, loadedHubId, loadFavorites]);
+
+  const isFavorite = useCallback(
+    (kind: FavoriteKind, id: string, hubId?: string) =>
+      (!hubId || hubId === selectedHub?.hubId) && loadedHubId === selectedHub?.hubId && favorites[kind].includes(id),
+    [favorites, loadedHubId, selectedHub],
+  );
+
+  const toggleFavorite = useCallback(
+    async (kind: FavoriteKind, id: string, name: string, hubId?: string) => {
+      if (hubId && hubId !== selectedHub?.hubId) {
+        ToastManager.error(`Cannot star ${name}`, "Favorites belong to the selected hub; select its hub first");
+        return;
+      }
+      try {
+        const starred = await toggleStoreFavorite(kind, id);
+        ToastManager.success(starred ? `Added ${name} to Favorites` : `Removed ${name} from Favorites`);
+      } catch (err) {
+        ErrorHandler.handle(err, "Failed to update favorites");
+      }
+    },
+    [toggleStoreFavorite, selectedHub],
+  );
+
+  const toggleShowFavorites = useCallback(
+    () => setFilters({ showFavorites: !showFavorites }),
+    [setFilters, showFavorites],
+  );
+
+  return { isFavorite, toggleFavorite, showFavorites, toggleShowFavorites };
+}
@@ -0,0 +1,95 @@
+/**
+ * Hook for working with the selected hub's macros.
+ * Reads the stores directly so it also works in views pushed outside the HarmonyProvider.
+ * @module
+ */
+
+import { useCallback, useEffect, useMemo } from "react";
+
+import { useHarmonyStore } from "../stores/harmony";
+import { MacroStepChanges, useMacroStore } from "../stores/macros";
+import { HarmonyCommand } from "../types/core/harmony";
+import { HarmonyMacro, MacroProgress } from "../types/core/macro";
+
+/**
+ * Result interface for the macros hook
+ * @interface MacrosResult
+ */
+interface MacrosResult {
+  /** Macros stored for the selected hub */
+  macros: readonly HarmonyMacro[];
+  /** Progress of the running macro, if any */
+  progress: MacroProgress | null;
+  /** Create a macro, optionally starting with a command */
+  createMacro: (name: string, command?: HarmonyCommand) => Promise<HarmonyMacro>;
+  /** Rename a macro */
+  renameMacro: (macroId: string, name: string) => Promise<void>;
+  /** Delete a macro */
+  deleteMacro: (macroId: string) => Promise<void>;
+  /** Append a command to a macro */
+  addStep: (macroId: string, command: HarmonyCommand) => Promise<void>;
+  /** Change a step's repeat count, delay or hold time */
+  updateStep: (macroId: string, stepId: string, changes: MacroStepChanges) => Promise<void>;
+  /** Remove a step from a macro */
+  removeStep: (macroId: string, stepId: string) => Promise<void>;
+  /** Move a step up (negative offset) or down (positive offset) */
+  moveStep: (macroId: string, stepId: string, offset: number) => Promise<void>;
+  /** Run a macro, sending each step to the connected hub that owns its command */
+  runMacro: (macroId: string) => Promise<void>;
+  /** Stop the running macro */
+  stopMacro: () => void;
+}
+
+/**
+ * Hook for the selected hub's macros.
+ * Loads the hub's macros when the selected hub changes.
+ * @returns MacrosResult containing macros, progress and actions
+ */
+export function useMacros(): MacrosResult {
+  const selectedHub = useHarmonyStore((state) => state.selectedHub);
+  const sessions = useHarmonyStore((state) => state.sessions);
+  const loadedHubId = useMacroStore((state) => state.hubId);
+  const macros = useMacroStore((state) => state.macros);
+  const progress = useMacroStore((state) => state.progress);
+  const loadMacros = useMacroStore((state) => state.loadMacros);
+  const createMacro = useMacroStore((state) => state.createMacro);
+  const renameMacro = useMacroStore((state) => state.renameMacro);
+  const deleteMacro = useMacroStore((state) => state.deleteMacro);
+  const addStep = useMacroStore((state) => state.addStep);
+  const updateStep = useMacroStore((state) => state.updateStep);
+  const removeStep = useMacroStore((state) => state.removeStep);
+  const moveStep = useMacroStore((state) => state.moveStep);
+  const runStoreMacro = useMacroStore((state) => state.runMacro);
+  const stopStoreMacro = useMacroStore((state) => state.stopMacro);
+
+  const connectedHubs = useMemo(() => Object.values(sessions).map((session) => session.hub), [sessions]);
+
+  useEffect(() => {
+    if (selectedHub && selectedHub.hubId !== loadedHubId) {
+      loadMacros(selectedHub.hubId);
+    }
+  }, [selectedHub, loadedHubId, loadMacros]);
+
+  const runMacro = useCallback(
+    async (macroId: string) => {
+      if (selectedHub) {
+        await runStoreMacro(selectedHub, macroId, connectedHubs);
+      }
+    },
+    [selectedHub, connectedHubs, runStoreMacro],
+  );
+
+  return {
+    macros: selectedHub && selectedHub.hubId === loadedHubId ? macros : [],
+    progress,
+    createMacro,
+    renameMacro,
+    deleteMacro,
+    addStep,
+    updateStep,
+    removeStep,
+    moveStep,
+    runMacro,
+    stopMacro: stopStoreMacro,
+  };
+}
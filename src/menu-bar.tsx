@@ -0,0 +1,136 @@
+import { Icon, LaunchType, MenuBarExtra, launchCommand, showHUD } from "@raycast/api";
+import { useCachedPromise } from "@raycast/utils";
+import { useState } from "react";
+
+import { HarmonyClient } from "./services/harmony/harmonyClient";
+import { loadCachedHub, withHubClient } from "./services/harmony/quickControl";
+import { ToastManager } from "./services/toast";
+import { useFavoritesStore } from "./stores/favorites";
+import { favoriteCommandId } from "./types/core/favorites";
+import { HarmonyActivity, HarmonyCommand, HarmonyDevice, HarmonyHub } from "./types/core/harmony";
+
+/**
+ * Hub state shown in the menu bar
+ * @interface MenuBarState
+ */
+interface MenuBarState {
+  /** Hub the menu controls */
+  hub: HarmonyHub;
+  /** All activities on the hub */
+  activities: HarmonyActivity[];
+  /** Running activity, or null when the hub is off */
+  currentActivity: HarmonyActivity | null;
+  /** Starred commands with the device they belong to */
+  favoriteCommands: { device: HarmonyDevice; command: HarmonyCommand }[];
+}
+
+/**
+ * Load the cached hub's activities and favorite commands
+ * @returns State shown in the menu bar
+ */
+async function loadMenuBarState(): Promise<MenuBarState> {
+  const hub = await loadCachedHub();
+  await useFavoritesStore.getState().loadFavorites(hub.hubId);
+  const starred = useFavoritesStore.getState().favorites.commands;
+
+  return withHubClient(hub, async (client) => {
+    const activities = await client.getActivities();
+    const currentActivity = await client.getCurrentActivity();
+    const devices = starred.length > 0 ? await client.getDevices() : [];
+    const favoriteCommands = devices.flatMap((device) =>
+      device.commands
+        .filter((command) => starred.includes(favoriteCommandId(command)))
+        .map((command) => ({ device, command })),
+    );
+    return { hub, activities, currentActivity, favoriteCommands };
+  });
+}
+
+export default function Command(): JSX.Element {
+  const { data, error, isLoading, revalidate } = useCachedPromise(loadMenuBarState, [], {
+    keepPreviousData: true,
+    failureToastOptions: { title: "Failed to load Harmony Hub" },
+  });
+
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Run a hub operation, confirm it with a HUD and refresh the menu.
+  // The command stays loaded while isLoading is true, so the operation can finish.
+  const run = async (success: string, operation: (client: HarmonyClient) => Promise<void>): Promise<void> => {
+    if (!data) return;
+    setIsRunning(true);
+    try {
+      await withHubClient(data.hub, operation);
+      await showHUD(success);
+    } catch (err) {
+      await ToastManager.error("Harmony Hub action failed", err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRunning(false);
+    }
+    revalidate();
+  };
+
+  const currentActivity = data?.currentActivity ?? null;
+
+  return (
+    <MenuBarExtra
+      icon={currentActivity ? Icon.Play : Icon.Power}
+      title={currentActivity?.name}
+      tooltip={currentActivity ? `Harmony: ${currentActivity.name}` : "Harmony: Off"}
+      isLoading={isLoading || isRunning}
+    >
+      {!data && error && (
+        <MenuBarExtra.Item
+          title="Choose a Hub…"
+          icon={Icon.Devices}
+          onAction={() => launchCommand({ name: "control", type: LaunchType.UserInitiated })}
+        />
+      )}
+      {data && (
+        <>
+          <MenuBarExtra.Section title={data.hub.name}>
+            <MenuBarExtra.Item title={currentActivity ? `Running: ${currentActivity.name}` : "Hub is off"} />
+            {currentActivity && (
+              <MenuBarExtra.Item
+                title="Power Off"
+                icon={Icon.Power}
+                onAction={() => run(`Powered off ${data.hub.name}`, (client) => client.stopActivity())}
+              />
+            )}
+          </MenuBarExtra.Section>
+          <MenuBarExtra.Section title="Activities">
+            {data.activities.map((activity) => (
+              <MenuBarExtra.Item
+                key={activity.id}
+                title={activity.name}
+                icon={activity.id === currentActivity?.id ? Icon.CheckCircle : Icon.Circle}
+                onAction={() => run(`Started ${activity.name}`, (client) => client.startActivity(activity.id))}
+              />
+            ))}
+          </MenuBarExtra.Section>
+          {data.favoriteCommands.length > 0 && (
+            <MenuBarExtra.Section title="Favorites">
+              {data.favoriteCommands.map(({ device, command }) => (
+                <MenuBarExtra.Item
+                  key={favoriteCommandId(command)}
+                  title={command.label}
+                  subtitle={device.name}
+                  icon={Icon.Star}
+                  onAction={() => run(`Sent ${command.label}`, (client) => client.executeCommand(command))}
+                />
+              ))}
+            </MenuBarExtra.Section>
+          )}
+        </>
+      )}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Open Harmony Control"
+          icon={Icon.AppWindow}
+          onAction={() => launchCommand({ name: "control", type: LaunchType.UserInitiated })}
+        />
+        <MenuBarExtra.Item title="Refresh" icon={Icon.ArrowClockwise} onAction={revalidate} />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,15 @@
+import { showHUD } from "@raycast/api";
+
+import { loadCachedHub, withHubClient } from "./services/harmony/quickControl";
+import { ToastManager } from "./services/toast";
+
+export default async function Command(): Promise<void> {
+  try {
+    const hub = await loadCachedHub();
+    await ToastManager.loading(`Powering off ${hub.name}...`);
+    await withHubClient(hub, (client) => client.stopActivity());
+    await showHUD(`Powered off ${hub.name}`);
+  } catch (err) {
+    await ToastManager.error("Failed to power off", err instanceof Error ? err.message : String(err));
+  }
+}
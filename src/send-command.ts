@@ -0,0 +1,34 @@
+import { LaunchProps, showHUD } from "@raycast/api";
+
+import { findByName, loadCachedHub, withHubClient } from "./services/harmony/quickControl";
+import { ToastManager } from "./services/toast";
+
+/**
+ * Arguments declared for the send-command command
+ * @interface SendCommandArguments
+ */
+interface SendCommandArguments {
+  /** Name or ID of the device */
+  device: string;
+  /** Label, name or ID of the command */
+  command: string;
+}
+
+export default async function Command(props: LaunchProps<{ arguments: SendCommandArguments }>): Promise<void> {
+  try {
+    const hub = await loadCachedHub();
+    await ToastManager.loading(`Sending ${props.arguments.command}...`);
+
+    const { device, command } = await withHubClient(hub, async (client) => {
+      const devices = await client.getDevices();
+      const device = findByName(devices, props.arguments.device, "device", (d) => d.name);
+      const command = findByName(device.commands, props.arguments.command, "command", (c) => c.label);
+      await client.executeCommand(command);
+      return { device, command };
+    });
+
+    await showHUD(`Sent ${command.label} to ${device.name}`);
+  } catch (err) {
+    await ToastManager.error("Failed to send command", err instanceof Error ? err.message : String(err));
+  }
+}
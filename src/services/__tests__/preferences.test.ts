@@ -0,0 +1,75 @@
+import { getPreferenceValues, showToast } from "@raycast/api";
+
+import { DEFAULT_PREFERENCES, getPreferences, resetPreferences } from "../preferences";
+
+const preferenceValues = getPreferenceValues as jest.Mock;
+
+describe("getPreferences", () => {
+  beforeEach(() => {
+    resetPreferences();
+    preferenceValues.mockReturnValue({});
+    (showToast as jest.Mock).mockClear();
+  });
+
+  afterAll(() => {
+    preferenceValues.mockReturnValue({});
+  });
+
+  it("uses the defaults for empty preferences", () => {
+    preferenceValues.mockReturnValue({ commandHoldTime: "", discoveryInterface: "  " });
+
+    expect(getPreferences()).toEqual(DEFAULT_PREFERENCES);
+    expect(showToast).not.toHaveBeenCalled();
+  });
+
+  it("parses text fields into typed values", () => {
+    preferenceValues.mockReturnValue({
+      defaultView: "activities",
+      commandHoldTime: " 250 ",
+      autoRetry: false,
+      discoveryTimeout: "8000",
+      discoveryBroadcastAddress: "10.0.20.255",
+      discoveryInterface: "en1",
+    });
+
+    expect(getPreferences()).toMatchObject({
+      defaultView: "activities",
+      commandHoldTime: 250,
+      autoRetry: false,
+      discoveryTimeout: 8000,
+      discoveryBroadcastAddress: "10.0.20.255",
+      discoveryInterface: "en1",
+    });
+  });
+
+  it("replaces invalid values with defaults and reports them once", () => {
+    preferenceValues.mockReturnValue({
+      commandGridColumns: "9",
+      commandTimeout: "fast",
+      discoveryBroadcastAddress: "10.0.20",
+      maxRetries: "2",
+    });
+
+    const preferences = getPreferences();
+    getPreferences();
+
+    expect(preferences.commandGridColumns).toBe(DEFAULT_PREFERENCES.commandGridColumns);
+    expect(preferences.commandTimeout).toBe(DEFAULT_PREFERENCES.commandTimeout);
+    expect(preferences.discoveryBroadcastAddress).toBeUndefined();
+    expect(preferences.maxRetries).toBe(2);
+    expect(showToast).toHaveBeenCalledTimes(1);
+    expect(showToast).toHaveBeenCalledWith(
+      expect.objectContaining({
+        title: "3 invalid preferences",
+        message: expect.stringContaining("Command grid columns must be between 2 and 6"),
+      }),
+    );
+  });
+
+  it("parses the preferences only once", () => {
+    getPreferences();
+    getPreferences();
+
+    expect(preferenceValues).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { LocalStorage } from "@raycast/api";
+
+import { resetLocalStorage } from "../../__mocks__/raycast-api";
+import { HarmonyError } from "../../types/core/errors";
+import { quarantineKey, StoragePayload, VersionedStorage } from "../versionedStorage";
+
+interface Settings {
+  name: string;
+  volume: number;
+}
+
+function isSettings(payload: unknown): payload is Settings {
+  const settings = payload as Partial<Settings>;
+  return typeof settings.name === "string" && typeof settings.volume === "number";
+}
+
+// Version 0 stored the volume as a string, version 1 called the name "label"
+const storage = VersionedStorage.register<Settings>({
+  key: "test-settings",
+  version: 2,
+  migrations: {
+    0: (payload) => ({ ...payload, volume: Number(payload.volume) }),
+    1: ({ label, ...payload }: StoragePayload) => ({ ...payload, name: label }),
+  },
+  validate: isSettings,
+});
+
+async function stored(key: string): Promise<unknown> {
+  const raw = await LocalStorage.getItem<string>(key);
+  return raw === undefined ? undefined : JSON.parse(raw);
+}
+
+describe("VersionedStorage", () => {
+  beforeEach(() => {
+    resetLocalStorage();
+  });
+
+  it("writes payloads with their version and reads them back", async () => {
+    await storage.write({ name: "Den", volume: 5 }, "1");
+
+    expect(await stored("test-settings-1")).toEqual({ name: "Den", volume: 5, version: 2 });
+    expect(await storage.read("1")).toEqual({ name: "Den", volume: 5 });
+  });
+
+  it("migrates unversioned payloads through every version and writes them back", async () => {
+    await LocalStorage.setItem("test-settings", JSON.stringify({ label: "Den", volume: "7" }));
+
+    expect(await storage.read()).toEqual({ name: "Den", volume: 7 });
+    expect(await stored("test-settings")).toEqual({ name: "Den", volume: 7, version: 2 });
+  });
+
+  it("returns null when nothing is stored", async () => {
+    expect(await storage.read()).toBeNull();
+  });
+
+  it.each([
+    ["invalid JSON", "{not json", "Payload is not valid JSON"],
+    ["a payload that does not match the schema", JSON.stringify({ name: 3, volume: 1, version: 2 }), "does not match"],
+    ["a payload from a newer version", JSON.stringify({ name: "Den", volume: 1, version: 3 }), "Unsupported version"],
+  ])("quarantines %s instead of throwing", async (_name, raw, reason) => {
+    await LocalStorage.setItem("test-settings", raw);
+
+    expect(await storage.read()).toBeNull();
+
+    expect(await stored("test-settings")).toBeUndefined();
+    expect(await stored(quarantineKey("test-settings"))).toMatchObject({
+      raw,
+      reason: expect.stringContaining(reason),
+    });
+  });
+
+  it("quarantines payloads a migration cannot handle", async () => {
+    const strict = VersionedStorage.register<Settings>({
+      key: "test-strict",
+      version: 1,
+      migrations: {
+        0: () => {
+          throw new Error("missing volume");
+        },
+      },
+      validate: isSettings,
+    });
+    await LocalStorage.setItem("test-strict", JSON.stringify({ name: "Den" }));
+
+    expect(await strict.read()).toBeNull();
+    expect(await stored(quarantineKey("test-strict"))).toMatchObject({ reason: expect.stringContaining("version 0") });
+  });
+
+  it("rejects a second schema for the same key", () => {
+    expect(() => VersionedStorage.register({ key: "test-settings", version: 1, validate: isSettings })).toThrow(
+      HarmonyError,
+    );
+  });
+
+  it("rejects migration chains with gaps", () => {
+    expect(() =>
+      VersionedStorage.register({
+        key: "test-gap",
+        version: 3,
+        migrations: { 0: (payload) => payload, 2: (payload) => payload },
+        validate: isSettings,
+      }),
+    ).toThrow("no migration from version 1");
+  });
+});
@@ -7,6 +7,7 @@
 import { showToast, Toast } from "@raycast/api";
 
 import { HarmonyError, ErrorCategory, ErrorSeverity, ErrorRecoveryAction } from "../types/core/errors";
+import { isTimeoutError, UNREACHABLE_ERROR_CODE } from "../utils/timeout";
 
 import { logError } from "./logger";
 
@@ -120,7 +121,7 @@ export class ErrorHandler {
    * @private
    */
   private static showErrorToast(error: HarmonyError): void {
-    const title = ErrorHandler.getCategoryTitle(error.category);
+    const title = ErrorHandler.getErrorTitle(error);
     showToast({
       style: Toast.Style.Failure,
       title,
@@ -128,6 +129,23 @@ export class ErrorHandler {
     });
   }
 
+  /**
+   * Get a user-friendly title for an error.
+   * A hub that is slow to answer is told apart from one that cannot be reached.
+   * @param error - The error to describe
+   * @returns A user-friendly title
+   * @private
+   */
+  private static getErrorTitle(error: HarmonyError): string {
+    if (isTimeoutError(error)) {
+      return "Hub Not Responding";
+    }
+    if (error.code === UNREACHABLE_ERROR_CODE) {
+      return "Hub Unreachable";
+    }
+    return ErrorHandler.getCategoryTitle(error.category);
+  }
+
   /**
    * Get a user-friendly title for an error category.
    * @param category - The error category
@@ -0,0 +1,83 @@
+/**
+ * Test double for the hub connection.
+ * Serves the simulator fixture by default; tests can reconfigure or fail individual calls.
+ * @module
+ */
+
+import { EventEmitter } from "events";
+
+import fixture from "../../../simulator/fixtures/living-room.json";
+
+/**
+ * Fake hub connection with jest-mocked protocol methods
+ */
+export class MockHubConnection extends EventEmitter {
+  /** Config returned by getAvailableCommands */
+  public config: { device: unknown[]; activity: unknown[] } = {
+    device: JSON.parse(JSON.stringify(fixture.devices)),
+    activity: JSON.parse(JSON.stringify(fixture.activities)),
+  };
+  /** Activity reported by getCurrentActivity */
+  public currentActivity = fixture.currentActivityId;
+  /** Config version reported in state digests */
+  public configVersion = 1;
+
+  getStateDigest = jest.fn(async () => ({
+    activityId: this.currentActivity,
+    activityStatus: this.currentActivity === "-1" ? 0 : 2,
+    configVersion: this.configVersion,
+  }));
+  getAvailableCommands = jest.fn(async () => this.config);
+  getActivities = jest.fn(async () => this.config.activity);
+  getCurrentActivity = jest.fn(async () => this.currentActivity);
+  startActivity = jest.fn(async (activityId: string) => {
+    this.currentActivity = activityId;
+    this.pushDigest(1);
+    this.pushDigest(2);
+    return {};
+  });
+  turnOff = jest.fn(async () => {
+    this.currentActivity = "-1";
+    this.pushDigest(0);
+    return {};
+  });
+  send = jest.fn(async () => ({}));
+  end = jest.fn(() => {
+    this.emit("close");
+  });
+
+  /**
+   * Emit a state digest for the current activity, as the hub does after every change
+   * @param activityStatus - 0 off, 1 starting, 2 started, 3 turning off
+   */
+  pushDigest(activityStatus: number): void {
+    this.emit("stateDigest", {
+      activityId: this.currentActivity,
+      activityStatus,
+      configVersion: this.configVersion,
+    });
+  }
+}
+
+/** Every client created since the last reset, newest last */
+export const createdClients: MockHubConnection[] = [];
+
+/**
+ * Opens a fake connection and records it
+ */
+async function openMockConnection(): Promise<MockHubConnection> {
+  const client = new MockHubConnection();
+  createdClients.push(client);
+  return client;
+}
+
+export const connectToHub = jest.fn(openMockConnection);
+
+/**
+ * Restores the default connection behaviour and forgets created clients
+ */
+export function resetHubConnections(): void {
+  createdClients.length = 0;
+  connectToHub.mockReset();
+  connectToHub.mockImplementation(openMockConnection);
+}
@@ -0,0 +1,212 @@
+import { CommandStatus, ExecutionMode } from "../../../types/core/command";
+import { ErrorCategory, HarmonyError } from "../../../types/core/errors";
+import { HarmonyCommand } from "../../../types/core/harmony";
+import { CommandQueue } from "../commandQueue";
+
+function command(id: string): HarmonyCommand {
+  return { id, name: id, label: id, deviceId: "50000001", group: "IRCommand" };
+}
+
+/** Executor whose calls stay in flight until the test settles them */
+function deferredExecutor(): {
+  executor: jest.Mock<Promise<void>, [HarmonyCommand]>;
+  settle: (index: number, error?: Error) => void;
+} {
+  const settlers: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  const executor = jest.fn<Promise<void>, [HarmonyCommand]>(
+    () =>
+      new Promise<void>((resolve, reject) => {
+        settlers.push({ resolve, reject });
+      }),
+  );
+  const settle = (index: number, error?: Error): void => {
+    const settler = settlers[index];
+    if (!settler) throw new Error(`No call ${index}`);
+    if (error) {
+      settler.reject(error);
+    } else {
+      settler.resolve();
+    }
+  };
+  return { executor, settle };
+}
+
+describe("CommandQueue", () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("runs commands one at a time with the configured delay between them", async () => {
+    const { executor, settle } = deferredExecutor();
+    const queue = new CommandQueue(executor, { commandDelay: 200 });
+
+    const first = queue.enqueue(CommandQueue.createRequest(command("VolumeUp")));
+    const second = queue.enqueue(CommandQueue.createRequest(command("VolumeDown")));
+    expect(executor).toHaveBeenCalledTimes(1);
+
+    settle(0);
+    await first;
+    await jest.advanceTimersByTimeAsync(199);
+    expect(executor).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(executor).toHaveBeenLastCalledWith(command("VolumeDown"), undefined);
+
+    settle(1);
+    expect((await second).status).toBe(CommandStatus.COMPLETED);
+  });
+
+  it("runs up to maxConcurrent commands at once", async () => {
+    const { executor } = deferredExecutor();
+    const queue = new CommandQueue(executor, { maxConcurrent: 2 });
+
+    queue.enqueue(CommandQueue.createRequest(command("A"))).catch(() => undefined);
+    queue.enqueue(CommandQueue.createRequest(command("B"))).catch(() => undefined);
+    queue.enqueue(CommandQueue.createRequest(command("C"))).catch(() => undefined);
+
+    expect(executor).toHaveBeenCalledTimes(2);
+    expect(queue.getSnapshot().pending.map((r) => r.status)).toEqual([
+      CommandStatus.EXECUTING,
+      CommandStatus.EXECUTING,
+      CommandStatus.QUEUED,
+    ]);
+  });
+
+  it("rejects requests once maxQueueSize is reached", async () => {
+    const { executor } = deferredExecutor();
+    const queue = new CommandQueue(executor, { maxQueueSize: 1 });
+    const onError = jest.fn();
+
+    queue.enqueue(CommandQueue.createRequest(command("A"))).catch(() => undefined);
+    queue.enqueue(CommandQueue.createRequest(command("B"))).catch(() => undefined);
+    const err = await queue.enqueue(CommandQueue.createRequest(command("C"), { onError })).catch((e) => e);
+
+    expect(err).toBeInstanceOf(HarmonyError);
+    expect(err.category).toBe(ErrorCategory.QUEUE);
+    expect(err.code).toBe("QUEUE_FULL");
+    expect(onError).toHaveBeenCalledWith(err);
+  });
+
+  it("fails a command that times out without sending it again", async () => {
+    const { executor } = deferredExecutor();
+    const queue = new CommandQueue(executor, { commandDelay: 0 });
+
+    const result = queue
+      .enqueue(CommandQueue.createRequest(command("Mute"), { timeout: 1000, retries: 2 }))
+      .catch((e) => e);
+    await jest.advanceTimersByTimeAsync(5000);
+    const err = await result;
+
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(err).toBeInstanceOf(HarmonyError);
+    expect(err.message).toBe("Command Mute timed out after 1100ms");
+    expect(queue.getSnapshot().history[0]?.status).toBe(CommandStatus.FAILED);
+  });
+
+  it("holds the next command until a timed out send settles", async () => {
+    const { executor, settle } = deferredExecutor();
+    const queue = new CommandQueue(executor, { commandDelay: 0 });
+
+    const first = queue.enqueue(CommandQueue.createRequest(command("Mute"), { timeout: 1000 })).catch((e) => e);
+    const second = queue.enqueue(CommandQueue.createRequest(command("VolumeUp")));
+    await jest.advanceTimersByTimeAsync(1100);
+
+    expect((await first).message).toBe("Command Mute timed out after 1100ms");
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(executor).toHaveBeenCalledTimes(1);
+
+    settle(0);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(executor).toHaveBeenLastCalledWith(command("VolumeUp"), undefined);
+    settle(1);
+    expect((await second).status).toBe(CommandStatus.COMPLETED);
+  });
+
+  it("gives a tap the command hold time on top of its timeout", async () => {
+    const { executor } = deferredExecutor();
+    const queue = new CommandQueue(executor, { commandDelay: 0 });
+
+    const result = queue
+      .enqueue(CommandQueue.createRequest(command("Mute"), { timeout: 1000, execution: { mode: ExecutionMode.TAP } }))
+      .catch((e) => e);
+    await jest.advanceTimersByTimeAsync(1100);
+
+    expect((await result).message).toBe("Command Mute timed out after 1100ms");
+  });
+
+  it("holds a command sent without execution options as a tap", async () => {
+    const { executor } = deferredExecutor();
+    const queue = new CommandQueue(executor, { commandDelay: 0 });
+
+    const result = queue.enqueue(CommandQueue.createRequest(command("Mute"), { timeout: 1000 })).catch((e) => e);
+    await jest.advanceTimersByTimeAsync(1099);
+    expect(queue.getSnapshot().history).toHaveLength(0);
+    await jest.advanceTimersByTimeAsync(1);
+
+    expect((await result).message).toBe("Command Mute timed out after 1100ms");
+  });
+
+  it("keeps the execution options on the result so failed commands can be retried as sent", async () => {
+    const executor = jest.fn(async () => {
+      throw new HarmonyError("Hub went away", ErrorCategory.HUB_COMMUNICATION, undefined, undefined, false);
+    });
+    const queue = new CommandQueue(executor);
+    const execution = { mode: ExecutionMode.REPEAT, count: 3, interval: 100 } as const;
+
+    await queue.enqueue(CommandQueue.createRequest(command("VolumeUp"), { execution })).catch(() => undefined);
+
+    expect(queue.getSnapshot().history[0]?.execution).toEqual(execution);
+  });
+
+  it("does not retry errors marked as not retryable", async () => {
+    const executor = jest.fn(async () => {
+      throw new HarmonyError("Invalid command", ErrorCategory.VALIDATION, undefined, undefined, false);
+    });
+    const queue = new CommandQueue(executor);
+
+    await queue.enqueue(CommandQueue.createRequest(command("Mute"), { retries: 3 })).catch(() => undefined);
+
+    expect(executor).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels queued commands but not the one executing", async () => {
+    const { executor, settle } = deferredExecutor();
+    const queue = new CommandQueue(executor);
+    const running = CommandQueue.createRequest(command("A"));
+    const waiting = CommandQueue.createRequest(command("B"));
+
+    const runningResult = queue.enqueue(running);
+    const waitingResult = queue.enqueue(waiting).catch((e) => e);
+
+    expect(queue.cancel(running.id)).toBe(false);
+    expect(queue.cancel(waiting.id)).toBe(true);
+    expect((await waitingResult).code).toBe("COMMAND_CANCELLED");
+
+    settle(0);
+    await runningResult;
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(executor).toHaveBeenCalledTimes(1);
+    expect(queue.getSnapshot().history.map((r) => r.status)).toEqual([
+      CommandStatus.COMPLETED,
+      CommandStatus.CANCELLED,
+    ]);
+  });
+
+  it("notifies subscribers and request callbacks", async () => {
+    const queue = new CommandQueue(async () => undefined);
+    const listener = jest.fn();
+    const onComplete = jest.fn();
+    const unsubscribe = queue.subscribe(listener);
+
+    await queue.enqueue(CommandQueue.createRequest(command("Play"), { onComplete }));
+    unsubscribe();
+
+    expect(onComplete).toHaveBeenCalled();
+    expect(listener).toHaveBeenLastCalledWith(queue.getSnapshot());
+    expect(queue.getSnapshot().pending).toEqual([]);
+    expect(queue.getSnapshot().history[0]).toMatchObject({ command: command("Play"), status: CommandStatus.COMPLETED });
+  });
+});
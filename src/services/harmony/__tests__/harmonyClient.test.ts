@@ -0,0 +1,603 @@
+import { LocalStorage } from "@raycast/api";
+
+import { resetLocalStorage } from "../../../__mocks__/raycast-api";
+import fixture from "../../../simulator/fixtures/living-room.json";
+import { ExecutionMode } from "../../../types/core/command";
+import { ErrorCategory, HarmonyError } from "../../../types/core/errors";
+import { HarmonyHub } from "../../../types/core/harmony";
+import { isTimeoutError, TIMEOUT_ERROR_CODE, UNREACHABLE_ERROR_CODE } from "../../../utils/timeout";
+import type * as MockHubConnection from "../__mocks__/hubConnection";
+import { HarmonyClient } from "../harmonyClient";
+
+jest.mock("../hubConnection");
+const {
+  createdClients,
+  connectToHub,
+  resetHubConnections,
+  MockHubConnection: MockConnection,
+} = jest.requireMock<typeof MockHubConnection>("../hubConnection");
+
+const hub: HarmonyHub = {
+  id: fixture.hub.uuid,
+  name: fixture.hub.friendlyName,
+  ip: fixture.hub.ip,
+  hubId: fixture.hub.hubId,
+  remoteId: fixture.hub.remoteId,
+  version: fixture.hub.current_fw_version,
+  port: "8088",
+  productId: fixture.hub.productId,
+  protocolVersion: fixture.hub.protocolVersion,
+};
+const cacheKey = `harmony-config-${hub.hubId}`;
+const DAY = 24 * 60 * 60 * 1000;
+
+async function connectedClient(): Promise<HarmonyClient> {
+  const client = HarmonyClient.getClient(hub);
+  await client.connect();
+  return client;
+}
+
+async function readCache(): Promise<{
+  devices: unknown[];
+  activities: unknown[];
+  timestamp: number;
+  fingerprint?: string;
+} | null> {
+  const raw = await LocalStorage.getItem<string>(cacheKey);
+  return raw ? JSON.parse(raw) : null;
+}
+
+describe("HarmonyClient", () => {
+  beforeEach(() => {
+    resetLocalStorage();
+    resetHubConnections();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    HarmonyClient.configureTimeouts({});
+    await HarmonyClient.getClient(hub).disconnect();
+  });
+
+  describe("connect", () => {
+    it("loads and caches the hub config", async () => {
+      const client = await connectedClient();
+
+      expect(client.isClientConnected()).toBe(true);
+      const cache = await readCache();
+      expect(cache?.devices).toHaveLength(fixture.devices.length);
+      expect(cache?.activities).toHaveLength(fixture.activities.length);
+    });
+
+    it("reuses the client for the same hub", async () => {
+      const client = await connectedClient();
+      expect(HarmonyClient.getClient(hub)).toBe(client);
+    });
+
+    it("wraps connection failures and forgets the client", async () => {
+      connectToHub.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+      const client = HarmonyClient.getClient(hub);
+
+      const err = await client.connect().catch((e) => e);
+
+      expect(err).toBeInstanceOf(HarmonyError);
+      expect(err.category).toBe(ErrorCategory.HUB_COMMUNICATION);
+      expect(err.cause?.message).toBe("ECONNREFUSED");
+      expect(err.code).toBe(UNREACHABLE_ERROR_CODE);
+      expect(isTimeoutError(err)).toBe(false);
+      expect(client.isClientConnected()).toBe(false);
+      expect(HarmonyClient.getClient(hub)).not.toBe(client);
+    });
+
+    it("closes a connection that opens but fails verification", async () => {
+      connectToHub.mockImplementationOnce(async () => {
+        const connection = new MockConnection();
+        connection.getStateDigest.mockRejectedValueOnce(new Error("Unsupported command"));
+        createdClients.push(connection);
+        return connection;
+      });
+
+      await HarmonyClient.getClient(hub)
+        .connect()
+        .catch(() => undefined);
+
+      expect(createdClients[0]?.end).toHaveBeenCalled();
+    });
+
+    it("gives up on a hub that does not accept the connection in time", async () => {
+      HarmonyClient.configureTimeouts({ connection: 2000 });
+      connectToHub.mockReturnValueOnce(new Promise(() => undefined));
+      jest.useFakeTimers();
+      const client = HarmonyClient.getClient(hub);
+
+      const result = client.connect().catch((e) => e);
+      await jest.advanceTimersByTimeAsync(2000);
+      const err = await result;
+
+      expect(err).toBeInstanceOf(HarmonyError);
+      expect(err.code).toBe(TIMEOUT_ERROR_CODE);
+      expect(err.cause?.code).toBe(TIMEOUT_ERROR_CODE);
+      expect(err.cause?.details).toEqual({ timeout: 2000 });
+      expect(isTimeoutError(err)).toBe(true);
+      expect(client.isClientConnected()).toBe(false);
+    });
+
+    it("keeps each device command's control group and action", async () => {
+      const client = await connectedClient();
+      const [powerOff] = (await client.getDevices())[0]?.commands ?? [];
+      const rawFunction = fixture.devices[0]?.controlGroup[0]?.function[0];
+
+      expect(powerOff?.group).toBe(fixture.devices[0]?.controlGroup[0]?.name);
+      expect(powerOff?.action).toBe(rawFunction?.action);
+    });
+  });
+
+  describe("operations before connecting", () => {
+    it.each([
+      ["getDevices", (c: HarmonyClient) => c.getDevices()],
+      ["getActivities", (c: HarmonyClient) => c.getActivities()],
+      ["getCurrentActivity", (c: HarmonyClient) => c.getCurrentActivity()],
+      ["startActivity", (c: HarmonyClient) => c.startActivity("1")],
+      ["stopActivity", (c: HarmonyClient) => c.stopActivity()],
+    ])("%s rejects with a STATE error", async (_name, call) => {
+      const err = await call(HarmonyClient.getClient(hub)).catch((e) => e);
+      expect(err).toBeInstanceOf(HarmonyError);
+      expect(err.category).toBe(ErrorCategory.STATE);
+    });
+  });
+
+  describe("config cache", () => {
+    it("serves devices from a fresh cache without querying the hub", async () => {
+      const client = await connectedClient();
+      const hubClient = createdClients[0];
+      hubClient?.getAvailableCommands.mockClear();
+
+      const devices = await client.getDevices();
+
+      expect(devices).toHaveLength(fixture.devices.length);
+      expect(hubClient?.getAvailableCommands).not.toHaveBeenCalled();
+    });
+
+    it("keeps an old cache while the hub reports the same config version", async () => {
+      const client = await connectedClient();
+      const cache = await readCache();
+      await LocalStorage.setItem(cacheKey, JSON.stringify({ ...cache, timestamp: Date.now() - DAY - 1 }));
+      const hubClient = createdClients[0];
+      hubClient?.getAvailableCommands.mockClear();
+
+      await client.getDevices();
+
+      expect(hubClient?.getAvailableCommands).not.toHaveBeenCalled();
+    });
+
+    it("skips downloading the config on connect when its version is unchanged", async () => {
+      await connectedClient();
+      const cache = await readCache();
+      expect(cache?.fingerprint).toBe("1");
+      await HarmonyClient.getClient(hub).disconnect();
+
+      await connectedClient();
+
+      expect(createdClients[1]?.getStateDigest).toHaveBeenCalled();
+      expect(createdClients[1]?.getAvailableCommands).not.toHaveBeenCalled();
+      expect((await readCache())?.timestamp).toBe(cache?.timestamp);
+    });
+
+    it("downloads the config on connect when the hub reports a new version", async () => {
+      await connectedClient();
+      const cache = await readCache();
+      await LocalStorage.setItem(cacheKey, JSON.stringify({ ...cache, fingerprint: "0" }));
+      await HarmonyClient.getClient(hub).disconnect();
+
+      await connectedClient();
+
+      expect(createdClients[1]?.getAvailableCommands).toHaveBeenCalled();
+      expect((await readCache())?.fingerprint).toBe("1");
+    });
+
+    it("refetches and rewrites an expired cache without a config version", async () => {
+      const client = await connectedClient();
+      const cache = await readCache();
+      await LocalStorage.setItem(
+        cacheKey,
+        JSON.stringify({ ...cache, fingerprint: undefined, timestamp: Date.now() - DAY - 1 }),
+      );
+      const hubClient = createdClients[0];
+      hubClient?.getAvailableCommands.mockClear();
+
+      await client.getDevices();
+
+      expect(hubClient?.getAvailableCommands).toHaveBeenCalled();
+      const rewritten = await readCache();
+      expect(rewritten?.timestamp).toBeGreaterThan(Date.now() - 1000);
+    });
+
+    it("discards a cache missing activities", async () => {
+      const client = await connectedClient();
+      const cache = await readCache();
+      await LocalStorage.setItem(cacheKey, JSON.stringify({ ...cache, activities: [] }));
+      const hubClient = createdClients[0];
+      hubClient?.getActivities.mockClear();
+
+      const activities = await client.getActivities();
+
+      expect(activities).toHaveLength(fixture.activities.length);
+      expect(hubClient?.getActivities).toHaveBeenCalled();
+    });
+
+    it("migrates a cache written before commands kept their action", async () => {
+      const client = await connectedClient();
+      const cache = await readCache();
+      const legacyDevices = (cache?.devices as { commands: object[] }[]).map((device) => ({
+        ...device,
+        commands: device.commands.map((command) => ({ ...command, action: undefined, group: "IRCommand" })),
+      }));
+      // Caches written before commands kept their action had no version
+      await LocalStorage.setItem(cacheKey, JSON.stringify({ ...cache, version: undefined, devices: legacyDevices }));
+      const hubClient = createdClients[0];
+      hubClient?.getAvailableCommands.mockClear();
+
+      const [powerOff] = (await client.getDevices())[0]?.commands ?? [];
+
+      expect(hubClient?.getAvailableCommands).not.toHaveBeenCalled();
+      expect(powerOff?.group).toBeUndefined();
+      expect(JSON.parse(powerOff?.action ?? "")).toEqual({
+        command: "PowerOff",
+        type: "IRCommand",
+        deviceId: fixture.devices[0]?.id,
+      });
+      const rewritten = (await readCache()) as { devices: { commands: { action?: string }[] }[] } | null;
+      expect(rewritten?.devices.every((device) => device.commands.every((command) => command.action))).toBe(true);
+    });
+
+    it("migrates a cache written before activities kept their control groups", async () => {
+      await connectedClient();
+      await HarmonyClient.getClient(hub).disconnect();
+      const cache = await readCache();
+      const legacyDevices = (cache?.devices as { commands: object[] }[]).map((device) => ({
+        ...device,
+        commands: device.commands.map((command) => ({ ...command, action: undefined })),
+      }));
+      const legacyActivities = (cache?.activities as Record<string, unknown>[]).map(
+        ({ id, name, type, isCurrent }) => ({ id, name, type, isCurrent }),
+      );
+      await LocalStorage.setItem(
+        cacheKey,
+        JSON.stringify({ devices: legacyDevices, activities: legacyActivities, timestamp: cache?.timestamp }),
+      );
+
+      const config = await HarmonyClient.getClient(hub).loadCachedConfig();
+
+      expect(config?.activities).toHaveLength(fixture.activities.length);
+      expect(config?.activities[0]).toMatchObject({ controlGroups: [], powerStates: [], sequences: [] });
+      expect(config?.devices.every((device) => device.commands.every((command) => command.action))).toBe(true);
+      expect(await LocalStorage.getItem(`${cacheKey}-quarantined`)).toBeUndefined();
+    });
+
+    it("discards a cache with activities missing their control groups", async () => {
+      const client = await connectedClient();
+      const cache = await readCache();
+      const activities = (cache?.activities as Record<string, unknown>[]).map(({ id, name, type, isCurrent }) => ({
+        id,
+        name,
+        type,
+        isCurrent,
+      }));
+      await LocalStorage.setItem(cacheKey, JSON.stringify({ ...cache, activities }));
+      createdClients[0]?.getActivities.mockClear();
+
+      const [activity] = await client.getActivities();
+
+      expect(createdClients[0]?.getActivities).toHaveBeenCalled();
+      expect(activity?.controlGroups.length).toBeGreaterThan(0);
+    });
+
+    it("reads the cached config without connecting", async () => {
+      await connectedClient();
+      await HarmonyClient.getClient(hub).disconnect();
+      connectToHub.mockClear();
+
+      const config = await HarmonyClient.getClient(hub).loadCachedConfig();
+
+      expect(config?.devices).toHaveLength(fixture.devices.length);
+      expect(config?.activities).toHaveLength(fixture.activities.length);
+      expect(connectToHub).not.toHaveBeenCalled();
+    });
+
+    it("clearCache removes the stored config", async () => {
+      const client = await connectedClient();
+      await client.clearCache();
+      expect(await readCache()).toBeNull();
+    });
+  });
+
+  describe("activities", () => {
+    it("reports no current activity when the hub is off", async () => {
+      const client = await connectedClient();
+      expect(await client.getCurrentActivity()).toBeNull();
+    });
+
+    it("starts an activity once the hub reports it started", async () => {
+      const client = await connectedClient();
+      const activityId = fixture.activities[0]?.id ?? "";
+
+      await client.startActivity(activityId);
+
+      expect(createdClients[0]?.startActivity).toHaveBeenCalledWith(activityId);
+      expect((await client.getCurrentActivity())?.id).toBe(activityId);
+    });
+
+    it("times out when the hub never reports the activity", async () => {
+      const client = await connectedClient();
+      createdClients[0]?.startActivity.mockResolvedValueOnce({});
+      jest.useFakeTimers();
+
+      const result = client.startActivity(fixture.activities[0]?.id ?? "").catch((e) => e);
+      await jest.advanceTimersByTimeAsync(11000);
+      const err = await result;
+
+      expect(err).toBeInstanceOf(HarmonyError);
+      expect(err.category).toBe(ErrorCategory.COMMAND_EXECUTION);
+      expect(err.cause?.message).toBe("Timeout waiting for activity to start");
+      expect(isTimeoutError(err)).toBe(true);
+    });
+
+    it("bounds requests to the hub by the message timeout", async () => {
+      const client = await connectedClient();
+      HarmonyClient.configureTimeouts({ message: 1000 });
+      createdClients[0]?.getCurrentActivity.mockReturnValueOnce(new Promise(() => undefined));
+      jest.useFakeTimers();
+
+      const result = client.getCurrentActivity().catch((e) => e);
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(isTimeoutError(await result)).toBe(true);
+    });
+
+    it("stops an activity once the hub reports it off", async () => {
+      const client = await connectedClient();
+      await client.startActivity(fixture.activities[0]?.id ?? "");
+
+      await client.stopActivity();
+
+      expect(createdClients[0]?.turnOff).toHaveBeenCalled();
+      expect(await client.getCurrentActivity()).toBeNull();
+    });
+
+    it("stopActivity is a no-op when nothing is running", async () => {
+      const client = await connectedClient();
+      await client.stopActivity();
+      expect(createdClients[0]?.turnOff).not.toHaveBeenCalled();
+    });
+
+    it("keeps each activity's control groups, power states and roles", async () => {
+      const client = await connectedClient();
+
+      const activity = (await client.getActivities()).find((a) => a.id === "30000001");
+
+      expect(activity?.controlGroups.map((group) => group.name)).toEqual(["Volume", "Channel"]);
+      expect(activity?.controlGroups[0]?.commands[0]).toMatchObject({ id: "Mute", deviceId: "50000002" });
+      expect(activity?.powerStates.map((state) => state.deviceId)).toEqual(["50000001", "50000002"]);
+      expect(activity?.volumeActivityRole).toBe("50000002");
+      expect(activity?.channelChangingActivityRole).toBe("50000001");
+      expect(activity?.sequences).toEqual([]);
+    });
+  });
+
+  describe("state digests", () => {
+    it("emits activity events as the hub reports changes", async () => {
+      const client = await connectedClient();
+      const hubClient = createdClients[0];
+      const activityId = fixture.activities[1]?.id ?? "";
+      const starting = jest.fn();
+      const started = jest.fn();
+      const stopped = jest.fn();
+      client.on("activityStarting", starting);
+      client.on("activityStarted", started);
+      client.on("activityStopped", stopped);
+
+      hubClient?.emit("stateDigest", { activityId, activityStatus: 1, configVersion: 1 });
+      hubClient?.emit("stateDigest", { activityId, activityStatus: 2, configVersion: 1 });
+      hubClient?.emit("stateDigest", { activityId, activityStatus: 2, configVersion: 1 });
+      await new Promise(process.nextTick);
+      hubClient?.emit("stateDigest", { activityId: "-1", activityStatus: 0, configVersion: 1 });
+
+      expect(starting).toHaveBeenCalledWith(activityId);
+      expect(started).toHaveBeenCalledTimes(1);
+      expect(started.mock.calls[0][0]).toMatchObject({ id: activityId, isCurrent: true });
+      expect(stopped).toHaveBeenCalledTimes(1);
+    });
+
+    it("clears the config cache when the config version changes", async () => {
+      const client = await connectedClient();
+      const hubClient = createdClients[0];
+      const configChanged = jest.fn();
+      client.on("configChanged", configChanged);
+
+      hubClient?.emit("stateDigest", { activityId: "-1", activityStatus: 0, configVersion: 1 });
+      hubClient?.emit("stateDigest", { activityId: "-1", activityStatus: 0, configVersion: 2 });
+      await new Promise(process.nextTick);
+
+      expect(configChanged).toHaveBeenCalledWith(2);
+      expect(await readCache()).toBeNull();
+    });
+
+    it("stops notifying removed listeners", async () => {
+      const client = await connectedClient();
+      const stopped = jest.fn();
+      const unsubscribe = client.on("activityStopped", stopped);
+
+      unsubscribe();
+      createdClients[0]?.emit("stateDigest", { activityId: "-1", activityStatus: 0 });
+
+      expect(stopped).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("executeCommand", () => {
+    it("sends a press and a release", async () => {
+      const client = await connectedClient();
+      const device = (await client.getDevices())[0];
+      const command = device?.commands[0];
+      if (!command) throw new Error("fixture has no commands");
+
+      await client.executeCommand(command);
+
+      const sends = createdClients[0]?.send.mock.calls.map((call: unknown[]) => call[0]);
+      expect(sends).toEqual(["holdAction", "releaseAction"]);
+    });
+
+    it("sends the hub's action verbatim", async () => {
+      const client = await connectedClient();
+      const command = (await client.getDevices())[0]?.commands[0];
+      if (!command) throw new Error("fixture has no commands");
+      const action = '{"command":"PowerOff","type":"HTTPCommand","deviceId":"42"}';
+
+      await client.executeCommand({ ...command, action });
+
+      expect(createdClients[0]?.send).toHaveBeenCalledWith("holdAction", action);
+      expect(createdClients[0]?.send).toHaveBeenCalledWith("releaseAction", action);
+    });
+
+    it("holds a long press for the requested duration", async () => {
+      const client = await connectedClient();
+      const command = (await client.getDevices())[0]?.commands[0];
+      if (!command) throw new Error("fixture has no commands");
+      jest.useFakeTimers();
+
+      const done = client.executeCommand(command, { mode: ExecutionMode.LONG_PRESS, duration: 2000 });
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(createdClients[0]?.send).not.toHaveBeenCalledWith("releaseAction", command.action);
+      await jest.advanceTimersByTimeAsync(1);
+      await done;
+
+      expect(createdClients[0]?.send).toHaveBeenCalledWith("releaseAction", command.action);
+    });
+
+    it("repeats a command with a pause between presses", async () => {
+      const client = await connectedClient();
+      const command = (await client.getDevices())[0]?.commands[0];
+      if (!command) throw new Error("fixture has no commands");
+
+      await client.executeCommand(command, { mode: ExecutionMode.REPEAT, count: 3, interval: 0, holdTime: 0 });
+
+      const sends = createdClients[0]?.send.mock.calls.map((call: unknown[]) => call[0]);
+      expect(sends).toEqual([
+        "holdAction",
+        "releaseAction",
+        "holdAction",
+        "releaseAction",
+        "holdAction",
+        "releaseAction",
+      ]);
+    });
+
+    it("rejects a repeat count below one without sending", async () => {
+      const client = await connectedClient();
+      const command = (await client.getDevices())[0]?.commands[0];
+      if (!command) throw new Error("fixture has no commands");
+
+      const err = await client
+        .executeCommand(command, { mode: ExecutionMode.REPEAT, count: 0, interval: 100 })
+        .catch((e) => e);
+
+      expect(err).toBeInstanceOf(HarmonyError);
+      expect(err.category).toBe(ErrorCategory.VALIDATION);
+      expect(createdClients[0]?.send).not.toHaveBeenCalled();
+    });
+
+    it("addresses a command saved without an action by its ID", async () => {
+      const client = await connectedClient();
+
+      await client.executeCommand({
+        id: "Mute",
+        name: "Mute",
+        label: "Mute",
+        deviceId: "50000002",
+        group: "IRCommand",
+      });
+
+      const [, body] = (createdClients[0]?.send.mock.calls[0] ?? []) as unknown[];
+      expect(JSON.parse(body as string)).toEqual({ command: "Mute", type: "IRCommand", deviceId: "50000002" });
+    });
+  });
+
+  describe("reconnection", () => {
+    it("re-establishes a dropped connection and runs waiting commands on it", async () => {
+      const client = await connectedClient();
+      const command = (await client.getDevices())[0]?.commands[0];
+      if (!command) throw new Error("fixture has no commands");
+      const reconnecting = jest.fn();
+      const reconnected = jest.fn();
+      client.on("reconnecting", reconnecting);
+      client.on("reconnected", reconnected);
+
+      createdClients[0]?.emit("close");
+      await client.executeCommand(command);
+
+      expect(reconnecting).toHaveBeenCalledWith(1, 5);
+      expect(reconnected).toHaveBeenCalled();
+      expect(client.isClientConnected()).toBe(true);
+      expect(createdClients).toHaveLength(2);
+      expect(createdClients[1]?.send).toHaveBeenCalledTimes(2);
+      expect(HarmonyClient.getClient(hub)).toBe(client);
+    });
+
+    it("replays an operation interrupted by the drop", async () => {
+      const client = await connectedClient();
+      const dropped = createdClients[0];
+      dropped?.getCurrentActivity.mockImplementationOnce(async () => {
+        dropped.emit("close");
+        throw new Error("socket closed");
+      });
+
+      expect(await client.getCurrentActivity()).toBeNull();
+      expect(createdClients[1]?.getCurrentActivity).toHaveBeenCalled();
+    });
+
+    it("backs off exponentially and gives up after maxAttempts", async () => {
+      const client = await connectedClient();
+      const connectionLost = jest.fn();
+      client.on("connectionLost", connectionLost);
+      connectToHub.mockRejectedValue(new Error("EHOSTUNREACH"));
+      jest.useFakeTimers();
+
+      createdClients[0]?.emit("close");
+      const pending = client.getCurrentActivity().catch((e) => e);
+
+      await jest.advanceTimersByTimeAsync(1000 + 2000 + 4000 - 1);
+      expect(connectToHub).toHaveBeenCalledTimes(4);
+      await jest.advanceTimersByTimeAsync(1 + 8000);
+
+      expect(connectToHub).toHaveBeenCalledTimes(6);
+      const err = await pending;
+      expect(err).toBeInstanceOf(HarmonyError);
+      expect(err.category).toBe(ErrorCategory.HUB_COMMUNICATION);
+      expect(connectionLost).toHaveBeenCalledWith(err);
+      expect(HarmonyClient.getClient(hub)).not.toBe(client);
+    });
+
+    it("does not reconnect after an intentional disconnect", async () => {
+      const client = await connectedClient();
+      const reconnecting = jest.fn();
+      client.on("reconnecting", reconnecting);
+
+      await client.disconnect();
+
+      expect(reconnecting).not.toHaveBeenCalled();
+      expect(createdClients).toHaveLength(1);
+    });
+  });
+
+  describe("disconnect", () => {
+    it("closes the socket and removes the client from activeClients", async () => {
+      const client = await connectedClient();
+
+      await client.disconnect();
+
+      expect(createdClients[0]?.end).toHaveBeenCalled();
+      expect(client.isClientConnected()).toBe(false);
+      expect(HarmonyClient.getClient(hub)).not.toBe(client);
+    });
+  });
+});
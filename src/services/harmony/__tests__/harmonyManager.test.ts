@@ -0,0 +1,350 @@
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+
+import { createdExplorers, Explorer, resetDiscover } from "../../../__mocks__/discover";
+import { resetLocalStorage } from "../../../__mocks__/raycast-api";
+import fixture from "../../../simulator/fixtures/living-room.json";
+import { HarmonyError } from "../../../types/core/errors";
+import { HarmonyHub } from "../../../types/core/harmony";
+import { UNREACHABLE_ERROR_CODE } from "../../../utils/timeout";
+import { resetPreferences } from "../../preferences";
+import type * as MockHubConnection from "../__mocks__/hubConnection";
+import { HarmonyClient } from "../harmonyClient";
+import { HarmonyManager } from "../harmonyManager";
+
+jest.mock("../hubConnection");
+const { connectToHub, resetHubConnections } = jest.requireMock<typeof MockHubConnection>("../hubConnection");
+
+const CACHE_KEY = "harmony-hubs";
+const DAY = 24 * 60 * 60 * 1000;
+
+function discoveryData(overrides: { uuid?: string; hubId?: string; friendlyName?: string; ip?: string } = {}): unknown {
+  return {
+    uuid: overrides.uuid ?? fixture.hub.uuid,
+    ip: overrides.ip ?? fixture.hub.ip,
+    friendlyName: overrides.friendlyName ?? fixture.hub.friendlyName,
+    fullHubInfo: {
+      hubId: overrides.hubId ?? fixture.hub.hubId,
+      productId: fixture.hub.productId,
+      current_fw_version: fixture.hub.current_fw_version,
+      protocolVersion: fixture.hub.protocolVersion,
+      port: "8088",
+      remoteId: fixture.hub.remoteId,
+    },
+  };
+}
+
+const cachedHub: HarmonyHub = {
+  id: fixture.hub.uuid,
+  name: fixture.hub.friendlyName,
+  ip: fixture.hub.ip,
+  hubId: fixture.hub.hubId,
+  remoteId: fixture.hub.remoteId,
+  version: fixture.hub.current_fw_version,
+  port: "8088",
+  productId: fixture.hub.productId,
+  protocolVersion: fixture.hub.protocolVersion,
+};
+
+/** Waits for startDiscovery to get past its cache check and create an explorer */
+async function nextExplorer(): Promise<Explorer> {
+  for (let i = 0; i < 100 && createdExplorers.length === 0; i++) {
+    await Promise.resolve();
+  }
+  const explorer = createdExplorers[0];
+  if (!explorer) throw new Error("Explorer was not created");
+  return explorer;
+}
+
+describe("HarmonyManager", () => {
+  let manager: HarmonyManager;
+
+  beforeEach(() => {
+    resetLocalStorage();
+    resetHubConnections();
+    resetDiscover();
+    resetPreferences();
+    manager = new HarmonyManager();
+    jest.useFakeTimers();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await manager.cleanup();
+    await HarmonyClient.getClient(cachedHub).disconnect();
+  });
+
+  describe("network discovery", () => {
+    it("ignores duplicate announcements of the same hub", async () => {
+      const discovery = manager.startDiscovery();
+      const explorer = await nextExplorer();
+
+      explorer.emit("online", discoveryData());
+      explorer.emit("online", discoveryData({ uuid: "other-uuid", ip: "10.0.0.9" }));
+      await jest.advanceTimersByTimeAsync(500);
+
+      const hubs = await discovery;
+      expect(hubs).toHaveLength(1);
+      expect(hubs[0]?.hubId).toBe(fixture.hub.hubId);
+      expect(explorer.stop).toHaveBeenCalled();
+    });
+
+    it("keeps distinct hubs and caches them", async () => {
+      const discovery = manager.startDiscovery();
+      const explorer = await nextExplorer();
+
+      explorer.emit("online", discoveryData());
+      explorer.emit("online", discoveryData({ uuid: "bedroom", hubId: "207", friendlyName: "Bedroom" }));
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(await discovery).toHaveLength(2);
+      const cached = JSON.parse((await LocalStorage.getItem<string>(CACHE_KEY)) ?? "{}");
+      expect(cached.hubs).toHaveLength(2);
+    });
+
+    it("skips announcements with missing fields", async () => {
+      const progress = jest.fn();
+      const discovery = manager.startDiscovery(progress);
+      const explorer = await nextExplorer();
+
+      explorer.emit("online", discoveryData({ hubId: "" }));
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(await discovery).toEqual([]);
+      expect(progress).toHaveBeenLastCalledWith(1, "No hubs found");
+    });
+  });
+
+  describe("discovery settings", () => {
+    afterEach(() => {
+      (getPreferenceValues as jest.Mock).mockReturnValue({});
+    });
+
+    it("uses the discovery preferences", async () => {
+      (getPreferenceValues as jest.Mock).mockReturnValue({
+        discoveryTimeout: "8000",
+        discoveryPort: "61991",
+        discoveryBroadcastAddress: "10.0.20.255",
+      });
+
+      const discovery = manager.startDiscovery();
+      const explorer = await nextExplorer();
+      await jest.advanceTimersByTimeAsync(5000);
+      expect(explorer.stop).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(3000);
+
+      expect(await discovery).toEqual([]);
+      expect(explorer.args).toEqual([61991, { address: "10.0.20.255" }]);
+    });
+
+    it("lets constructor settings override the preferences", async () => {
+      (getPreferenceValues as jest.Mock).mockReturnValue({ discoveryTimeout: "8000" });
+      manager = new HarmonyManager({ timeout: 1000 });
+
+      const discovery = manager.startDiscovery();
+      await nextExplorer();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(await discovery).toEqual([]);
+    });
+  });
+
+  describe("subnet scan", () => {
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+      fetchMock = jest.spyOn(global, "fetch").mockImplementation(async (url) => {
+        if (String(url) !== "http://10.0.30.7:8088/") {
+          throw new Error("ECONNREFUSED");
+        }
+        const data = { activeRemoteId: fixture.hub.remoteId, friendlyName: "Garage", hubId: "307", uuid: "garage" };
+        return new Response(JSON.stringify({ data }), { status: 200 });
+      });
+    });
+
+    afterEach(() => {
+      fetchMock.mockRestore();
+    });
+
+    it("probes the scan range when no hub answers the broadcast", async () => {
+      manager = new HarmonyManager({ subnetScan: true, scanRange: "10.0.30.0/28" });
+      const progress = jest.fn();
+
+      const discovery = manager.startDiscovery(progress);
+      await nextExplorer();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      const hubs = await discovery;
+      expect(hubs.map((h) => [h.name, h.ip])).toEqual([["Garage", "10.0.30.7"]]);
+      expect(fetchMock).toHaveBeenCalledTimes(14);
+      expect(progress).toHaveBeenCalledWith(0.95, "Scanned 14 of 14 addresses");
+    });
+
+    it("does not scan when the broadcast finds a hub", async () => {
+      manager = new HarmonyManager({ subnetScan: true, scanRange: "10.0.30.0/28" });
+
+      const discovery = manager.startDiscovery();
+      const explorer = await nextExplorer();
+      explorer.emit("online", discoveryData());
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect(await discovery).toHaveLength(1);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("rejects ranges larger than a /22", async () => {
+      manager = new HarmonyManager({ subnetScan: true, scanRange: "10.0.0.0/16" });
+
+      const discovery = manager.startDiscovery().catch((e) => e);
+      await nextExplorer();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      const err = await discovery;
+      expect(err).toBeInstanceOf(HarmonyError);
+      expect(err.code).toBe("INVALID_SCAN_RANGE");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("cached hubs", () => {
+    it("returns verified cached hubs without discovering", async () => {
+      await LocalStorage.setItem(CACHE_KEY, JSON.stringify({ hubs: [cachedHub], timestamp: Date.now() }));
+
+      const hubs = await manager.startDiscovery();
+
+      expect(hubs).toEqual([cachedHub]);
+      expect(createdExplorers).toHaveLength(0);
+    });
+
+    it("verifies cached hubs at the same time", async () => {
+      const bedroomHub = { ...cachedHub, id: "bedroom", hubId: "207", ip: "10.0.0.21" };
+      await LocalStorage.setItem(CACHE_KEY, JSON.stringify({ hubs: [cachedHub, bedroomHub], timestamp: Date.now() }));
+      connectToHub.mockImplementationOnce(() => new Promise(() => undefined));
+
+      const discovery = manager.startDiscovery();
+      await jest.advanceTimersByTimeAsync(0);
+
+      expect(connectToHub).toHaveBeenCalledTimes(2);
+      await jest.advanceTimersByTimeAsync(30000);
+      expect((await discovery).map((hub) => hub.hubId)).toEqual(["207"]);
+    });
+
+    it("falls back to discovery when cached hubs are unreachable", async () => {
+      await LocalStorage.setItem(CACHE_KEY, JSON.stringify({ hubs: [cachedHub], timestamp: Date.now() }));
+      connectToHub.mockRejectedValueOnce(new Error("EHOSTUNREACH"));
+
+      const discovery = manager.startDiscovery();
+      const explorer = await nextExplorer();
+      explorer.emit("online", discoveryData({ ip: "10.0.0.20" }));
+      await jest.advanceTimersByTimeAsync(500);
+
+      const hubs = await discovery;
+      expect(hubs[0]?.ip).toBe("10.0.0.20");
+    });
+
+    it("drops an expired hub cache", async () => {
+      await LocalStorage.setItem(CACHE_KEY, JSON.stringify({ hubs: [cachedHub], timestamp: Date.now() - DAY - 1 }));
+
+      const discovery = manager.startDiscovery();
+      await nextExplorer();
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(await discovery).toEqual([]);
+      expect(await LocalStorage.getItem(CACHE_KEY)).toBeUndefined();
+    });
+
+    it("quarantines a hub cache with invalid hubs", async () => {
+      const raw = JSON.stringify({ hubs: [{ ...cachedHub, ip: "" }], timestamp: Date.now(), version: 1 });
+      await LocalStorage.setItem(CACHE_KEY, raw);
+
+      expect(await manager.loadCachedHubs()).toEqual([]);
+      expect(await LocalStorage.getItem(CACHE_KEY)).toBeUndefined();
+      expect(JSON.parse((await LocalStorage.getItem<string>(`${CACHE_KEY}-quarantined`)) ?? "{}").raw).toBe(raw);
+    });
+
+    it("loads an expired hub cache without verifying it", async () => {
+      await LocalStorage.setItem(CACHE_KEY, JSON.stringify({ hubs: [cachedHub], timestamp: Date.now() - DAY - 1 }));
+
+      expect(await manager.loadCachedHubs()).toEqual([cachedHub]);
+      expect(connectToHub).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("addHub", () => {
+    const provisionInfo = {
+      data: {
+        activeRemoteId: fixture.hub.remoteId,
+        friendlyName: "Bedroom",
+        hubId: "207",
+        uuid: "bedroom",
+        current_fw_version: fixture.hub.current_fw_version,
+        productId: fixture.hub.productId,
+        protocolVersion: fixture.hub.protocolVersion,
+      },
+    };
+    let fetchMock: jest.SpyInstance;
+
+    beforeEach(() => {
+      fetchMock = jest
+        .spyOn(global, "fetch")
+        .mockResolvedValue(new Response(JSON.stringify(provisionInfo), { status: 200 }));
+    });
+
+    afterEach(() => {
+      fetchMock.mockRestore();
+    });
+
+    it("probes the address and merges the hub into the cache", async () => {
+      await LocalStorage.setItem(CACHE_KEY, JSON.stringify({ hubs: [cachedHub], timestamp: Date.now() }));
+
+      const hub = await manager.addHub(" 10.0.20.5 ");
+
+      expect(fetchMock).toHaveBeenCalledWith("http://10.0.20.5:8088/", expect.objectContaining({ method: "POST" }));
+      expect(hub).toMatchObject({ id: "bedroom", name: "Bedroom", ip: "10.0.20.5", hubId: "207" });
+      const cached = JSON.parse((await LocalStorage.getItem<string>(CACHE_KEY)) ?? "{}");
+      expect(cached.hubs.map((h: HarmonyHub) => h.hubId)).toEqual([fixture.hub.hubId, "207"]);
+      expect(cached.manualHubIds).toEqual(["207"]);
+    });
+
+    it("keeps hubs added by IP when discovery runs again", async () => {
+      await manager.addHub("10.0.20.5");
+      const cached = JSON.parse((await LocalStorage.getItem<string>(CACHE_KEY)) ?? "{}");
+      await LocalStorage.setItem(CACHE_KEY, JSON.stringify({ ...cached, timestamp: Date.now() - DAY - 1 }));
+
+      const discovery = manager.startDiscovery();
+      const explorer = await nextExplorer();
+      explorer.emit("online", discoveryData());
+      await jest.advanceTimersByTimeAsync(500);
+
+      expect((await discovery).map((h) => h.hubId)).toEqual([fixture.hub.hubId, "207"]);
+    });
+
+    it("rejects an invalid address without probing", async () => {
+      const err = await manager.addHub("10.0.300.5").catch((e) => e);
+
+      expect(err).toBeInstanceOf(HarmonyError);
+      expect(err.code).toBe("INVALID_IP_ADDRESS");
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it("reports addresses where no hub answers", async () => {
+      fetchMock.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+      const err = await manager.addHub("10.0.20.6").catch((e) => e);
+
+      expect(err.code).toBe(UNREACHABLE_ERROR_CODE);
+      expect(await LocalStorage.getItem(CACHE_KEY)).toBeUndefined();
+    });
+  });
+
+  describe("clearCache", () => {
+    it("removes the hub list and every hub config", async () => {
+      await LocalStorage.setItem(CACHE_KEY, "{}");
+      await LocalStorage.setItem("harmony-config-106", "{}");
+      await LocalStorage.setItem("harmony-view-state", "{}");
+
+      await manager.clearCache();
+
+      expect(await LocalStorage.allItems()).toEqual({ "harmony-view-state": "{}" });
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import fixture from "../../../simulator/fixtures/living-room.json";
+import { HubSimulator } from "../../../simulator/hubSimulator";
+import { SimulatorFixture } from "../../../simulator/types";
+import { HarmonyHub, HarmonyStateDigest } from "../../../types/core/harmony";
+import { WebSocketConnectionStatus } from "../../../types/core/websocket";
+import { TIMEOUT_ERROR_CODE } from "../../../utils/timeout";
+import { connectToHub, HubConnection } from "../hubConnection";
+import { WebSocketTransport } from "../webSocketTransport";
+
+const HOST = "127.0.0.1";
+
+describe("hub connection over the simulator", () => {
+  let simulator: HubSimulator;
+  let hub: HarmonyHub;
+  let connection: HubConnection | null;
+
+  beforeEach(async () => {
+    simulator = new HubSimulator(fixture as SimulatorFixture, {
+      host: HOST,
+      port: 0,
+      discoveryPort: 0,
+      activityTransitionDelay: 10,
+    });
+    const port = await simulator.start();
+    hub = {
+      id: fixture.hub.uuid,
+      name: fixture.hub.friendlyName,
+      ip: HOST,
+      hubId: fixture.hub.hubId,
+      remoteId: fixture.hub.remoteId,
+      version: fixture.hub.current_fw_version,
+      port: String(port),
+      productId: fixture.hub.productId,
+      protocolVersion: fixture.hub.protocolVersion,
+    };
+    connection = null;
+  });
+
+  afterEach(async () => {
+    await connection?.end();
+    await simulator.stop();
+  });
+
+  it("reads the configuration and the running activity", async () => {
+    connection = await connectToHub(hub, { messageTimeout: 1000 });
+
+    const config = (await connection.getAvailableCommands()) as { device: unknown[]; activity: unknown[] };
+    expect(config.device).toHaveLength(fixture.devices.length);
+    expect(await connection.getActivities()).toHaveLength(fixture.activities.length);
+    expect(await connection.getCurrentActivity()).toBe(simulator.getCurrentActivityId());
+  });
+
+  it("reads the config version without downloading the config", async () => {
+    connection = await connectToHub(hub, { messageTimeout: 1000 });
+
+    const digest = await connection.getStateDigest();
+
+    expect(digest.configVersion).toBe(1);
+    expect(digest.activityId).toBe(simulator.getCurrentActivityId());
+    // The fixture hub starts powered off
+    expect(digest.activityStatus).toBe(0);
+  });
+
+  it("reports activity changes pushed by the hub", async () => {
+    connection = await connectToHub(hub, { messageTimeout: 1000 });
+    const digests: HarmonyStateDigest[] = [];
+    connection.on("stateDigest", (digest) => digests.push(digest));
+    const activityId = fixture.activities[0]?.id ?? "";
+
+    await connection.startActivity(activityId);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(digests.map((digest) => digest.activityStatus)).toEqual([1, 2]);
+    expect(simulator.getCurrentActivityId()).toBe(activityId);
+  });
+
+  it("sends button presses with the action verbatim", async () => {
+    connection = await connectToHub(hub, { messageTimeout: 1000 });
+    const action = JSON.stringify({ command: "PowerOff", type: "IRCommand", deviceId: "50000001" });
+
+    await connection.send("holdAction", action);
+    await connection.send("releaseAction", action);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(simulator.getCommandLog().map(({ action, status, payload }) => ({ action, status, payload }))).toEqual([
+      { action: "holdAction", status: "press", payload: JSON.parse(action) },
+      { action: "releaseAction", status: "release", payload: JSON.parse(action) },
+    ]);
+  });
+
+  it("emits close when the hub goes away", async () => {
+    connection = await connectToHub(hub, { messageTimeout: 1000 });
+    const closed = new Promise<void>((resolve) => connection?.on("close", resolve));
+
+    await simulator.stop();
+
+    await expect(closed).resolves.toBeUndefined();
+  });
+});
+
+describe("WebSocketTransport", () => {
+  let simulator: HubSimulator;
+  let transport: WebSocketTransport;
+
+  beforeEach(async () => {
+    simulator = new HubSimulator(fixture as SimulatorFixture, { host: HOST, port: 0, discoveryPort: 0 });
+    const port = await simulator.start();
+    transport = new WebSocketTransport(`ws://${HOST}:${port}/`, {
+      remoteId: fixture.hub.remoteId,
+      messageTimeout: 100,
+    });
+  });
+
+  afterEach(async () => {
+    await transport.close();
+    await simulator.stop();
+  });
+
+  it("reports status changes while connecting and closing", async () => {
+    const statuses: WebSocketConnectionStatus[] = [];
+    transport.on("status", (status) => statuses.push(status));
+
+    await transport.open();
+    await transport.close();
+
+    expect(statuses).toEqual([
+      WebSocketConnectionStatus.CONNECTING,
+      WebSocketConnectionStatus.CONNECTED,
+      WebSocketConnectionStatus.DISCONNECTED,
+    ]);
+  });
+
+  it("returns error responses for commands the hub rejects", async () => {
+    await transport.open();
+
+    const response = await transport.request("harmony.engine?unknown");
+
+    expect(response.status).toBe("error");
+    expect(response.error).toBe("Unsupported command");
+  });
+
+  it("times out requests the hub never answers", async () => {
+    await transport.open();
+
+    await expect(transport.request("harmony.engine?holdAction", { action: "{}" })).rejects.toMatchObject({
+      code: TIMEOUT_ERROR_CODE,
+    });
+  });
+
+  it("fails pending requests when the connection closes", async () => {
+    await transport.open();
+    const pending = transport.request("harmony.engine?holdAction", { action: "{}" }, 5000);
+
+    await transport.close();
+
+    await expect(pending).rejects.toThrow("WebSocket connection closed");
+  });
+
+  it("refuses to send before the connection is open", () => {
+    expect(() => transport.send("harmony.engine?holdAction")).toThrow("WebSocket connection is not open");
+  });
+});
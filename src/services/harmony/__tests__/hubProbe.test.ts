@@ -0,0 +1,29 @@
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+
+import { isTimeoutError, TIMEOUT_ERROR_CODE } from "../../../utils/timeout";
+import { probeHub } from "../hubProbe";
+
+describe("probeHub", () => {
+  let server: Server;
+  let port: string;
+
+  beforeEach(async () => {
+    // Accepts the request but never answers it
+    server = createServer(() => undefined);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    port = String((server.address() as AddressInfo).port);
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("reports a hub that does not answer in time as a timeout", async () => {
+    const err = await probeHub("127.0.0.1", { port, timeout: 100 }).catch((e) => e);
+
+    expect(err.code).toBe(TIMEOUT_ERROR_CODE);
+    expect(isTimeoutError(err)).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { LocalStorage } from "@raycast/api";
+
+import { resetLocalStorage } from "../../../__mocks__/raycast-api";
+import fixture from "../../../simulator/fixtures/living-room.json";
+import { HarmonyHub } from "../../../types/core/harmony";
+import type * as MockHubConnection from "../__mocks__/hubConnection";
+import { findByName, loadCachedHub, withHubClient } from "../quickControl";
+
+jest.mock("../hubConnection");
+const { createdClients, resetHubConnections } = jest.requireMock<typeof MockHubConnection>("../hubConnection");
+
+const hub: HarmonyHub = {
+  id: fixture.hub.uuid,
+  name: fixture.hub.friendlyName,
+  ip: fixture.hub.ip,
+  hubId: fixture.hub.hubId,
+  remoteId: fixture.hub.remoteId,
+  version: fixture.hub.current_fw_version,
+  port: "8088",
+  productId: fixture.hub.productId,
+  protocolVersion: fixture.hub.protocolVersion,
+};
+
+async function cacheHubState(state: unknown): Promise<void> {
+  await LocalStorage.setItem("harmony-hub-state", JSON.stringify({ state, version: 1 }));
+}
+
+describe("quickControl", () => {
+  beforeEach(() => {
+    resetLocalStorage();
+    resetHubConnections();
+  });
+
+  describe("loadCachedHub", () => {
+    it("uses the selected hub", async () => {
+      await cacheHubState({ selectedHub: hub, hubs: [hub, { ...hub, hubId: "other" }] });
+
+      expect(await loadCachedHub()).toEqual(hub);
+    });
+
+    it("falls back to the only known hub", async () => {
+      await cacheHubState({ selectedHub: null, hubs: [hub] });
+
+      expect(await loadCachedHub()).toEqual(hub);
+    });
+
+    it("reads a state saved without a selected hub", async () => {
+      await cacheHubState({ hubs: [hub] });
+
+      expect(await loadCachedHub()).toEqual(hub);
+      expect(await LocalStorage.getItem("harmony-hub-state-quarantined")).toBeUndefined();
+    });
+
+    it("fails when no hub has been chosen", async () => {
+      await expect(loadCachedHub()).rejects.toMatchObject({ code: "NO_CACHED_HUB" });
+    });
+  });
+
+  describe("findByName", () => {
+    const activities = [
+      { id: "1", name: "Watch TV" },
+      { id: "2", name: "Watch Apple TV" },
+      { id: "3", name: "Listen to Music" },
+    ];
+    const getName = (activity: { name: string }): string => activity.name;
+
+    it("prefers exact names and IDs", () => {
+      expect(findByName(activities, "watch tv", "activity", getName).id).toBe("1");
+      expect(findByName(activities, "2", "activity", getName).id).toBe("2");
+    });
+
+    it("accepts a unique partial name", () => {
+      expect(findByName(activities, "music", "activity", getName).id).toBe("3");
+    });
+
+    it("rejects missing and ambiguous names", () => {
+      expect(() => findByName(activities, "Game", "activity", getName)).toThrow('No activity matches "Game"');
+      expect(() => findByName(activities, "Watch", "activity", getName)).toThrow(
+        '"Watch" matches more than one activity: Watch TV, Watch Apple TV',
+      );
+    });
+  });
+
+  it("withHubClient disconnects after the operation", async () => {
+    const activities = await withHubClient(hub, (client) => client.getActivities());
+
+    expect(activities).toHaveLength(fixture.activities.length);
+    expect(createdClients[0]?.end).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,22 @@
+import { HarmonyError } from "../../../types/core/errors";
+import { parseCidr } from "../subnetScan";
+
+describe("parseCidr", () => {
+  it("lists the hosts of a range without network and broadcast addresses", () => {
+    const hosts = parseCidr("192.168.1.77/24");
+
+    expect(hosts).toHaveLength(254);
+    expect(hosts[0]).toBe("192.168.1.1");
+    expect(hosts[253]).toBe("192.168.1.254");
+  });
+
+  it("keeps both addresses of a /31 and the single address of a /32", () => {
+    expect(parseCidr("10.0.0.4/31")).toEqual(["10.0.0.4", "10.0.0.5"]);
+    expect(parseCidr("10.0.0.4/32")).toEqual(["10.0.0.4"]);
+  });
+
+  it.each(["10.0.0.0", "10.0.0.0/33", "10.0.300.0/24", "10.0.0.0/16"])("rejects %s", (cidr) => {
+    expect(() => parseCidr(cidr)).toThrow(HarmonyError);
+    expect(() => parseCidr(cidr)).toThrow(expect.objectContaining({ code: "INVALID_SCAN_RANGE" }));
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Per-hub queue for Harmony commands.
+ * Runs commands in order with a configurable concurrency, delay, timeout and
+ * retry policy, and keeps a history of results for the UI.
+ * @module
+ */
+
+import { EventEmitter } from "events";
+
+import { v4 as uuidv4 } from "uuid";
+
+import {
+  CommandExecution,
+  CommandQueueConfig,
+  CommandQueueSnapshot,
+  CommandRequest,
+  CommandResult,
+  CommandStatus,
+  ExecutionMode,
+} from "../../types/core/command";
+import { HarmonyError, ErrorCategory } from "../../types/core/errors";
+import { HarmonyCommand, HarmonyHub } from "../../types/core/harmony";
+import { createTimeoutError, isTimeoutError } from "../../utils/timeout";
+import { debug, info, warn } from "../logger";
+import { getPreferences, getTimeoutConfig } from "../preferences";
+
+import { HarmonyClient } from "./harmonyClient";
+
+/** Queue settings used when the config leaves them unset */
+const DEFAULT_CONFIG: Required<CommandQueueConfig> = {
+  maxQueueSize: 20,
+  maxConcurrent: 1,
+  defaultTimeout: 5000,
+  defaultRetries: 0,
+  commandDelay: 100,
+};
+
+/** Number of finished commands kept in the history */
+const MAX_HISTORY = 50;
+
+/**
+ * Function that sends a single command to the hub, pressed as the execution options say
+ */
+export type CommandExecutor = (command: HarmonyCommand, execution?: CommandExecution) => Promise<void>;
+
+/**
+ * Time an execution spends holding buttons and pausing between presses
+ * @param execution - Execution options, a plain tap if not given
+ * @returns Time in milliseconds
+ */
+function pressingTime(execution?: CommandExecution): number {
+  switch (execution?.mode) {
+    case ExecutionMode.LONG_PRESS:
+      return execution.duration;
+    case ExecutionMode.REPEAT:
+      return (
+        execution.count * (execution.holdTime ?? getPreferences().commandHoldTime) +
+        (execution.count - 1) * execution.interval
+      );
+    case ExecutionMode.TAP:
+    case undefined:
+      return execution?.holdTime ?? getPreferences().commandHoldTime;
+  }
+}
+
+/**
+ * Interface for a request tracked by the queue
+ * @interface QueueEntry
+ */
+interface QueueEntry {
+  /** The request as submitted */
+  readonly request: CommandRequest;
+  /** Latest result for the request */
+  result: CommandResult;
+  /** Resolves the promise returned by enqueue */
+  readonly resolve: (result: CommandResult) => void;
+  /** Rejects the promise returned by enqueue */
+  readonly reject: (error: HarmonyError) => void;
+}
+
+/**
+ * Queue that serializes commands sent to a Harmony Hub
+ */
+export class CommandQueue {
+  /** Map of queues by hub ID */
+  private static queues: Map<string, CommandQueue> = new Map();
+
+  /**
+   * Get or create the queue for a hub.
+   * Commands are sent through the hub's HarmonyClient.
+   * @param hub - Hub the queue sends commands to
+   * @returns The hub's command queue
+   */
+  public static getQueue(hub: HarmonyHub): CommandQueue {
+    const existingQueue = this.queues.get(hub.hubId);
+    if (existingQueue) {
+      return existingQueue;
+    }
+
+    debug(`Creating command queue for hub ${hub.name}`);
+    const queue = new CommandQueue(
+      (command, execution) => HarmonyClient.getClient(hub).executeCommand(command, execution),
+      { defaultTimeout: getTimeoutConfig().command },
+    );
+    this.queues.set(hub.hubId, queue);
+    return queue;
+  }
+
+  /**
+   * Build a request for a command
+   * @param command - Command to execute
+   * @param options - Optional timeout, retry and execution overrides
+   * @returns A new command request
+   */
+  public static createRequest(
+    command: HarmonyCommand,
+    options: Pick<CommandRequest, "timeout" | "retries" | "execution" | "onComplete" | "onError"> = {},
+  ): CommandRequest {
+    return {
+      id: uuidv4(),
+      command,
+      timestamp: Date.now(),
+      ...options,
+    };
+  }
+
+  /** Function that sends a command to the hub */
+  private readonly executor: CommandExecutor;
+  /** Effective queue settings */
+  private readonly config: Required<CommandQueueConfig>;
+  /** Emitter notifying subscribers of queue changes */
+  private readonly events = new EventEmitter();
+  /** Requests waiting to run, oldest first */
+  private queued: QueueEntry[] = [];
+  /** Requests currently running, by request ID */
+  private executing: Map<string, QueueEntry> = new Map();
+  /** Sends that timed out but have not settled yet; each still holds a slot */
+  private settling: Set<Promise<void>> = new Set();
+  /** Finished results, newest first */
+  private history: CommandResult[] = [];
+  /** Snapshot handed to subscribers, replaced on every change */
+  private snapshot: CommandQueueSnapshot = { pending: [], history: [] };
+  /** When the last command finished, used to space out commands */
+  private lastFinishedAt = 0;
+  /** Timer waiting out the command delay */
+  private delayTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Creates a new CommandQueue instance
+   * @param executor - Function that sends a command to the hub
+   * @param config - Queue settings, defaults apply to anything unset
+   */
+  public constructor(executor: CommandExecutor, config: CommandQueueConfig = {}) {
+    this.executor = executor;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Adds a request to the queue.
+   * @param request - Request to run
+   * @returns Promise resolving to the completed result
+   * @throws {HarmonyError} If the queue is full, the request is cancelled or the command fails
+   */
+  public enqueue(request: CommandRequest): Promise<CommandResult> {
+    if (this.queued.length >= this.config.maxQueueSize) {
+      const queueError = new HarmonyError(
+        "Command queue is full",
+        ErrorCategory.QUEUE,
+        undefined,
+        undefined,
+        false,
+        "QUEUE_FULL",
+        { maxQueueSize: this.config.maxQueueSize },
+      );
+      warn("Rejected command, queue is full", { command: request.command.name });
+      request.onError?.(queueError);
+      return Promise.reject(queueError);
+    }
+
+    return new Promise<CommandResult>((resolve, reject) => {
+      this.queued.push({
+        request,
+        result: {
+          id: request.id,
+          command: request.command,
+          execution: request.execution,
+          status: CommandStatus.QUEUED,
+          queuedAt: Date.now(),
+        },
+        resolve,
+        reject,
+      });
+      debug("Queued command", { id: request.id, command: request.command.name, queued: this.queued.length });
+      this.publish();
+      this.processQueue();
+    });
+  }
+
+  /**
+   * Cancels a request that has not started yet
+   * @param id - ID of the request to cancel
+   * @returns True if the request was cancelled
+   */
+  public cancel(id: string): boolean {
+    const index = this.queued.findIndex((entry) => entry.request.id === id);
+    if (index === -1) {
+      return false;
+    }
+
+    const [entry] = this.queued.splice(index, 1);
+    if (entry) {
+      this.finishCancelled(entry);
+    }
+    this.publish();
+    return true;
+  }
+
+  /**
+   * Cancels every request that has not started yet
+   * @returns Number of requests cancelled
+   */
+  public cancelAll(): number {
+    const cancelled = this.queued;
+    this.queued = [];
+    cancelled.forEach((entry) => this.finishCancelled(entry));
+    if (cancelled.length > 0) {
+      info(`Cancelled ${cancelled.length} queued command(s)`);
+      this.publish();
+    }
+    return cancelled.length;
+  }
+
+  /**
+   * Gets the current queue contents and history
+   * @returns Snapshot that stays the same object until the queue changes
+   */
+  public getSnapshot(): CommandQueueSnapshot {
+    return this.snapshot;
+  }
+
+  /**
+   * Subscribe to queue changes
+   * @param listener - Callback invoked with the new snapshot
+   * @returns Function that removes the listener
+   */
+  public subscribe(listener: (snapshot: CommandQueueSnapshot) => void): () => void {
+    this.events.on("change", listener);
+    return () => {
+      this.events.off("change", listener);
+    };
+  }
+
+  /**
+   * Starts queued requests while there is capacity and the command delay has passed.
+   * @private
+   */
+  private processQueue(): void {
+    if (this.delayTimer) {
+      return;
+    }
+
+    while (this.executing.size + this.settling.size < this.config.maxConcurrent && this.queued.length > 0) {
+      const wait = this.lastFinishedAt + this.config.commandDelay - Date.now();
+      if (wait > 0) {
+        this.delayTimer = setTimeout(() => {
+          this.delayTimer = null;
+          this.processQueue();
+        }, wait);
+        return;
+      }
+
+      const entry = this.queued.shift();
+      if (entry) {
+        void this.run(entry);
+      }
+    }
+  }
+
+  /**
+   * Runs a request, retrying failed attempts as configured.
+   * A send that timed out is not retried, and its slot stays taken until it settles,
+   * so it cannot overlap the next command.
+   * @param entry - Entry to run
+   * @private
+   */
+  private async run(entry: QueueEntry): Promise<void> {
+    const { request } = entry;
+    const retries = request.retries ?? this.config.defaultRetries;
+    // Long holds and repeats are part of the command, not a slow hub
+    const timeout = (request.timeout ?? this.config.defaultTimeout) + pressingTime(request.execution);
+
+    this.executing.set(request.id, entry);
+    entry.result = { ...entry.result, status: CommandStatus.EXECUTING, startedAt: Date.now() };
+    this.publish();
+
+    let lastError: HarmonyError | undefined;
+    let inFlight: Promise<void> | undefined;
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      if (attempt > 0) {
+        debug("Retrying command", { command: request.command.name, attempt, retries });
+        await new Promise((resolve) => setTimeout(resolve, this.config.commandDelay));
+      }
+
+      const sending = this.executor(request.command, request.execution);
+      try {
+        await this.withTimeout(sending, request.command, timeout);
+        lastError = undefined;
+        break;
+      } catch (err) {
+        lastError =
+          err instanceof HarmonyError
+            ? err
+            : new HarmonyError(
+                `Failed to execute command ${request.command.name}`,
+                ErrorCategory.COMMAND_EXECUTION,
+                err instanceof Error ? err : undefined,
+              );
+        if (isTimeoutError(lastError)) {
+          inFlight = sending.catch(() => undefined);
+          break;
+        }
+        if (!lastError.isRetryable) {
+          break;
+        }
+      }
+    }
+
+    this.executing.delete(request.id);
+    if (inFlight) {
+      this.settling.add(inFlight);
+    } else {
+      this.lastFinishedAt = Date.now();
+    }
+
+    if (lastError) {
+      this.finish(entry, CommandStatus.FAILED, lastError);
+      request.onError?.(lastError);
+      entry.reject(lastError);
+    } else {
+      this.finish(entry, CommandStatus.COMPLETED);
+      request.onComplete?.();
+      entry.resolve(entry.result);
+    }
+
+    this.publish();
+
+    if (inFlight) {
+      debug("Waiting for timed out command to settle", { command: request.command.name });
+      await inFlight;
+      this.settling.delete(inFlight);
+      this.lastFinishedAt = Date.now();
+    }
+    this.processQueue();
+  }
+
+  /**
+   * Waits for a send, failing if the hub does not respond in time.
+   * The send keeps running after a timeout.
+   * @param sending - Send in progress
+   * @param command - Command being sent
+   * @param timeout - Maximum time to wait in milliseconds
+   * @private
+   */
+  private async withTimeout(sending: Promise<void>, command: HarmonyCommand, timeout: number): Promise<void> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        reject(
+          createTimeoutError(
+            `Command ${command.name} timed out after ${timeout}ms`,
+            timeout,
+            ErrorCategory.COMMAND_EXECUTION,
+          ),
+        );
+      }, timeout);
+    });
+
+    try {
+      await Promise.race([sending, timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Marks a queued request as cancelled and rejects its promise.
+   * @param entry - Entry that was removed from the queue
+   * @private
+   */
+  private finishCancelled(entry: QueueEntry): void {
+    const cancelError = new HarmonyError(
+      `Command ${entry.request.command.name} was cancelled`,
+      ErrorCategory.QUEUE,
+      undefined,
+      undefined,
+      false,
+      "COMMAND_CANCELLED",
+    );
+    this.finish(entry, CommandStatus.CANCELLED, cancelError);
+    entry.reject(cancelError);
+  }
+
+  /**
+   * Records the final result of a request in the history.
+   * @param entry - Finished entry
+   * @param status - Final status
+   * @param error - Error for failed or cancelled requests
+   * @private
+   */
+  private finish(entry: QueueEntry, status: CommandStatus, error?: HarmonyError): void {
+    entry.result = { ...entry.result, status, error, completedAt: Date.now() };
+    this.history = [entry.result, ...this.history].slice(0, MAX_HISTORY);
+    debug("Command finished", { id: entry.request.id, command: entry.request.command.name, status });
+  }
+
+  /**
+   * Replaces the snapshot and notifies subscribers.
+   * @private
+   */
+  private publish(): void {
+    this.snapshot = {
+      pending: [...Array.from(this.executing.values()), ...this.queued].map((entry) => entry.result),
+      history: this.history,
+    };
+    this.events.emit("change", this.snapshot);
+  }
+}
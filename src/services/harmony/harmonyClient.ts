@@ -4,22 +4,45 @@
  * @module
  */
 
-import getHarmonyClient from "@harmonyhub/client-ws";
-import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { EventEmitter } from "events";
 
+import { CommandExecution, ExecutionMode, RetryConfig, TimeoutConfig } from "../../types/core/command";
 import { HarmonyError, ErrorCategory } from "../../types/core/errors";
 import {
   HarmonyHub,
   HarmonyDevice,
   HarmonyActivity,
   HarmonyCommand,
+  HarmonyActivityStatus,
+  HarmonyClientEvents,
+  HarmonyStateDigest,
   isHarmonyDevice,
   isHarmonyActivity,
+  isHarmonyCommand,
 } from "../../types/core/harmony";
+import {
+  createTimeoutError,
+  isTimeoutError,
+  TIMEOUT_ERROR_CODE,
+  UNREACHABLE_ERROR_CODE,
+  withTimeout,
+} from "../../utils/timeout";
+import { isValidCommandType, validateCommandExecution } from "../../utils/validation";
 import { debug, error, info, warn } from "../logger";
+import { getPreferences, getTimeoutConfig } from "../preferences";
+import { StoragePayload, VersionedStorage } from "../versionedStorage";
+
+import { connectToHub, HubConnection } from "./hubConnection";
 
-/** Cache expiration time in milliseconds (24 hours) */
-const CACHE_EXPIRY = 24 * 60 * 60 * 1000;
+/** Backoff policy used to re-establish a dropped hub connection */
+const RECONNECT_CONFIG: RetryConfig = {
+  maxAttempts: 5,
+  baseDelay: 1000,
+  maxDelay: 15000,
+  useExponentialBackoff: true,
+  nonRetryableCategories: [ErrorCategory.AUTHENTICATION, ErrorCategory.VALIDATION],
+  maxRetryDuration: 60000,
+};
 
 /**
  * Interface for cached hub configuration
@@ -32,6 +55,8 @@ interface CachedConfig {
   activities: HarmonyActivity[];
   /** Timestamp when the cache was created */
   timestamp: number;
+  /** Config version of the hub the cache was downloaded from, absent if the hub did not report one */
+  fingerprint?: string;
 }
 
 /**
@@ -47,6 +72,114 @@ interface HarmonyCommandBody {
   type: string;
 }
 
+/**
+ * Builds the action JSON for a command saved before commands kept the hub's action.
+ * Such commands stored the action type, if anything, in their group.
+ * @param command - Command without an action
+ * @returns JSON encoded action addressing the command by ID
+ */
+function legacyAction(command: HarmonyCommand): string {
+  const body: HarmonyCommandBody = {
+    command: command.id,
+    type: isValidCommandType(command.group) ? command.group : "IRCommand",
+    deviceId: command.deviceId,
+  };
+  return JSON.stringify(body);
+}
+
+/**
+ * Gives a command saved before commands kept the hub's action its action,
+ * and drops a group that held the action type instead of a control group name.
+ * @param command - Cached command
+ * @returns The command with an action
+ */
+function migrateCommand(command: HarmonyCommand): HarmonyCommand {
+  if (command.action) {
+    return command;
+  }
+  return {
+    ...command,
+    group: isValidCommandType(command.group) ? undefined : command.group,
+    action: legacyAction(command),
+  };
+}
+
+/** Device, activity or control group of an unversioned cache, checked by the validator once migrated */
+type LegacyEntry = Record<string, unknown>;
+
+/**
+ * Type guard for a list of entries of an unversioned cache
+ * @param value - Stored field
+ */
+function isLegacyEntryList(value: unknown): value is LegacyEntry[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "object" && entry !== null);
+}
+
+/**
+ * Gives the commands of an unversioned cache entry their action, defaulting to no commands if the entry had none.
+ * Commands that are not valid are kept for the validator to reject.
+ * @param commands - Stored commands
+ */
+function migrateCommands(commands: unknown): unknown {
+  if (commands === undefined) {
+    return [];
+  }
+  if (!Array.isArray(commands)) {
+    return commands;
+  }
+  return commands.map((command) => (isHarmonyCommand(command) ? migrateCommand(command) : command));
+}
+
+/**
+ * Upgrades a config cache written before caches were versioned, when commands did not keep the hub's action.
+ * Activities cached before they kept their control groups, power states and sequences get empty ones;
+ * the cache has no config version either, so it is replaced the next time the client connects.
+ * @param payload - Unversioned cache
+ * @returns The cache with every command carrying an action
+ */
+function migrateUnversionedConfig(payload: StoragePayload): StoragePayload {
+  const { devices, activities } = payload;
+  if (!isLegacyEntryList(devices) || !isLegacyEntryList(activities)) {
+    return payload;
+  }
+  return {
+    ...payload,
+    devices: devices.map((device) => ({ ...device, commands: migrateCommands(device.commands) })),
+    activities: activities.map((activity) => ({
+      ...activity,
+      controlGroups: isLegacyEntryList(activity.controlGroups)
+        ? activity.controlGroups.map((group) => ({ ...group, commands: migrateCommands(group.commands) }))
+        : (activity.controlGroups ?? []),
+      powerStates: activity.powerStates ?? [],
+      sequences: activity.sequences ?? [],
+    })),
+  };
+}
+
+/**
+ * Type guard for a cached configuration
+ * @param obj - Stored payload
+ */
+function isCachedConfig(obj: unknown): obj is CachedConfig {
+  const config = obj as Partial<CachedConfig>;
+  return (
+    Array.isArray(config.devices) &&
+    config.devices.every(isHarmonyDevice) &&
+    Array.isArray(config.activities) &&
+    config.activities.every(isHarmonyActivity) &&
+    typeof config.timestamp === "number" &&
+    (config.fingerprint === undefined || typeof config.fingerprint === "string")
+  );
+}
+
+/** Config caches, one per hub ID */
+const configStorage = VersionedStorage.register<CachedConfig>({
+  key: "harmony-config",
+  version: 1,
+  migrations: { 0: migrateUnversionedConfig },
+  validate: isCachedConfig,
+});
+
 /**
  * Interface for command function configuration
  * @interface CommandFunction
@@ -56,11 +189,8 @@ interface CommandFunction {
   name: string;
   /** Display label */
   label?: string;
-  /** Command action configuration */
-  action?: {
-    /** Command identifier */
-    command?: string;
-  };
+  /** JSON encoded action, e.g. {"command":"Mute","type":"IRCommand","deviceId":"123"} */
+  action?: string;
 }
 
 /**
@@ -98,6 +228,33 @@ interface RawConfig {
   device: RawDevice[];
 }
 
+/**
+ * Interface for a function in an activity control group.
+ * The action is a JSON string naming the command and the device it is routed to.
+ * @interface RawActivityFunction
+ */
+interface RawActivityFunction {
+  /** Function name */
+  name: string;
+  /** Display label */
+  label?: string;
+  /** JSON encoded action, e.g. {"command":"Mute","type":"IRCommand","deviceId":"123"} */
+  action?: string;
+}
+
+/**
+ * Interface for the state a device is put in when an activity starts
+ * @interface RawFixit
+ */
+interface RawFixit {
+  /** Device identifier */
+  id: string;
+  /** Power state */
+  Power?: string;
+  /** Input selection */
+  Input?: string;
+}
+
 /**
  * Interface for raw activity data from hub
  * @interface RawActivity
@@ -109,6 +266,16 @@ interface RawActivity {
   label: string;
   /** Activity type */
   type: string;
+  /** Control groups routed to the activity's devices */
+  controlGroup?: { name: string; function: RawActivityFunction[] }[];
+  /** Device states by device ID */
+  fixit?: Record<string, RawFixit>;
+  /** ID of the device handling volume */
+  VolumeActivityRole?: string;
+  /** ID of the device handling channel changes */
+  ChannelChangingActivityRole?: string;
+  /** IDs of sequences attached to the activity */
+  sequences?: (string | number)[];
 }
 
 /**
@@ -118,6 +285,17 @@ interface RawActivity {
 export class HarmonyClient {
   /** Map of active clients by hub ID */
   private static activeClients: Map<string, HarmonyClient> = new Map();
+  /** Timeouts that take precedence over the timeout preferences */
+  private static timeoutOverrides: Partial<TimeoutConfig> = {};
+
+  /**
+   * Configure operation timeouts for every client.
+   * Values left out follow the timeout preferences.
+   * @param timeouts - Timeouts in milliseconds
+   */
+  public static configureTimeouts(timeouts: Partial<TimeoutConfig>): void {
+    HarmonyClient.timeoutOverrides = timeouts;
+  }
 
   /** Get or create a client for a hub */
   public static getClient(hub: HarmonyHub): HarmonyClient {
@@ -134,13 +312,25 @@ export class HarmonyClient {
   }
 
   /** Connected client instance */
-  private client: Awaited<ReturnType<typeof getHarmonyClient>> | null = null;
+  private client: HubConnection | null = null;
   /** Connection state */
   private isConnected = false;
+  /** Whether a dropped connection should be re-established */
+  private shouldReconnect = false;
+  /** Pending reconnection, if the connection dropped */
+  private reconnection: Promise<void> | null = null;
+  /** Connection attempt in progress, shared by concurrent callers */
+  private connecting: Promise<void> | null = null;
+  /** Backoff policy for reconnection */
+  private readonly retryConfig: RetryConfig = RECONNECT_CONFIG;
   /** The hub this client is connected to */
   public readonly hub: HarmonyHub;
-  /** Cache key for this hub's configuration */
-  private cacheKey: string;
+  /** Emitter for state changes pushed by the hub */
+  private readonly events = new EventEmitter();
+  /** Last activity ID and status seen in a state digest, used to drop repeats */
+  private lastActivityState: string | null = null;
+  /** Last config version seen in a state digest */
+  private configVersion: number | null = null;
 
   /**
    * Creates a new HarmonyClient instance
@@ -148,7 +338,22 @@ export class HarmonyClient {
    */
   private constructor(hub: HarmonyHub) {
     this.hub = hub;
-    this.cacheKey = `harmony-config-${hub.hubId}`;
+  }
+
+  /**
+   * Timeouts for this client's operations
+   * @private
+   */
+  private get timeouts(): TimeoutConfig {
+    return { ...getTimeoutConfig(), ...HarmonyClient.timeoutOverrides };
+  }
+
+  /**
+   * Fingerprint of the hub's config, derived from the config version the hub reports
+   * @private
+   */
+  private get configFingerprint(): string | undefined {
+    return this.configVersion === null ? undefined : String(this.configVersion);
   }
 
   /**
@@ -159,6 +364,19 @@ export class HarmonyClient {
     return this.isConnected;
   }
 
+  /**
+   * Subscribe to state changes pushed by the hub
+   * @param event - Event to listen for
+   * @param listener - Callback invoked with the event payload
+   * @returns Function that removes the listener
+   */
+  public on<K extends keyof HarmonyClientEvents>(event: K, listener: HarmonyClientEvents[K]): () => void {
+    this.events.on(event, listener);
+    return () => {
+      this.events.off(event, listener);
+    };
+  }
+
   /**
    * Connects to the Harmony Hub and retrieves its configuration.
    * Establishes WebSocket connection and verifies connectivity by fetching initial config.
@@ -171,6 +389,20 @@ export class HarmonyClient {
       return;
     }
 
+    if (!this.connecting) {
+      this.connecting = this.establishConnection().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Opens the connection and loads the hub config, from the cache if the hub's config version is unchanged.
+   * @throws {HarmonyError} If connection fails or initial config cannot be retrieved
+   * @private
+   */
+  private async establishConnection(): Promise<void> {
     try {
       info(`Initiating connection to hub ${this.hub.name} (${this.hub.ip})`);
 
@@ -181,26 +413,31 @@ export class HarmonyClient {
         remoteId: this.hub.remoteId,
       });
 
-      this.client = await getHarmonyClient(this.hub.ip);
+      const connection = await this.openConnection();
 
-      // Setup disconnect handler before setting connected state
-      this.client?.on("disconnected", () => {
-        warn(`Disconnected from hub ${this.hub.name}`);
-        this.isConnected = false;
-        // Remove from active clients on disconnect
-        HarmonyClient.activeClients.delete(this.hub.hubId);
-      });
-
-      // Verify connection by attempting to get config
-      debug("Verifying connection by fetching initial config");
+      // Verify connection by asking for the config version, which is much smaller than the config
+      debug("Verifying connection by fetching the config version");
+      const digest = await this.request(connection.getStateDigest());
+      this.configVersion = typeof digest.configVersion === "number" ? digest.configVersion : null;
 
-      // Load both devices and activities to ensure proper caching
-      const [devices, activities] = await Promise.all([this.getDevicesFromHub(), this.getActivitiesFromHub()]);
+      // Only download the config when it changed since it was cached
+      const cached = this.configFingerprint ? await this.getCachedConfig() : null;
+      const isCurrent = cached?.fingerprint === this.configFingerprint;
+      const [devices, activities] =
+        cached && isCurrent
+          ? [cached.devices, cached.activities]
+          : await Promise.all([this.getDevicesFromHub(), this.getActivitiesFromHub()]);
 
       // Only set connected state after successful verification
       this.isConnected = true;
+      this.shouldReconnect = true;
       info(`Successfully connected to hub ${this.hub.name}`);
 
+      if (cached && isCurrent) {
+        debug("Hub config unchanged, using cache", { hubName: this.hub.name, fingerprint: this.configFingerprint });
+        return;
+      }
+
       // Cache the complete config
       await this.updateConfigCache(devices, activities);
 
@@ -208,24 +445,234 @@ export class HarmonyClient {
         hubName: this.hub.name,
         deviceCount: devices.length,
         activityCount: activities.length,
+        fingerprint: this.configFingerprint,
       });
 
       return;
     } catch (err) {
       this.isConnected = false;
+      // Close a connection that opened but failed verification, detaching first so the close is not treated as a drop
+      const connection = this.client;
       this.client = null;
+      try {
+        await connection?.end();
+      } catch (endError) {
+        debug("Failed to close unverified connection", { error: endError });
+      }
       // Remove from active clients on error
       HarmonyClient.activeClients.delete(this.hub.hubId);
       const harmonyError = new HarmonyError(
         "Failed to connect to hub",
         ErrorCategory.HUB_COMMUNICATION,
         err instanceof Error ? err : undefined,
+        undefined,
+        true,
+        // Lets the UI tell a slow hub from one that cannot be reached
+        isTimeoutError(err) ? TIMEOUT_ERROR_CODE : UNREACHABLE_ERROR_CODE,
       );
       error("Connection failed", { error: harmonyError.getDetailedMessage() });
       throw harmonyError;
     }
   }
 
+  /**
+   * Opens the WebSocket connection and attaches the hub event handlers.
+   * @returns The opened connection
+   * @private
+   */
+  private async openConnection(): Promise<HubConnection> {
+    const { connection: timeout, message: messageTimeout } = this.timeouts;
+    const pending = connectToHub(this.hub, { messageTimeout });
+    const connection = await withTimeout(
+      pending,
+      timeout,
+      `Hub ${this.hub.name} did not accept the connection within ${timeout}ms`,
+    ).catch((err) => {
+      // Close a connection that opens after we gave up on it
+      pending.then((late) => late.end()).catch(() => undefined);
+      throw err;
+    });
+    this.client = connection;
+
+    // The connection reports a dropped socket as "close"
+    connection.on("close", () => {
+      // Ignore connections we have already replaced or closed ourselves
+      if (this.client !== connection) {
+        return;
+      }
+      warn(`Disconnected from hub ${this.hub.name}`);
+      this.handleConnectionLost();
+    });
+
+    // Track activity and config changes pushed by the hub
+    connection.on("stateDigest", (digest: HarmonyStateDigest) => {
+      this.handleStateDigest(digest).catch((err) => {
+        warn("Failed to handle state digest", { digest, error: err });
+      });
+    });
+
+    return connection;
+  }
+
+  /**
+   * Starts reconnecting after the connection dropped unexpectedly.
+   * Operations issued meanwhile wait for the reconnection to finish.
+   * @private
+   */
+  private handleConnectionLost(): void {
+    this.isConnected = false;
+    this.client = null;
+
+    if (!this.shouldReconnect || this.reconnection) {
+      return;
+    }
+
+    this.reconnection = this.reconnect().finally(() => {
+      this.reconnection = null;
+    });
+    // Failures are reported through the connectionLost event and to waiting operations
+    this.reconnection.catch(() => undefined);
+  }
+
+  /**
+   * Re-establishes the hub connection with backoff as configured by the retry config.
+   * @throws {HarmonyError} If every attempt fails
+   * @private
+   */
+  private async reconnect(): Promise<void> {
+    const { maxAttempts, nonRetryableCategories = [], maxRetryDuration } = this.retryConfig;
+    const startTime = Date.now();
+    let lastError: Error | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts && this.shouldReconnect; attempt++) {
+      info(`Reconnecting to hub ${this.hub.name}`, { attempt, maxAttempts });
+      this.events.emit("reconnecting", attempt, maxAttempts);
+
+      try {
+        await this.openConnection();
+        if (!this.shouldReconnect) {
+          // Disconnected while this attempt was in flight
+          const connection = this.client;
+          this.client = null;
+          connection?.end();
+          break;
+        }
+        this.isConnected = true;
+        info(`Reconnected to hub ${this.hub.name}`, { attempt });
+        this.events.emit("reconnected");
+        return;
+      } catch (err) {
+        this.client = null;
+        lastError = err instanceof Error ? err : new Error(String(err));
+        warn("Reconnection attempt failed", { attempt, error: lastError.message });
+
+        if (err instanceof HarmonyError && nonRetryableCategories.includes(err.category)) {
+          break;
+        }
+        if (maxRetryDuration !== undefined && Date.now() - startTime >= maxRetryDuration) {
+          break;
+        }
+        if (attempt < maxAttempts) {
+          await new Promise((resolve) => setTimeout(resolve, this.getRetryDelay(attempt)));
+        }
+      }
+    }
+
+    const harmonyError = new HarmonyError(
+      `Lost connection to hub ${this.hub.name}`,
+      ErrorCategory.HUB_COMMUNICATION,
+      lastError,
+      undefined,
+      false,
+    );
+
+    // Give up on this client; the next getClient call starts from scratch
+    this.shouldReconnect = false;
+    HarmonyClient.activeClients.delete(this.hub.hubId);
+
+    if (lastError) {
+      error("Reconnection failed", { error: harmonyError.getDetailedMessage() });
+      this.events.emit("connectionLost", harmonyError);
+    }
+    throw harmonyError;
+  }
+
+  /**
+   * Gets the delay before the next reconnection attempt.
+   * @param attempt - Number of the attempt that just failed, starting at 1
+   * @returns Delay in milliseconds
+   * @private
+   */
+  private getRetryDelay(attempt: number): number {
+    const { baseDelay, maxDelay, useExponentialBackoff } = this.retryConfig;
+    const delay = useExponentialBackoff ? baseDelay * 2 ** (attempt - 1) : baseDelay;
+    return Math.min(delay, maxDelay);
+  }
+
+  /**
+   * Waits out a connection or reconnection in progress and returns the live connection.
+   * @returns The current hub connection
+   * @throws {HarmonyError} If not connected or reconnection failed
+   * @private
+   */
+  private async ensureConnected(): Promise<HubConnection> {
+    // Operations issued while the first connection is being set up wait for it
+    if (this.connecting) {
+      await this.connecting.catch(() => undefined);
+    }
+    if (this.reconnection) {
+      await this.reconnection;
+    }
+    if (!this.client || !this.isConnected) {
+      throw new HarmonyError("Not connected to hub", ErrorCategory.STATE);
+    }
+    return this.client;
+  }
+
+  /**
+   * Runs an operation against the hub.
+   * If the connection drops while the operation is in flight, the operation
+   * is replayed once the connection has been re-established.
+   * @param operation - Operation to run with the live connection
+   * @returns Result of the operation
+   * @private
+   */
+  private async withConnection<T>(operation: (connection: HubConnection) => Promise<T>): Promise<T> {
+    const connection = await this.ensureConnected();
+    try {
+      return await this.request(operation(connection));
+    } catch (err) {
+      // Only replay when the connection dropped, not when the hub rejected the operation
+      if (!this.reconnection && this.client === connection) {
+        throw err;
+      }
+      info("Connection dropped during operation, replaying after reconnect");
+      return this.request(operation(await this.ensureConnected()));
+    }
+  }
+
+  /**
+   * Bounds a request to the hub by the message timeout.
+   * @param pending - Request sent to the hub
+   * @returns The hub's answer
+   * @throws {HarmonyError} With the timeout code if the hub does not answer in time
+   * @private
+   */
+  private request<T>(pending: Promise<T>): Promise<T> {
+    const { message: timeout } = this.timeouts;
+    return withTimeout(pending, timeout, `Hub ${this.hub.name} did not answer within ${timeout}ms`);
+  }
+
+  /**
+   * Reads the devices and activities cached for this hub without connecting to it.
+   * The data may be out of date; connect to check it against the hub.
+   * @returns Cached devices and activities, or null if nothing usable is cached
+   */
+  public async loadCachedConfig(): Promise<{ devices: HarmonyDevice[]; activities: HarmonyActivity[] } | null> {
+    const cached = await this.getCachedConfig();
+    return cached ? { devices: cached.devices, activities: cached.activities } : null;
+  }
+
   /**
    * Retrieves the list of devices from the hub.
    * Attempts to load from cache first, falls back to hub query if cache is invalid.
@@ -233,9 +680,7 @@ export class HarmonyClient {
    * @throws {HarmonyError} If retrieving devices fails or hub is not connected
    */
   public async getDevices(): Promise<HarmonyDevice[]> {
-    if (!this.client || !this.isConnected) {
-      throw new HarmonyError("Not connected to hub", ErrorCategory.STATE);
-    }
+    await this.ensureConnected();
 
     try {
       // Try to get from cache first
@@ -274,7 +719,7 @@ export class HarmonyClient {
 
     try {
       debug("Fetching devices from hub", { hubName: this.hub.name });
-      const rawConfig = (await this.client.getAvailableCommands()) as RawConfig;
+      const rawConfig = (await this.request(this.client.getAvailableCommands())) as RawConfig;
 
       if (!rawConfig.device || rawConfig.device.length === 0) {
         warn("No devices found in hub config");
@@ -294,7 +739,8 @@ export class HarmonyClient {
               name: fn.name,
               label: fn.label || fn.name,
               deviceId: device.id,
-              group: fn.action?.command || "IRCommand",
+              group: group.name,
+              action: fn.action,
             })),
           ),
         } as HarmonyDevice;
@@ -333,9 +779,7 @@ export class HarmonyClient {
    * @throws {HarmonyError} If retrieving activities fails or hub is not connected
    */
   public async getActivities(): Promise<HarmonyActivity[]> {
-    if (!this.client || !this.isConnected) {
-      throw new HarmonyError("Not connected to hub", ErrorCategory.STATE);
-    }
+    await this.ensureConnected();
 
     try {
       // Try to get from cache first
@@ -371,12 +815,10 @@ export class HarmonyClient {
    * @throws {HarmonyError} If retrieving current activity fails or hub is not connected
    */
   public async getCurrentActivity(): Promise<HarmonyActivity | null> {
-    if (!this.client || !this.isConnected) {
-      throw new HarmonyError("Not connected to hub", ErrorCategory.STATE);
-    }
+    await this.ensureConnected();
 
     try {
-      const rawActivity = await this.client.getCurrentActivity();
+      const rawActivity = await this.withConnection((connection) => connection.getCurrentActivity());
       debug("Got current activity from hub", { rawActivity });
 
       if (!rawActivity) {
@@ -419,6 +861,29 @@ export class HarmonyClient {
     }
   }
 
+  /**
+   * Parses the JSON action of a device or activity function.
+   * @param action - JSON encoded action
+   * @returns The command, type and target device, or null if the action is unusable
+   * @private
+   */
+  private parseAction(action?: string): HarmonyCommandBody | null {
+    if (!action) return null;
+    try {
+      const parsed = JSON.parse(action);
+      if (typeof parsed?.command !== "string" || typeof parsed?.deviceId !== "string") {
+        return null;
+      }
+      return {
+        command: parsed.command,
+        type: typeof parsed.type === "string" ? parsed.type : "IRCommand",
+        deviceId: parsed.deviceId,
+      };
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Starts an activity by ID.
    * Initiates the activity and waits for confirmation of successful start.
@@ -426,29 +891,32 @@ export class HarmonyClient {
    * @throws {HarmonyError} If starting activity fails or hub is not connected
    */
   public async startActivity(activityId: string): Promise<void> {
-    if (!this.client || !this.isConnected) {
-      throw new HarmonyError("Not connected to hub", ErrorCategory.STATE);
-    }
+    await this.ensureConnected();
 
     try {
       debug("Starting activity", { activityId });
 
-      await this.client.startActivity(activityId);
+      // The hub sends no state change for an activity that is already running
+      const currentActivity = await this.getCurrentActivity();
+      if (currentActivity?.id === activityId) {
+        debug("Activity already running", { activityId });
+        return;
+      }
 
-      // Wait for activity to start and verify
-      const startTime = Date.now();
-      const maxWaitTime = 10000; // 10 seconds max wait
+      const confirmation = this.waitForEvent(
+        "activityStarted",
+        (activity) => activity.id === activityId,
+        "Timeout waiting for activity to start",
+      );
 
-      while (Date.now() - startTime < maxWaitTime) {
-        const currentActivity = await this.getCurrentActivity();
-        if (currentActivity?.id === activityId) {
-          debug("Activity started successfully", { activityId });
-          return;
-        }
-        await new Promise((resolve) => setTimeout(resolve, 500));
+      try {
+        await this.withConnection((connection) => connection.startActivity(activityId));
+        await confirmation.promise;
+      } finally {
+        confirmation.cancel();
       }
 
-      throw new Error("Timeout waiting for activity to start");
+      debug("Activity started successfully", { activityId });
     } catch (err) {
       throw new HarmonyError(
         `Failed to start activity ${activityId}`,
@@ -464,9 +932,7 @@ export class HarmonyClient {
    * @throws {HarmonyError} If stopping activity fails or hub is not connected
    */
   public async stopActivity(): Promise<void> {
-    if (!this.client || !this.isConnected) {
-      throw new HarmonyError("Not connected to hub", ErrorCategory.STATE);
-    }
+    await this.ensureConnected();
 
     try {
       debug("Stopping current activity");
@@ -477,22 +943,16 @@ export class HarmonyClient {
         return;
       }
 
-      await this.client.turnOff();
+      const confirmation = this.waitForEvent("activityStopped", () => true, "Timeout waiting for activity to stop");
 
-      // Wait for activity to stop and verify
-      const startTime = Date.now();
-      const maxWaitTime = 10000; // 10 seconds max wait
-
-      while (Date.now() - startTime < maxWaitTime) {
-        const activity = await this.getCurrentActivity();
-        if (!activity) {
-          debug("Activity stopped successfully");
-          return;
-        }
-        await new Promise((resolve) => setTimeout(resolve, 500));
+      try {
+        await this.withConnection((connection) => connection.turnOff());
+        await confirmation.promise;
+      } finally {
+        confirmation.cancel();
       }
 
-      throw new Error("Timeout waiting for activity to stop");
+      debug("Activity stopped successfully");
     } catch (err) {
       throw new HarmonyError(
         "Failed to stop activity",
@@ -502,38 +962,124 @@ export class HarmonyClient {
     }
   }
 
+  /**
+   * Handles a state digest pushed by the hub.
+   * Emits activity events when the activity state changes and clears the
+   * config cache when the hub reports a new config version.
+   * @param digest - State digest received from the hub
+   * @private
+   */
+  private async handleStateDigest(digest: HarmonyStateDigest): Promise<void> {
+    debug("Received state digest", {
+      activityId: digest.activityId,
+      activityStatus: digest.activityStatus,
+      configVersion: digest.configVersion,
+    });
+
+    if (typeof digest.configVersion === "number" && digest.configVersion !== this.configVersion) {
+      const previousVersion = this.configVersion;
+      this.configVersion = digest.configVersion;
+      if (previousVersion !== null) {
+        info(`Hub ${this.hub.name} config changed`, { previousVersion, configVersion: digest.configVersion });
+        await this.clearCache();
+        this.events.emit("configChanged", digest.configVersion);
+      }
+    }
+
+    const activityId = String(digest.activityId);
+    const activityState = `${activityId}:${digest.activityStatus}`;
+    if (activityState === this.lastActivityState) {
+      return;
+    }
+    this.lastActivityState = activityState;
+
+    switch (digest.activityStatus) {
+      case HarmonyActivityStatus.STARTING:
+        this.events.emit("activityStarting", activityId);
+        break;
+      case HarmonyActivityStatus.STARTED: {
+        const activity = (await this.getActivities()).find((a) => a.id === activityId);
+        if (!activity) {
+          warn("Started activity not found in activity list", { activityId });
+          return;
+        }
+        this.events.emit("activityStarted", { ...activity, isCurrent: true });
+        break;
+      }
+      case HarmonyActivityStatus.HUB_OFF:
+        this.events.emit("activityStopped");
+        break;
+      default:
+        debug("Ignoring activity status", { activityStatus: digest.activityStatus });
+    }
+  }
+
+  /**
+   * Waits for the hub to push a matching event.
+   * @param event - Event to wait for
+   * @param matches - Predicate applied to the event payload
+   * @param timeoutMessage - Message of the error thrown when the wait times out
+   * @returns The pending wait and a function to stop waiting
+   * @private
+   */
+  private waitForEvent<K extends keyof HarmonyClientEvents>(
+    event: K,
+    matches: (...args: Parameters<HarmonyClientEvents[K]>) => boolean,
+    timeoutMessage: string,
+  ): { promise: Promise<void>; cancel: () => void } {
+    let cancel = (): void => undefined;
+    const promise = new Promise<void>((resolve, reject) => {
+      const { activity: timeout } = this.timeouts;
+      const timer = setTimeout(() => {
+        cancel();
+        reject(createTimeoutError(timeoutMessage, timeout, ErrorCategory.COMMAND_EXECUTION));
+      }, timeout);
+      const listener = ((...args: Parameters<HarmonyClientEvents[K]>) => {
+        if (matches(...args)) {
+          cancel();
+          resolve();
+        }
+      }) as HarmonyClientEvents[K];
+      const unsubscribe = this.on(event, listener);
+      cancel = () => {
+        clearTimeout(timer);
+        unsubscribe();
+      };
+    });
+    return { promise, cancel };
+  }
+
   /**
    * Gets cached configuration if available.
-   * Checks cache validity and expiration.
+   * Checks cache validity, and expiration for caches without a fingerprint.
    * @returns Promise resolving to cached configuration or null
-   * @throws {HarmonyError} If reading cache fails
    * @private
    */
   private async getCachedConfig(): Promise<CachedConfig | null> {
     try {
-      const cached = await LocalStorage.getItem<string>(this.cacheKey);
-      if (!cached) {
+      // Caches of an older version are migrated; caches that cannot be read are quarantined
+      const config = await configStorage.read(this.hub.hubId);
+      if (!config) {
         debug("No cache found for hub", { hubName: this.hub.name });
         return null;
       }
 
-      const config = JSON.parse(cached) as CachedConfig;
-
       // Validate cache has required data
-      if (!config.devices?.length || !config.activities?.length) {
+      if (!config.devices.length || !config.activities.length) {
         debug("Cache invalid - missing data", {
           hubName: this.hub.name,
-          hasDevices: !!config.devices?.length,
-          hasActivities: !!config.activities?.length,
+          hasDevices: !!config.devices.length,
+          hasActivities: !!config.activities.length,
         });
-        await LocalStorage.removeItem(this.cacheKey);
+        await configStorage.remove(this.hub.hubId);
         return null;
       }
 
-      // Check if cache is expired
-      if (Date.now() - config.timestamp > CACHE_EXPIRY) {
+      // Caches tagged with a config version stay valid until the hub reports a new version;
+      // only caches from hubs that report no version expire
+      if (!config.fingerprint && Date.now() - config.timestamp > this.timeouts.cache) {
         info("Config cache expired for hub", this.hub.name);
-        await LocalStorage.removeItem(this.cacheKey);
+        await configStorage.remove(this.hub.hubId);
         return null;
       }
 
@@ -569,9 +1115,10 @@ export class HarmonyClient {
         devices: devices.length ? devices : await this.getDevices(),
         activities: activities.length ? activities : await this.getActivitiesFromHub(),
         timestamp: Date.now(),
+        fingerprint: this.configFingerprint,
       };
 
-      await LocalStorage.setItem(this.cacheKey, JSON.stringify(cache));
+      await configStorage.write(cache, this.hub.hubId);
       debug("Updated cache for hub", {
         hubName: this.hub.name,
         deviceCount: cache.devices.length,
@@ -584,37 +1131,44 @@ export class HarmonyClient {
 
   /**
    * Executes a command on a device.
-   * Sends press and release actions with configurable hold time.
+   * Taps, long-presses or repeats the command; every press is a hold action
+   * followed by a release action.
    * @param command - The command to execute
-   * @throws {HarmonyError} If command execution fails or hub is not connected
+   * @param execution - How the command is pressed, a single tap held for the commandHoldTime preference by default
+   * @throws {HarmonyError} If the execution options are invalid, command execution fails or hub is not connected
    */
-  public async executeCommand(command: HarmonyCommand): Promise<void> {
-    if (!this.client || !this.isConnected) {
-      throw new HarmonyError("Not connected to hub", ErrorCategory.STATE);
-    }
+  public async executeCommand(
+    command: HarmonyCommand,
+    execution: CommandExecution = { mode: ExecutionMode.TAP },
+  ): Promise<void> {
+    await this.ensureConnected();
+    validateCommandExecution(execution);
 
     try {
-      const preferences = getPreferenceValues<{ commandHoldTime: string }>();
-      const holdTime = parseInt(preferences.commandHoldTime || "100", 10);
-
-      debug("Sending command to hub", { command });
-
-      const commandBody: HarmonyCommandBody = {
-        command: command.id,
-        deviceId: command.deviceId,
-        type: command.group || "IRCommand",
-      };
-
-      debug("Command body:", commandBody);
-
-      // Send press action
-      await this.client.send("holdAction", commandBody);
-
-      // Wait for hold time
-      await new Promise((resolve) => setTimeout(resolve, holdTime));
-
-      // Send release action
-      await this.client.send("releaseAction", commandBody);
+      const { commandHoldTime } = getPreferences();
+
+      debug("Sending command to hub", { command, execution });
+
+      // The hub's own action is sent as is; commands saved without one are addressed by ID
+      const action = command.action ?? legacyAction(command);
+
+      debug("Command action:", action);
+
+      switch (execution.mode) {
+        case ExecutionMode.LONG_PRESS:
+          await this.press(action, execution.duration);
+          break;
+        case ExecutionMode.REPEAT:
+          for (let count = 1; count <= execution.count; count++) {
+            if (count > 1) {
+              await new Promise((resolve) => setTimeout(resolve, execution.interval));
+            }
+            await this.press(action, execution.holdTime ?? commandHoldTime);
+          }
+          break;
+        default:
+          await this.press(action, execution.holdTime ?? commandHoldTime);
+      }
     } catch (err) {
       throw new HarmonyError(
         `Failed to execute command ${command.name}`,
@@ -624,19 +1178,41 @@ export class HarmonyClient {
     }
   }
 
+  /**
+   * Presses a button once: sends the hold action, waits, then sends the release action.
+   * @param action - JSON encoded action
+   * @param holdTime - How long the button is held in milliseconds
+   * @private
+   */
+  private async press(action: string, holdTime: number): Promise<void> {
+    // Send press action
+    await this.withConnection((connection) => connection.send("holdAction", action));
+
+    // Wait for hold time
+    await new Promise((resolve) => setTimeout(resolve, holdTime));
+
+    // Send release action
+    await this.withConnection((connection) => connection.send("releaseAction", action));
+  }
+
   /**
    * Disconnects from the Harmony Hub.
    * Cleans up resources and closes the connection.
    * @throws {HarmonyError} If disconnection fails
    */
   public async disconnect(): Promise<void> {
+    // Stop any reconnection and detach before closing so the close is not treated as a drop
+    this.shouldReconnect = false;
+    const connection = this.client;
+    this.client = null;
+    this.isConnected = false;
+    // Remove from active clients
+    HarmonyClient.activeClients.delete(this.hub.hubId);
+    this.events.removeAllListeners();
+
     try {
-      if (this.client && this.isConnected) {
-        await this.client.end();
-        this.isConnected = false;
-        this.client = null;
-        // Remove from active clients
-        HarmonyClient.activeClients.delete(this.hub.hubId);
+      if (connection) {
+        await connection.end();
         debug(`Disconnected client for hub ${this.hub.name}`);
       }
     } catch (err) {
@@ -665,17 +1241,50 @@ export class HarmonyClient {
   }
 
   /**
-   * Maps raw activity data to HarmonyActivity format
+   * Maps raw activity data to HarmonyActivity format.
+   * Keeps the control groups, device power states and roles so activity-level
+   * commands can be sent without knowing which device handles them.
    * @param raw - Raw activity data from hub
    * @returns Mapped HarmonyActivity
    * @private
    */
   private mapRawActivityToHarmonyActivity = (raw: RawActivity): HarmonyActivity => {
+    const activityId = String(raw.id);
+    const controlGroups = (raw.controlGroup ?? []).map((group) => ({
+      name: group.name,
+      commands: group.function.flatMap((fn): HarmonyCommand[] => {
+        const action = this.parseAction(fn.action);
+        if (!action) {
+          warn("Skipping activity function without a usable action", { activityId, function: fn.name });
+          return [];
+        }
+        return [
+          {
+            id: action.command,
+            name: fn.name,
+            label: fn.label || fn.name,
+            deviceId: action.deviceId,
+            group: group.name,
+            action: fn.action,
+          },
+        ];
+      }),
+    }));
+
     const mappedActivity: HarmonyActivity = {
-      id: String(raw.id),
+      id: activityId,
       name: raw.label,
       type: raw.type,
       isCurrent: false,
+      controlGroups,
+      powerStates: Object.values(raw.fixit ?? {}).map((state) => ({
+        deviceId: String(state.id),
+        power: state.Power,
+        input: state.Input,
+      })),
+      volumeActivityRole: raw.VolumeActivityRole,
+      channelChangingActivityRole: raw.ChannelChangingActivityRole,
+      sequences: (raw.sequences ?? []).map(String),
     };
 
     if (!isHarmonyActivity(mappedActivity)) {
@@ -691,7 +1300,7 @@ export class HarmonyClient {
       throw new HarmonyError("Client not initialized", ErrorCategory.CONNECTION);
     }
 
-    const response = await this.client.getActivities();
+    const response = await this.request(this.client.getActivities());
     const rawData = Array.isArray(response) ? response : [];
 
     // Convert raw data to activities
@@ -720,7 +1329,7 @@ export class HarmonyClient {
   public async clearCache(): Promise<void> {
     try {
       info(`Clearing cache for hub ${this.hub.name}`);
-      await LocalStorage.removeItem(this.cacheKey);
+      await configStorage.remove(this.hub.hubId);
     } catch (err) {
       throw new HarmonyError("Failed to clear cache", ErrorCategory.CACHE, err instanceof Error ? err : undefined);
     }
@@ -9,17 +9,13 @@ import { LocalStorage, showToast, Toast } from "@raycast/api";
 
 import { HarmonyClient } from "../../services/harmony/harmonyClient";
 import { HarmonyError, ErrorCategory } from "../../types/core/errors";
-import { HarmonyHub } from "../../types/core/harmony";
+import { DiscoveryConfig, HarmonyHub, isHarmonyHub } from "../../types/core/harmony";
 import { debug, error, info, warn } from "../logger";
+import { getPreferences, getTimeoutConfig } from "../preferences";
+import { VersionedStorage } from "../versionedStorage";
 
-/** Discovery timeout in milliseconds */
-const DISCOVERY_TIMEOUT = 5000;
-/** Delay after finding a hub before completing discovery */
-const DISCOVERY_COMPLETE_DELAY = 500;
-/** Key for storing hub cache */
-const CACHE_KEY = "harmony-hubs";
-/** Cache time-to-live in milliseconds (24 hours) */
-const CACHE_TTL = 24 * 60 * 60 * 1000;
+import { probeHub } from "./hubProbe";
+import { getInterfaceNetwork, scanSubnet } from "./subnetScan";
 
 /**
  * Interface for cached hub data
@@ -30,8 +26,33 @@ interface CachedHubs {
   hubs: HarmonyHub[];
   /** Timestamp when cache was created */
   timestamp: number;
+  /** IDs of hubs added by IP address, kept when discovery runs again */
+  manualHubIds?: string[];
 }
 
+/**
+ * Type guard for cached hub data
+ * @param obj - Stored payload
+ */
+function isCachedHubs(obj: unknown): obj is CachedHubs {
+  const cached = obj as Partial<CachedHubs>;
+  return (
+    Array.isArray(cached.hubs) &&
+    cached.hubs.every(isHarmonyHub) &&
+    typeof cached.timestamp === "number" &&
+    (cached.manualHubIds === undefined ||
+      (Array.isArray(cached.manualHubIds) && cached.manualHubIds.every((id) => typeof id === "string")))
+  );
+}
+
+/** Hub cache; caches written before versioning already have the current shape */
+const hubStorage = VersionedStorage.register<CachedHubs>({
+  key: "harmony-hubs",
+  version: 1,
+  migrations: { 0: (payload) => payload },
+  validate: isCachedHubs,
+});
+
 /**
  * Interface for raw hub data received from discovery process
  * @interface HubDiscoveryData
@@ -60,11 +81,35 @@ interface HubDiscoveryData {
   };
 }
 
+/**
+ * Discovery settings with every value that has a default filled in
+ */
+type ResolvedDiscoveryConfig = DiscoveryConfig & Required<Pick<DiscoveryConfig, "timeout" | "completeDelay" | "port">>;
+
+/**
+ * Reads the discovery settings from the preferences
+ * @returns Discovery settings from the preferences
+ */
+function readDiscoveryPreferences(): ResolvedDiscoveryConfig {
+  const preferences = getPreferences();
+  return {
+    timeout: getTimeoutConfig().discovery,
+    completeDelay: preferences.discoveryCompleteDelay,
+    port: preferences.discoveryPort,
+    broadcastAddress: preferences.discoveryBroadcastAddress,
+    networkInterface: preferences.discoveryInterface,
+    subnetScan: preferences.subnetScan,
+    scanRange: preferences.scanRange,
+  };
+}
+
 /**
  * Manager class for discovering and managing Harmony Hubs.
  * Handles network discovery, caching, and hub validation.
  */
 export class HarmonyManager {
+  /** Discovery settings that take precedence over the preferences */
+  private readonly config: DiscoveryConfig;
   /** Hub discovery explorer instance */
   private explorer: Explorer | null = null;
   /** Whether discovery is currently in progress */
@@ -74,6 +119,14 @@ export class HarmonyManager {
   /** Timeout for discovery completion */
   private completeTimeout: NodeJS.Timeout | null = null;
 
+  /**
+   * Creates a hub manager
+   * @param config - Discovery settings, overriding the discovery preferences
+   */
+  public constructor(config: DiscoveryConfig = {}) {
+    this.config = config;
+  }
+
   /**
    * Creates a validated HarmonyHub instance from discovery data
    * @param data - Raw hub data from discovery process
@@ -129,6 +182,15 @@ export class HarmonyManager {
     }
   }
 
+  /**
+   * Reads the cached hubs without checking that they are still on the network.
+   * Lets the UI show the last known hubs while discovery runs.
+   * @returns Promise resolving to the cached hubs, empty if none are cached
+   */
+  public async loadCachedHubs(): Promise<HarmonyHub[]> {
+    return (await hubStorage.read())?.hubs ?? [];
+  }
+
   /**
    * Starts discovery of Harmony Hubs on the network.
    * Checks cache first, then performs network discovery if needed.
@@ -144,28 +206,30 @@ export class HarmonyManager {
         info(`Found ${cached.length} cached hubs`);
         onProgress?.(0.25, `Found ${cached.length} cached hub(s)`);
 
-        // Verify each cached hub is still accessible
+        // Verify the cached hubs are still accessible, all at once so one slow hub does not hold up the others
         debug("Verifying cached hubs are accessible");
-        const verifiedHubs: HarmonyHub[] = [];
-        for (const hub of cached) {
-          try {
-            onProgress?.(0.5, `Verifying hub: ${hub.name}...`);
-            if (await this.verifyHub(hub)) {
-              verifiedHubs.push(hub);
-              info(`Verified hub ${hub.name} is accessible`);
-              onProgress?.(0.75, `Verified hub: ${hub.name}`);
-            } else {
+        onProgress?.(0.5, `Verifying ${cached.length} cached hub(s)...`);
+        const accessible = await Promise.all(
+          cached.map(async (hub) => {
+            try {
+              if (await this.verifyHub(hub)) {
+                info(`Verified hub ${hub.name} is accessible`);
+                onProgress?.(0.75, `Verified hub: ${hub.name}`);
+                return true;
+              }
               warn(`Cached hub ${hub.name} is no longer accessible`);
+            } catch (err) {
+              warn(`Failed to verify hub ${hub.name}:`, err);
             }
-          } catch (err) {
-            warn(`Failed to verify hub ${hub.name}:`, err);
-          }
-        }
+            return false;
+          }),
+        );
+        const verifiedHubs = cached.filter((_hub, index) => accessible[index]);
 
         if (verifiedHubs.length > 0) {
           info(`${verifiedHubs.length} of ${cached.length} cached hubs verified`);
           if (verifiedHubs.length !== cached.length) {
-            // Update cache with only verified hubs
+            // Update cache with only verified hubs, keeping hubs added by IP
             await this.cacheHubs(verifiedHubs);
           }
           if (verifiedHubs.length === 1) {
@@ -200,9 +264,13 @@ export class HarmonyManager {
       await this.cleanup();
 
       this.isDiscovering = true;
+      const config = { ...readDiscoveryPreferences(), ...this.config };
+      const broadcastAddress =
+        config.broadcastAddress ??
+        (config.networkInterface ? getInterfaceNetwork(config.networkInterface).broadcast : undefined);
       onProgress?.(0.1, "Starting discovery process");
-      info("Starting hub discovery process");
-      this.explorer = new Explorer();
+      info("Starting hub discovery process", { port: config.port, broadcastAddress });
+      this.explorer = new Explorer(config.port, broadcastAddress ? { address: broadcastAddress } : undefined);
 
       // Create and store the discovery promise
       this.discoveryPromise = new Promise<HarmonyHub[]>((resolve, reject) => {
@@ -215,27 +283,37 @@ export class HarmonyManager {
 
         const hubs: HarmonyHub[] = [];
         let discoveryProgress = 0.1;
+        let isComplete = false;
 
-        // Function to complete discovery
-        const completeDiscovery = async (): Promise<HarmonyHub[]> => {
+        // Function to complete discovery, once, falling back to a subnet scan if no hub answered
+        const completeDiscovery = async (): Promise<void> => {
+          if (isComplete) return;
+          isComplete = true;
+          clearTimeout(timeout);
           await this.cleanup();
-          if (hubs.length > 0) {
-            info(`Discovery completed successfully, found ${hubs.length} hubs`);
-            await this.cacheHubs(hubs);
-            onProgress?.(1, `Found ${hubs.length} hub(s)`);
-          } else {
-            info("Discovery completed but no hubs were found");
-            onProgress?.(1, "No hubs found");
+          try {
+            if (hubs.length > 0) {
+              info(`Discovery completed successfully, found ${hubs.length} hubs`);
+            } else if (config.subnetScan) {
+              info("Discovery found no hubs, scanning the subnet");
+              hubs.push(...(await this.scanForHubs(config, onProgress)));
+            } else {
+              info("Discovery completed but no hubs were found");
+            }
+            // Hubs added by IP are not announced, so keep them alongside the discovered ones
+            const allHubs = await this.cacheHubs(hubs);
+            onProgress?.(1, allHubs.length > 0 ? `Found ${allHubs.length} hub(s)` : "No hubs found");
+            resolve(allHubs);
+          } catch (err) {
+            reject(err);
           }
-          resolve(hubs);
-          return hubs;
         };
 
-        // Set timeout to stop discovery after DISCOVERY_TIMEOUT
+        // Set timeout to stop discovery after the configured timeout
         const timeout = setTimeout(async () => {
           info("Discovery timeout reached");
           await completeDiscovery();
-        }, DISCOVERY_TIMEOUT);
+        }, config.timeout);
 
         this.explorer.on("online", (data: HubDiscoveryData) => {
           try {
@@ -257,7 +335,7 @@ export class HarmonyManager {
               }
               this.completeTimeout = setTimeout(async () => {
                 await completeDiscovery();
-              }, DISCOVERY_COMPLETE_DELAY);
+              }, config.completeDelay);
             } else {
               info(`Skipping duplicate hub: ${hub.name} (${hub.ip})`);
             }
@@ -288,6 +366,10 @@ export class HarmonyManager {
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : String(err);
       error("Failed to start discovery:", errorMessage);
+      // Settings errors, like an invalid scan range, already say what to fix
+      if (err instanceof HarmonyError && err.category === ErrorCategory.VALIDATION) {
+        throw err;
+      }
       throw new HarmonyError(
         "Failed to start hub discovery",
         ErrorCategory.HUB_COMMUNICATION,
@@ -299,30 +381,73 @@ export class HarmonyManager {
   }
 
   /**
-   * Performs network discovery of Harmony Hubs.
-   * Uses the Harmony discovery protocol to find hubs on the local network.
-   * @returns Promise resolving to list of discovered hubs
-   * @throws {HarmonyError} If discovery fails
+   * Probes every address in the scan range for hubs.
+   * Used when no hub answers the discovery broadcast, e.g. when broadcasts are filtered.
+   * @param config - Discovery settings with the scan range or network interface
+   * @param onProgress - Optional callback for progress updates
+   * @returns Promise resolving to the hubs found
+   * @throws {HarmonyError} If the scan range or network interface is invalid
    * @private
    */
-  private async discoverHubs(): Promise<HarmonyHub[]> {
-    return [];
+  private async scanForHubs(
+    config: DiscoveryConfig,
+    onProgress?: (progress: number, message: string) => void,
+  ): Promise<HarmonyHub[]> {
+    const range = config.scanRange ?? getInterfaceNetwork(config.networkInterface).cidr;
+    onProgress?.(0.5, `Scanning ${range} for hubs...`);
+    const hubs = await scanSubnet(range, {
+      onProgress: (scanned, total) =>
+        onProgress?.(0.5 + 0.45 * (scanned / total), `Scanned ${scanned} of ${total} addresses`),
+    });
+    info(`Subnet scan found ${hubs.length} hub(s)`);
+    return hubs;
   }
 
   /**
-   * Caches discovered hubs in local storage.
+   * Adds a hub by IP address for networks where discovery cannot reach it.
+   * Probes the address and merges the hub into the hub cache.
+   * @param ip - IPv4 address of the hub
+   * @returns Promise resolving to the added hub
+   * @throws {HarmonyError} If the address is invalid or no hub answers there
+   */
+  public async addHub(ip: string): Promise<HarmonyHub> {
+    const hub = await probeHub(ip);
+    const stored = await hubStorage.read();
+    const otherHubs = (stored?.hubs ?? []).filter((h) => h.hubId !== hub.hubId);
+    await this.cacheHubs([...otherHubs, hub], [hub.hubId]);
+    info(`Added hub ${hub.name} (${hub.ip}) manually`);
+    return hub;
+  }
+
+  /**
+   * Caches hubs in local storage.
+   * Hubs added by IP stay in the cache unless the same hub is in the list.
    * @param hubs - List of hubs to cache
+   * @param addedHubIds - IDs of hubs in the list that were added by IP
+   * @returns Promise resolving to every cached hub
    * @throws {HarmonyError} If caching fails
    * @private
    */
-  private async cacheHubs(hubs: HarmonyHub[]): Promise<void> {
+  private async cacheHubs(hubs: HarmonyHub[], addedHubIds: string[] = []): Promise<HarmonyHub[]> {
     try {
+      const stored = await hubStorage.read();
+      const manualHubIds = new Set([...(stored?.manualHubIds ?? []), ...addedHubIds]);
+      const keptHubs = (stored?.hubs ?? []).filter(
+        (hub) => manualHubIds.has(hub.hubId) && !hubs.some((h) => h.hubId === hub.hubId),
+      );
+      const allHubs = [...hubs, ...keptHubs];
+      if (allHubs.length === 0) {
+        return allHubs;
+      }
+
       const cache: CachedHubs = {
-        hubs,
+        hubs: allHubs,
         timestamp: Date.now(),
+        manualHubIds: allHubs.filter((hub) => manualHubIds.has(hub.hubId)).map((hub) => hub.hubId),
       };
-      await LocalStorage.setItem(CACHE_KEY, JSON.stringify(cache));
-      info(`Cached ${hubs.length} hubs`);
+      await hubStorage.write(cache);
+      info(`Cached ${allHubs.length} hubs`);
+      return allHubs;
     } catch (error) {
       warn("Failed to cache hubs:", error);
       throw new HarmonyError("Failed to cache hubs", ErrorCategory.STORAGE, error as Error);
@@ -337,25 +462,19 @@ export class HarmonyManager {
    */
   private async getCachedHubs(): Promise<HarmonyHub[] | null> {
     try {
-      const cached = await LocalStorage.getItem<string>(CACHE_KEY);
+      // Caches with invalid hub data are quarantined while reading
+      const cached = await hubStorage.read();
       if (!cached) return null;
 
-      const { hubs, timestamp } = JSON.parse(cached) as CachedHubs;
+      const { hubs, timestamp, manualHubIds } = cached;
 
-      // Check if cache is expired
-      if (Date.now() - timestamp > CACHE_TTL) {
+      // Check if cache is expired; hubs added by IP are kept for the next discovery
+      if (Date.now() - timestamp > getTimeoutConfig().cache) {
         info("Cache expired");
-        await LocalStorage.removeItem(CACHE_KEY);
-        return null;
-      }
-
-      // Validate cached hub data
-      for (const hub of hubs) {
-        if (!hub.id || !hub.name || !hub.ip || !hub.hubId) {
-          warn("Invalid hub data in cache, clearing cache");
-          await LocalStorage.removeItem(CACHE_KEY);
-          return null;
+        if (!manualHubIds?.length) {
+          await hubStorage.remove();
         }
+        return null;
       }
 
       return hubs;
@@ -393,7 +512,7 @@ export class HarmonyManager {
       info("Clearing all Harmony caches");
 
       // Clear hub discovery cache
-      await LocalStorage.removeItem(CACHE_KEY);
+      await hubStorage.remove();
 
       // Clear hub-specific caches
       const hubs = await this.getCachedHubs();
@@ -422,7 +541,7 @@ export class HarmonyManager {
       info("Clearing all Harmony caches");
 
       // Clear hub cache
-      await LocalStorage.removeItem(CACHE_KEY);
+      await hubStorage.remove();
 
       // Clear all hub-specific config caches
       const allKeys = await LocalStorage.allItems();
@@ -0,0 +1,212 @@
+/**
+ * Harmony Hub protocol over the WebSocket transport.
+ * Turns hub commands into requests and hub notifications into events.
+ * @module
+ */
+
+import { EventEmitter } from "events";
+
+import { HarmonyError, ErrorCategory } from "../../types/core/errors";
+import { HarmonyHub, HarmonyStateDigest } from "../../types/core/harmony";
+import { WebSocketConnectionStatus } from "../../types/core/websocket";
+import { debug } from "../logger";
+
+import { WebSocketTransport } from "./webSocketTransport";
+
+/** Port hubs serve WebSocket connections on when the hub does not say otherwise */
+const DEFAULT_HUB_PORT = "8088";
+/** Domain the hub expects in the WebSocket URL */
+const HUB_DOMAIN = "svcs.myharmony.com";
+/** Activity ID the hub uses for "everything off" */
+const POWER_OFF_ID = "-1";
+
+/**
+ * Hub commands sent over the WebSocket
+ */
+const HubCommands = {
+  STATE_DIGEST: "vnd.logitech.connect/vnd.logitech.statedigest?get",
+  CONFIG: "vnd.logitech.harmony/vnd.logitech.harmony.engine?config",
+  CURRENT_ACTIVITY: "vnd.logitech.harmony/vnd.logitech.harmony.engine?getCurrentActivity",
+  RUN_ACTIVITY: "harmony.activityengine?runactivity",
+  HOLD_ACTION: "harmony.engine?holdAction",
+  RELEASE_ACTION: "harmony.engine?releaseAction",
+} as const;
+
+/** Notification type the hub pushes state digests with */
+const STATE_DIGEST_NOTIFY = "connect.stateDigest?notify";
+
+/** Button actions the hub accepts */
+export type HubAction = "holdAction" | "releaseAction";
+
+/**
+ * Events emitted by a hub connection
+ * @interface HubConnectionEvents
+ */
+interface HubConnectionEvents {
+  /** The hub pushed a state digest */
+  stateDigest: (digest: HarmonyStateDigest) => void;
+  /** The connection closed */
+  close: () => void;
+}
+
+/**
+ * Options for connecting to a hub
+ * @interface HubConnectionOptions
+ */
+export interface HubConnectionOptions {
+  /** Time to wait for each response in milliseconds */
+  messageTimeout: number;
+}
+
+/**
+ * Live protocol connection to a hub.
+ * Emits "stateDigest" for every state digest the hub pushes and "close" once the connection is gone.
+ */
+export class HubConnection {
+  /** Event emitter for connection events */
+  private readonly events = new EventEmitter();
+
+  /**
+   * Creates a new HubConnection
+   * @param transport - Opened transport to the hub
+   */
+  constructor(private readonly transport: WebSocketTransport) {
+    transport.on("status", (status) => {
+      if (status === WebSocketConnectionStatus.DISCONNECTED) {
+        this.events.emit("close");
+      }
+    });
+    transport.on("notification", (type, data) => {
+      if (type === STATE_DIGEST_NOTIFY) {
+        this.events.emit("stateDigest", data as HarmonyStateDigest);
+      }
+    });
+  }
+
+  /**
+   * Subscribes to a connection event
+   * @param event - Event name
+   * @param listener - Listener called with the event arguments
+   * @returns Function that removes the listener
+   */
+  public on<K extends keyof HubConnectionEvents>(event: K, listener: HubConnectionEvents[K]): () => void {
+    this.events.on(event, listener);
+    return () => {
+      this.events.off(event, listener);
+    };
+  }
+
+  /**
+   * Fetches the hub's current state, including the version of its configuration.
+   * Much smaller than the configuration itself.
+   * @returns State digest
+   */
+  public async getStateDigest(): Promise<HarmonyStateDigest> {
+    return (await this.call(HubCommands.STATE_DIGEST)) as HarmonyStateDigest;
+  }
+
+  /**
+   * Fetches the hub configuration with its devices and activities
+   * @returns Raw configuration
+   */
+  public async getAvailableCommands(): Promise<unknown> {
+    return this.call(HubCommands.CONFIG);
+  }
+
+  /**
+   * Fetches the activities configured on the hub
+   * @returns Raw activities
+   */
+  public async getActivities(): Promise<unknown[]> {
+    const config = (await this.call(HubCommands.CONFIG)) as { activity?: unknown[] } | undefined;
+    return config?.activity ?? [];
+  }
+
+  /**
+   * Fetches the running activity
+   * @returns Activity ID, "-1" when the hub is off
+   */
+  public async getCurrentActivity(): Promise<string> {
+    const data = (await this.call(HubCommands.CURRENT_ACTIVITY)) as { result?: string | number } | undefined;
+    return String(data?.result ?? POWER_OFF_ID);
+  }
+
+  /**
+   * Starts an activity. The hub reports progress in state digests.
+   * @param activityId - Activity to start
+   * @returns The hub's answer
+   */
+  public async startActivity(activityId: string): Promise<unknown> {
+    return this.call(HubCommands.RUN_ACTIVITY, {
+      async: "true",
+      timestamp: 0,
+      args: { rule: "start" },
+      activityId,
+    });
+  }
+
+  /**
+   * Turns off every device of the running activity
+   * @returns The hub's answer
+   */
+  public async turnOff(): Promise<unknown> {
+    return this.startActivity(POWER_OFF_ID);
+  }
+
+  /**
+   * Presses or releases a button. The hub does not answer these.
+   * @param action - Whether to press or release
+   * @param body - JSON encoded action of the button
+   */
+  public async send(action: HubAction, body: string): Promise<void> {
+    this.transport.send(action === "holdAction" ? HubCommands.HOLD_ACTION : HubCommands.RELEASE_ACTION, {
+      status: action === "holdAction" ? "press" : "release",
+      timestamp: "0",
+      verb: "render",
+      action: body,
+    });
+  }
+
+  /**
+   * Closes the connection
+   */
+  public async end(): Promise<void> {
+    await this.transport.close();
+  }
+
+  /**
+   * Sends a request and returns the response data
+   * @throws {HarmonyError} If the hub rejects the request
+   * @private
+   */
+  private async call(cmd: string, params?: Record<string, unknown>): Promise<unknown> {
+    const response = await this.transport.request(cmd, params);
+    if (response.status === "error") {
+      throw new HarmonyError(
+        `Hub rejected ${cmd}: ${response.error}`,
+        ErrorCategory.HUB_COMMUNICATION,
+        undefined,
+        undefined,
+        false,
+        "HUB_REQUEST_REJECTED",
+      );
+    }
+    return response.data;
+  }
+}
+
+/**
+ * Opens a protocol connection to a hub
+ * @param hub - Hub to connect to
+ * @param options - Timeouts for the connection
+ * @returns Open connection
+ * @throws {HarmonyError} If the WebSocket cannot be opened
+ */
+export async function connectToHub(hub: HarmonyHub, options: HubConnectionOptions): Promise<HubConnection> {
+  const url = `ws://${hub.ip}:${hub.port || DEFAULT_HUB_PORT}/?domain=${HUB_DOMAIN}&hubId=${hub.remoteId}`;
+  debug("Opening hub connection", { url });
+
+  const transport = new WebSocketTransport(url, { remoteId: hub.remoteId, messageTimeout: options.messageTimeout });
+  await transport.open();
+  return new HubConnection(transport);
+}
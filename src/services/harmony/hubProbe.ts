@@ -0,0 +1,140 @@
+/**
+ * Probe for Harmony Hubs at a known address.
+ * Asks the hub for its provisioning info over HTTP, which includes the remote ID
+ * needed to open the WebSocket, and builds a HarmonyHub from it.
+ * @module
+ */
+
+import { HarmonyError, ErrorCategory } from "../../types/core/errors";
+import { HarmonyHub } from "../../types/core/harmony";
+import { createTimeoutError, UNREACHABLE_ERROR_CODE } from "../../utils/timeout";
+import { isValidIpAddress } from "../../utils/validation";
+import { debug, info } from "../logger";
+import { getTimeoutConfig } from "../preferences";
+
+/** Port the hub serves provisioning info and WebSocket connections on */
+const HUB_PORT = "8088";
+/** Origin the hub expects on provisioning requests */
+const HUB_ORIGIN = "http://sl.dhg.myharmony.com";
+
+/**
+ * Options for probing a hub
+ * @interface ProbeOptions
+ */
+export interface ProbeOptions {
+  /** Port to probe, defaults to 8088 */
+  port?: string;
+  /** Time to wait for an answer in milliseconds, defaults to the connection timeout */
+  timeout?: number;
+}
+
+/**
+ * Provisioning info returned by the hub
+ * @interface ProvisionInfo
+ */
+interface ProvisionInfo {
+  /** Remote ID used to open the WebSocket */
+  activeRemoteId?: string | number;
+  /** Remote ID on older firmware */
+  remoteId?: string | number;
+  /** User-friendly name of the hub */
+  friendlyName?: string;
+  /** Hub ID from Logitech service */
+  hubId?: string | number;
+  /** Unique identifier for the hub */
+  uuid?: string;
+  /** Current firmware version */
+  current_fw_version?: string;
+  /** Product ID of the hub */
+  productId?: string;
+  /** Protocol version supported by the hub */
+  protocolVersion?: string;
+}
+
+/**
+ * Asks the hub at an address for its provisioning info.
+ * @param ip - IPv4 address of the hub
+ * @param options - Port and timeout overrides
+ * @returns Promise resolving to the hub at that address
+ * @throws {HarmonyError} If the address is invalid, nothing can be reached there, the hub does not answer in time
+ * or the device there is not a hub
+ */
+export async function probeHub(ip: string, options: ProbeOptions = {}): Promise<HarmonyHub> {
+  const address = ip.trim();
+  if (!isValidIpAddress(address)) {
+    throw new HarmonyError(
+      `${ip} is not a valid IPv4 address`,
+      ErrorCategory.VALIDATION,
+      undefined,
+      undefined,
+      false,
+      "INVALID_IP_ADDRESS",
+    );
+  }
+
+  const port = options.port ?? HUB_PORT;
+  const timeout = options.timeout ?? getTimeoutConfig().connection;
+  const url = `http://${address}:${port}/`;
+  debug("Probing for hub", { url });
+
+  let data: ProvisionInfo;
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        Origin: HUB_ORIGIN,
+        "Content-Type": "application/json",
+        Accept: "application/json",
+      },
+      body: JSON.stringify({ id: 1, cmd: "setup.account?getProvisionInfo", params: {} }),
+      signal: AbortSignal.timeout(timeout),
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    data = ((await response.json()) as { data?: ProvisionInfo }).data ?? {};
+  } catch (err) {
+    // The abort signal fails the request with a TimeoutError, or an AbortError on older runtimes.
+    // Both are DOMExceptions, which are not always instances of this realm's Error.
+    const name = (err as { name?: unknown } | null)?.name;
+    if (name === "TimeoutError" || name === "AbortError") {
+      throw createTimeoutError(`Hub at ${address} did not answer within ${timeout}ms`, timeout);
+    }
+    throw new HarmonyError(
+      `No Harmony Hub answered at ${address}`,
+      ErrorCategory.HUB_COMMUNICATION,
+      err instanceof Error ? err : new Error(String(err)),
+      undefined,
+      true,
+      UNREACHABLE_ERROR_CODE,
+    );
+  }
+
+  const remoteId = data.activeRemoteId ?? data.remoteId;
+  if (data.hubId === undefined || remoteId === undefined) {
+    throw new HarmonyError(
+      `Device at ${address} did not identify as a Harmony Hub`,
+      ErrorCategory.VALIDATION,
+      new Error(`Missing hubId or remoteId: ${JSON.stringify(data)}`),
+      undefined,
+      false,
+      "HUB_PROBE_FAILED",
+    );
+  }
+
+  const hubId = String(data.hubId);
+  const hub: HarmonyHub = {
+    id: data.uuid ?? hubId,
+    name: data.friendlyName || `Harmony Hub (${address})`,
+    ip: address,
+    hubId,
+    remoteId: String(remoteId),
+    version: data.current_fw_version ?? "",
+    port,
+    productId: data.productId ?? "",
+    protocolVersion: data.protocolVersion ?? "",
+  };
+
+  info(`Found hub ${hub.name} at ${address}`);
+  return hub;
+}
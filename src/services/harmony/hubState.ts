@@ -0,0 +1,75 @@
+/**
+ * Hub state persisted by the Harmony store.
+ * Also read by the no-view commands to find the hub to control.
+ * @module
+ */
+
+import { HarmonyHub, isHarmonyHub } from "../../types/core/harmony";
+import { VersionedStorage } from "../versionedStorage";
+
+/**
+ * Hub state persisted between launches
+ * @interface PersistedHubState
+ */
+export interface PersistedHubState {
+  /** Hub selected when the state was saved */
+  selectedHub: HarmonyHub | null;
+  /** Known hubs */
+  hubs: HarmonyHub[];
+  /** Hubs that had sessions, absent in states saved before several hubs could be connected */
+  sessionHubIds?: string[];
+}
+
+/**
+ * Stored payload of the hub state
+ * @interface StoredHubState
+ */
+interface StoredHubState {
+  /** The persisted state, whose selected hub was left out when none was selected by older releases */
+  state: Omit<PersistedHubState, "selectedHub"> & Partial<Pick<PersistedHubState, "selectedHub">>;
+}
+
+/**
+ * Type guard for the stored hub state
+ * @param obj - Stored payload
+ */
+function isStoredHubState(obj: unknown): obj is StoredHubState {
+  const state = (obj as Partial<StoredHubState>).state;
+  return (
+    typeof state === "object" &&
+    state !== null &&
+    (state.selectedHub === undefined || state.selectedHub === null || isHarmonyHub(state.selectedHub)) &&
+    Array.isArray(state.hubs) &&
+    state.hubs.every(isHarmonyHub) &&
+    (state.sessionHubIds === undefined ||
+      (Array.isArray(state.sessionHubIds) && state.sessionHubIds.every((id) => typeof id === "string")))
+  );
+}
+
+/** Storage of the hub state */
+const hubStateStorage = VersionedStorage.register<StoredHubState>({
+  key: "harmony-hub-state",
+  version: 1,
+  validate: isStoredHubState,
+});
+
+/**
+ * Loads the persisted hub state
+ * @returns The state, or null if none was saved or it could not be read
+ */
+export async function loadHubState(): Promise<PersistedHubState | null> {
+  const stored = await hubStateStorage.read();
+  if (!stored) {
+    return null;
+  }
+  return { ...stored.state, selectedHub: stored.state.selectedHub ?? null };
+}
+
+/**
+ * Persists the hub state
+ * @param state - State to save
+ * @throws {Error} If the state cannot be stored
+ */
+export async function saveHubState(state: PersistedHubState): Promise<void> {
+  await hubStateStorage.write({ state });
+}
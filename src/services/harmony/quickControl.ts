@@ -0,0 +1,107 @@
+/**
+ * Helpers for the no-view commands.
+ * These run without the list UI, so they use the hub cached by the Control
+ * Harmony Hub command instead of discovering hubs.
+ * @module
+ */
+
+import { HarmonyError, ErrorCategory } from "../../types/core/errors";
+import { HarmonyHub } from "../../types/core/harmony";
+import { debug, info } from "../logger";
+
+import { HarmonyClient } from "./harmonyClient";
+import { loadHubState } from "./hubState";
+
+/**
+ * Load the hub to control from the cached hub state.
+ * Uses the selected hub, or the only known hub if none is selected.
+ * @returns The cached hub
+ * @throws {HarmonyError} If no hub has been cached yet
+ */
+export async function loadCachedHub(): Promise<HarmonyHub> {
+  const state = await loadHubState();
+  const hub = state?.selectedHub ?? (state?.hubs.length === 1 ? state.hubs[0] : undefined);
+  if (!hub) {
+    throw new HarmonyError(
+      "No Harmony Hub selected. Open Control Harmony Hub and choose a hub first.",
+      ErrorCategory.STATE,
+      undefined,
+      undefined,
+      false,
+      "NO_CACHED_HUB",
+    );
+  }
+
+  debug("Using cached hub", { hub: hub.name });
+  return hub;
+}
+
+/**
+ * Connect to a hub, run an operation and disconnect again.
+ * @param hub - Hub to connect to
+ * @param operation - Operation to run with the connected client
+ * @returns The operation's result
+ */
+export async function withHubClient<T>(hub: HarmonyHub, operation: (client: HarmonyClient) => Promise<T>): Promise<T> {
+  const client = HarmonyClient.getClient(hub);
+  try {
+    if (!client.isClientConnected()) {
+      await client.connect();
+    }
+    return await operation(client);
+  } finally {
+    await client.disconnect();
+  }
+}
+
+/**
+ * Find the item a user typed by ID or name.
+ * An exact, case-insensitive match wins; otherwise the query must match
+ * part of exactly one name.
+ * @param items - Items to search
+ * @param query - ID or name typed by the user
+ * @param kind - Kind of item, used in error messages (e.g. "activity")
+ * @param getName - Returns the name to match for an item
+ * @returns The matching item
+ * @throws {HarmonyError} If no item or more than one item matches
+ */
+export function findByName<T extends { readonly id: string }>(
+  items: readonly T[],
+  query: string,
+  kind: string,
+  getName: (item: T) => string,
+): T {
+  const normalized = query.trim().toLowerCase();
+  const exact = items.find((item) => item.id === query.trim() || getName(item).toLowerCase() === normalized);
+  if (exact) {
+    return exact;
+  }
+
+  const partial = items.filter((item) => getName(item).toLowerCase().includes(normalized));
+  const [match] = partial;
+  if (partial.length === 1 && match) {
+    info(`Matched ${kind} "${query}" to ${getName(match)}`);
+    return match;
+  }
+
+  if (partial.length === 0) {
+    throw new HarmonyError(
+      `No ${kind} matches "${query}"`,
+      ErrorCategory.VALIDATION,
+      undefined,
+      undefined,
+      false,
+      "NOT_FOUND",
+    );
+  }
+
+  throw new HarmonyError(
+    `"${query}" matches more than one ${kind}: ${partial.map(getName).join(", ")}`,
+    ErrorCategory.VALIDATION,
+    undefined,
+    undefined,
+    false,
+    "AMBIGUOUS_MATCH",
+    { matches: partial.map(getName) },
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * Active TCP scan for Harmony Hubs.
+ * Probes every address in a CIDR range with probeHub, for networks where
+ * the discovery broadcast does not reach the hub.
+ * @module
+ */
+
+import { networkInterfaces } from "os";
+
+import { HarmonyError, ErrorCategory } from "../../types/core/errors";
+import { HarmonyHub } from "../../types/core/harmony";
+import { isValidIpAddress } from "../../utils/validation";
+import { debug, info } from "../logger";
+
+import { probeHub } from "./hubProbe";
+
+/** Largest range that will be scanned, a /22 */
+const MAX_SCAN_HOSTS = 1022;
+/** Number of addresses probed at the same time */
+const SCAN_CONCURRENCY = 32;
+/** Time to wait for each address to answer in milliseconds */
+const SCAN_PROBE_TIMEOUT = 1000;
+
+/**
+ * IPv4 network a local interface is attached to
+ * @interface InterfaceNetwork
+ */
+export interface InterfaceNetwork {
+  /** Name of the interface, e.g. en0 */
+  name: string;
+  /** Address of this machine on the interface */
+  address: string;
+  /** Network in CIDR notation, e.g. 192.168.1.0/24 */
+  cidr: string;
+  /** Broadcast address of the network */
+  broadcast: string;
+}
+
+/**
+ * Options for scanning a range
+ * @interface ScanOptions
+ */
+export interface ScanOptions {
+  /** Port to probe, defaults to 8088 */
+  port?: string;
+  /** Time to wait for each address in milliseconds */
+  timeout?: number;
+  /** Called after every batch with the number of addresses probed so far */
+  onProgress?: (scanned: number, total: number) => void;
+}
+
+/**
+ * Converts a dotted IPv4 address to an unsigned 32-bit number
+ * @param ip - Valid IPv4 address
+ */
+function toNumber(ip: string): number {
+  return ip.split(".").reduce((acc, part) => acc * 256 + parseInt(part, 10), 0);
+}
+
+/**
+ * Converts an unsigned 32-bit number to a dotted IPv4 address
+ * @param value - Address as a number
+ */
+function toAddress(value: number): string {
+  return [24, 16, 8, 0].map((shift) => Math.floor(value / 2 ** shift) % 256).join(".");
+}
+
+/**
+ * Creates the error thrown for a range that cannot be scanned
+ * @param message - What is wrong with the range
+ */
+function invalidRange(message: string): HarmonyError {
+  return new HarmonyError(message, ErrorCategory.VALIDATION, undefined, undefined, false, "INVALID_SCAN_RANGE");
+}
+
+/**
+ * Lists the host addresses in a CIDR range, without the network and broadcast addresses
+ * @param cidr - Range like 192.168.1.0/24
+ * @returns Host addresses in ascending order
+ * @throws {HarmonyError} If the range is malformed or larger than a /22
+ */
+export function parseCidr(cidr: string): string[] {
+  const [base, bits] = cidr.trim().split("/");
+  const prefix = Number(bits);
+  if (!isValidIpAddress(base) || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) {
+    throw invalidRange(`${cidr} is not a valid CIDR range`);
+  }
+
+  const size = 2 ** (32 - prefix);
+  const network = toNumber(base) - (toNumber(base) % size);
+  if (size <= 2) {
+    return Array.from({ length: size }, (_, i) => toAddress(network + i));
+  }
+  if (size - 2 > MAX_SCAN_HOSTS) {
+    throw invalidRange(`${cidr} has more than ${MAX_SCAN_HOSTS} addresses, use a /22 or smaller range`);
+  }
+  return Array.from({ length: size - 2 }, (_, i) => toAddress(network + i + 1));
+}
+
+/**
+ * Looks up the IPv4 network of a local interface.
+ * Without a name, the first external IPv4 interface is used.
+ * @param name - Interface name, e.g. en0
+ * @returns The interface's network
+ * @throws {HarmonyError} If the interface does not exist or has no IPv4 address
+ */
+export function getInterfaceNetwork(name?: string): InterfaceNetwork {
+  for (const [ifaceName, addresses] of Object.entries(networkInterfaces())) {
+    if (name && ifaceName !== name) continue;
+    const entry = addresses?.find((a) => a.family === "IPv4" && !a.internal);
+    if (!entry) continue;
+
+    const size = 2 ** 32 - toNumber(entry.netmask);
+    const prefix = 32 - Math.log2(size);
+    const network = toNumber(entry.address) - (toNumber(entry.address) % size);
+    return {
+      name: ifaceName,
+      address: entry.address,
+      cidr: `${toAddress(network)}/${prefix}`,
+      broadcast: toAddress(network + size - 1),
+    };
+  }
+
+  throw new HarmonyError(
+    name ? `Network interface ${name} has no IPv4 address` : "No network interface with an IPv4 address",
+    ErrorCategory.VALIDATION,
+    undefined,
+    undefined,
+    false,
+    "NETWORK_INTERFACE_NOT_FOUND",
+  );
+}
+
+/**
+ * Probes every host in a range for a Harmony Hub.
+ * Addresses that do not answer are skipped.
+ * @param cidr - Range like 192.168.1.0/24
+ * @param options - Port, timeout and progress callback
+ * @returns Promise resolving to the hubs found, one per hubId
+ * @throws {HarmonyError} If the range is malformed or too large
+ */
+export async function scanSubnet(cidr: string, options: ScanOptions = {}): Promise<HarmonyHub[]> {
+  const addresses = parseCidr(cidr);
+  info(`Scanning ${cidr} for hubs`, { hosts: addresses.length });
+
+  const hubs: HarmonyHub[] = [];
+  for (let start = 0; start < addresses.length; start += SCAN_CONCURRENCY) {
+    const batch = addresses.slice(start, start + SCAN_CONCURRENCY);
+    const results = await Promise.allSettled(
+      batch.map((ip) => probeHub(ip, { port: options.port, timeout: options.timeout ?? SCAN_PROBE_TIMEOUT })),
+    );
+    for (const result of results) {
+      if (result.status === "fulfilled" && !hubs.some((h) => h.hubId === result.value.hubId)) {
+        hubs.push(result.value);
+      }
+    }
+    options.onProgress?.(start + batch.length, addresses.length);
+  }
+
+  debug(`Scan of ${cidr} finished`, { found: hubs.length });
+  return hubs;
+}
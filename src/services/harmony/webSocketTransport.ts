@@ -0,0 +1,293 @@
+/**
+ * WebSocket transport for the Harmony Hub protocol.
+ * Correlates responses with their requests by ID, bounds every request by a timeout,
+ * keeps the socket alive with heartbeats and reports connection status changes.
+ * @module
+ */
+
+import { EventEmitter } from "events";
+
+import { v4 as uuidv4 } from "uuid";
+import { WebSocket } from "ws";
+
+import { HarmonyError, ErrorCategory } from "../../types/core/errors";
+import {
+  HubFrame,
+  HubRequestFrame,
+  QueuedMessage,
+  WebSocketConnectionStatus,
+  WebSocketResponse,
+  WebSocketTransportEvents,
+} from "../../types/core/websocket";
+import { createTimeoutError } from "../../utils/timeout";
+import { debug, warn } from "../logger";
+
+/** Interval between heartbeats; the hub drops connections idle for a minute */
+const HEARTBEAT_INTERVAL = 55000;
+/** Time the hub may take to answer, sent along with every request, in seconds */
+const HUB_REQUEST_TIMEOUT = 30;
+/** Status code of a successful response */
+const SUCCESS_CODE = 200;
+
+/**
+ * Options for a WebSocket transport
+ * @interface WebSocketTransportOptions
+ */
+export interface WebSocketTransportOptions {
+  /** Remote ID of the hub, sent with every request */
+  remoteId: string;
+  /** Time to wait for a response in milliseconds */
+  messageTimeout: number;
+}
+
+/**
+ * Request waiting for its response
+ * @interface PendingMessage
+ */
+interface PendingMessage extends QueuedMessage<unknown> {
+  /** Command the request was sent with */
+  readonly cmd: string;
+  /** Timer rejecting the request when it runs out of time */
+  readonly timer: NodeJS.Timeout;
+}
+
+/**
+ * WebSocket connection to a single hub.
+ * Emits "status" on connection status changes and "notification" for frames the hub pushes.
+ */
+export class WebSocketTransport {
+  /** Underlying socket, null until opened */
+  private socket: WebSocket | null = null;
+  /** Current connection status */
+  private currentStatus = WebSocketConnectionStatus.DISCONNECTED;
+  /** Requests waiting for a response, keyed by request ID */
+  private readonly pending = new Map<string, PendingMessage>();
+  /** Heartbeat timer while connected */
+  private heartbeat: NodeJS.Timeout | null = null;
+  /** Event emitter for transport events */
+  private readonly events = new EventEmitter();
+
+  /**
+   * Creates a new WebSocketTransport
+   * @param url - WebSocket URL of the hub
+   * @param options - Remote ID and timeouts
+   */
+  constructor(
+    private readonly url: string,
+    private readonly options: WebSocketTransportOptions,
+  ) {}
+
+  /**
+   * Current connection status
+   */
+  public get status(): WebSocketConnectionStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Subscribes to a transport event
+   * @param event - Event name
+   * @param listener - Listener called with the event arguments
+   * @returns Function that removes the listener
+   */
+  public on<K extends keyof WebSocketTransportEvents>(event: K, listener: WebSocketTransportEvents[K]): () => void {
+    this.events.on(event, listener);
+    return () => {
+      this.events.off(event, listener);
+    };
+  }
+
+  /**
+   * Opens the connection
+   * @throws {HarmonyError} If the socket cannot be opened
+   */
+  public async open(): Promise<void> {
+    if (this.socket) {
+      return;
+    }
+
+    this.setStatus(WebSocketConnectionStatus.CONNECTING);
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on("message", (raw) => this.handleMessage(raw.toString()));
+    socket.on("close", () => this.handleClose());
+
+    await new Promise<void>((resolve, reject) => {
+      socket.once("open", () => resolve());
+      socket.once("error", (err) => {
+        reject(new HarmonyError("Failed to open WebSocket connection", ErrorCategory.CONNECTION, err, undefined, true));
+      });
+    });
+
+    // Errors after opening surface as a close; only report them here
+    socket.on("error", (err) => {
+      warn("WebSocket error", { url: this.url, error: err });
+      if (this.events.listenerCount("error") > 0) {
+        this.events.emit("error", err);
+      }
+    });
+
+    this.heartbeat = setInterval(() => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send("");
+      }
+    }, HEARTBEAT_INTERVAL);
+    this.setStatus(WebSocketConnectionStatus.CONNECTED);
+  }
+
+  /**
+   * Sends a request and waits for the hub's response
+   * @param cmd - Hub command
+   * @param params - Command parameters
+   * @param timeout - Time to wait in milliseconds, defaults to the message timeout
+   * @returns Response correlated by request ID
+   * @throws {HarmonyError} If the connection is not open, closes, or the hub does not answer in time
+   */
+  public request<T>(
+    cmd: string,
+    params: Record<string, unknown> = {},
+    timeout = this.options.messageTimeout,
+  ): Promise<WebSocketResponse<T>> {
+    return new Promise<WebSocketResponse<T>>((resolve, reject) => {
+      const id = uuidv4();
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(createTimeoutError(`Hub did not answer ${cmd} within ${timeout}ms`, timeout));
+      }, timeout);
+
+      this.pending.set(id, {
+        id,
+        cmd,
+        timer,
+        timestamp: Date.now(),
+        resolve: resolve as (value: WebSocketResponse<unknown>) => void,
+        reject,
+      });
+
+      try {
+        this.write(cmd, id, params);
+      } catch (err) {
+        clearTimeout(timer);
+        this.pending.delete(id);
+        reject(err);
+      }
+    });
+  }
+
+  /**
+   * Sends a request the hub does not answer, like a button press
+   * @param cmd - Hub command
+   * @param params - Command parameters
+   * @throws {HarmonyError} If the connection is not open
+   */
+  public send(cmd: string, params: Record<string, unknown> = {}): void {
+    this.write(cmd, uuidv4(), params);
+  }
+
+  /**
+   * Closes the connection, failing every request still waiting for a response
+   */
+  public async close(): Promise<void> {
+    const socket = this.socket;
+    if (!socket || socket.readyState === WebSocket.CLOSED) {
+      this.handleClose();
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      socket.once("close", () => resolve());
+      socket.close();
+    });
+  }
+
+  /**
+   * Serializes a request frame onto the socket
+   * @private
+   */
+  private write(cmd: string, id: string, params: Record<string, unknown>): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new HarmonyError("WebSocket connection is not open", ErrorCategory.CONNECTION);
+    }
+
+    const frame: HubRequestFrame = {
+      hubId: this.options.remoteId,
+      timeout: HUB_REQUEST_TIMEOUT,
+      hbus: { cmd, id, params },
+    };
+    debug("Sending hub request", { cmd, id });
+    this.socket.send(JSON.stringify(frame));
+  }
+
+  /**
+   * Routes a frame from the hub to its pending request or to notification listeners
+   * @private
+   */
+  private handleMessage(raw: string): void {
+    // Ignore empty keep-alive frames
+    if (!raw.trim()) {
+      return;
+    }
+
+    let frame: HubFrame;
+    try {
+      frame = JSON.parse(raw) as HubFrame;
+    } catch (err) {
+      warn("Received invalid JSON from hub", { raw });
+      return;
+    }
+
+    const pending = frame.id !== undefined ? this.pending.get(String(frame.id)) : undefined;
+    if (pending) {
+      clearTimeout(pending.timer);
+      this.pending.delete(pending.id);
+      const success = Number(frame.code) === SUCCESS_CODE;
+      debug("Received hub response", { cmd: pending.cmd, id: pending.id, code: frame.code });
+      pending.resolve({
+        id: pending.id,
+        status: success ? "success" : "error",
+        data: frame.data,
+        error: success ? undefined : (frame.msg ?? `Hub answered with code ${frame.code}`),
+      });
+      return;
+    }
+
+    if (frame.type) {
+      this.events.emit("notification", frame.type, frame.data);
+    }
+  }
+
+  /**
+   * Tears down the connection state once the socket has closed
+   * @private
+   */
+  private handleClose(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.socket = null;
+
+    const closed = new HarmonyError("WebSocket connection closed", ErrorCategory.CONNECTION);
+    this.pending.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(closed);
+    });
+    this.pending.clear();
+
+    this.setStatus(WebSocketConnectionStatus.DISCONNECTED);
+  }
+
+  /**
+   * Records a status change and notifies listeners
+   * @private
+   */
+  private setStatus(status: WebSocketConnectionStatus): void {
+    if (status === this.currentStatus) {
+      return;
+    }
+    debug("WebSocket status changed", { url: this.url, from: this.currentStatus, to: status });
+    this.currentStatus = status;
+    this.events.emit("status", status);
+  }
+}
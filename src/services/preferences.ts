@@ -0,0 +1,225 @@
+/**
+ * Extension preferences.
+ * Parses and validates the Raycast preferences once and hands out a typed config.
+ * Invalid values fall back to their defaults and are reported in a toast.
+ * @module
+ */
+
+import { getPreferenceValues, openExtensionPreferences, showToast, Toast } from "@raycast/api";
+
+import { TimeoutConfig } from "../types/core/command";
+import { HarmonyError } from "../types/core/errors";
+import { LogLevel } from "../types/core/logging";
+import { HarmonyPreferences, Preferences } from "../types/core/preferences";
+import {
+  validateActivityTimeout,
+  validateAutoConnect,
+  validateBooleanPreference,
+  validateCommandDisplayMode,
+  validateCommandGridColumns,
+  validateCommandTimeout,
+  validateDefaultView,
+  validateDiscoveryTimeout,
+  validateIpAddressPreference,
+  validateNumericPreference,
+} from "../utils/validation";
+
+import { debug, setMinLevel, warn } from "./logger";
+
+/** Values used when a preference is empty or invalid, matching the defaults in package.json */
+export const DEFAULT_PREFERENCES: HarmonyPreferences = {
+  defaultView: "devices",
+  commandHoldTime: 100,
+  debugMode: false,
+  autoRetry: true,
+  maxRetries: 3,
+  autoConnect: true,
+  commandDisplayMode: "list",
+  commandGridColumns: 4,
+  commandTimeout: 5000,
+  activityTimeout: 10000,
+  networkTimeout: 3000,
+  messageTimeout: 10000,
+  cacheDuration: 86400,
+  discoveryTimeout: 5000,
+  discoveryCompleteDelay: 500,
+  discoveryPort: 5222,
+  subnetScan: false,
+};
+
+/** Turns a raw value into a preference value, throwing a HarmonyError if it is invalid */
+type PreferenceParser<T> = (value: unknown) => T;
+
+/**
+ * Builds a parser for a numeric text field
+ * @param validate - Validator for the parsed number
+ */
+function numeric(validate: (value: unknown) => asserts value is number): PreferenceParser<number> {
+  return (value) => {
+    const parsed = typeof value === "string" ? Number(value.trim()) : value;
+    validate(parsed);
+    return parsed;
+  };
+}
+
+/**
+ * Builds a parser for a numeric text field within a range
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @param name - Name of the preference for error messages
+ */
+function range(min: number, max: number, name: string): PreferenceParser<number> {
+  return numeric((value) => validateNumericPreference(value, min, max, name));
+}
+
+/**
+ * Builds a parser for a checkbox
+ * @param name - Name of the preference for error messages
+ */
+function checkbox(name: string): PreferenceParser<boolean> {
+  return (value) => {
+    validateBooleanPreference(value, name);
+    return value;
+  };
+}
+
+/**
+ * Parses an optional text field, trimming whitespace
+ * @param value - Raw value
+ */
+function text(value: unknown): string | undefined {
+  return typeof value === "string" ? value.trim() || undefined : undefined;
+}
+
+/** Parser for every preference */
+const PARSERS: { [K in keyof Required<HarmonyPreferences>]: PreferenceParser<HarmonyPreferences[K]> } = {
+  defaultView: (value) => {
+    validateDefaultView(value);
+    return value as HarmonyPreferences["defaultView"];
+  },
+  commandHoldTime: range(10, 5000, "Command hold time"),
+  debugMode: checkbox("Debug mode"),
+  autoRetry: checkbox("Auto retry"),
+  maxRetries: range(0, 10, "Max retries"),
+  autoConnect: (value) => {
+    validateAutoConnect(value);
+    return value;
+  },
+  commandDisplayMode: (value) => {
+    validateCommandDisplayMode(value);
+    return value as HarmonyPreferences["commandDisplayMode"];
+  },
+  commandGridColumns: numeric(validateCommandGridColumns),
+  commandTimeout: numeric(validateCommandTimeout),
+  activityTimeout: numeric(validateActivityTimeout),
+  networkTimeout: range(500, 30000, "Network timeout"),
+  messageTimeout: range(1000, 60000, "Message timeout"),
+  cacheDuration: range(60, 30 * 24 * 60 * 60, "Cache duration"),
+  discoveryTimeout: numeric(validateDiscoveryTimeout),
+  discoveryCompleteDelay: range(100, 10000, "Discovery complete delay"),
+  discoveryPort: range(1, 65535, "Discovery port"),
+  discoveryBroadcastAddress: (value) => {
+    const address = text(value);
+    if (address !== undefined) {
+      validateIpAddressPreference(address, "Broadcast address");
+    }
+    return address;
+  },
+  discoveryInterface: text,
+  subnetScan: checkbox("Subnet scan"),
+  scanRange: text,
+};
+
+/** Preferences being assembled while parsing */
+type ParsedPreferences = { -readonly [K in keyof HarmonyPreferences]: HarmonyPreferences[K] };
+
+/**
+ * Parses one preference into the preferences being assembled
+ * @param parsed - Preferences parsed so far
+ * @param key - Preference to parse
+ * @param value - Raw value
+ * @throws {HarmonyError} If the value is invalid
+ */
+function parsePreference<K extends keyof HarmonyPreferences>(parsed: ParsedPreferences, key: K, value: unknown): void {
+  parsed[key] = PARSERS[key](value);
+}
+
+/** Preferences parsed on first use */
+let preferences: HarmonyPreferences | null = null;
+
+/**
+ * Parses every preference, replacing empty values with defaults.
+ * Invalid values are replaced with defaults too and reported in a toast.
+ * @returns Parsed preferences
+ */
+function loadPreferences(): HarmonyPreferences {
+  const raw: Partial<Preferences> = getPreferenceValues<Partial<Preferences>>();
+  const problems: string[] = [];
+  const parsed: ParsedPreferences = { ...DEFAULT_PREFERENCES };
+
+  for (const key of Object.keys(PARSERS) as (keyof HarmonyPreferences)[]) {
+    const value = raw[key];
+    if (value === undefined || value === "") continue;
+    try {
+      parsePreference(parsed, key, value);
+    } catch (err) {
+      if (!(err instanceof HarmonyError)) throw err;
+      warn(`Invalid preference ${key}, using the default`, { value, default: DEFAULT_PREFERENCES[key] });
+      problems.push(err.message);
+    }
+  }
+
+  if (problems.length > 0) {
+    showToast({
+      style: Toast.Style.Failure,
+      title: problems.length === 1 ? "Invalid preference" : `${problems.length} invalid preferences`,
+      message: `${problems.join(". ")}. Using the defaults instead.`,
+      primaryAction: {
+        title: "Open Preferences",
+        onAction: () => openExtensionPreferences(),
+      },
+    });
+  }
+
+  const result: HarmonyPreferences = parsed;
+  if (result.debugMode) {
+    setMinLevel(LogLevel.DEBUG);
+  }
+  debug("Loaded preferences", result);
+  return result;
+}
+
+/**
+ * Returns the parsed preferences, parsing them on first use
+ * @returns Typed and validated preferences
+ */
+export function getPreferences(): HarmonyPreferences {
+  if (!preferences) {
+    preferences = loadPreferences();
+  }
+  return preferences;
+}
+
+/**
+ * Forgets the parsed preferences so the next read parses them again
+ */
+export function resetPreferences(): void {
+  preferences = null;
+}
+
+/**
+ * Returns the time limits for hub operations, taken from the preferences
+ * @returns Timeouts in milliseconds
+ */
+export function getTimeoutConfig(): TimeoutConfig {
+  const { networkTimeout, messageTimeout, activityTimeout, commandTimeout, discoveryTimeout, cacheDuration } =
+    getPreferences();
+  return {
+    connection: networkTimeout,
+    message: messageTimeout,
+    activity: activityTimeout,
+    command: commandTimeout,
+    discovery: discoveryTimeout,
+    cache: cacheDuration * 1000,
+  };
+}
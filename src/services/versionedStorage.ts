@@ -0,0 +1,214 @@
+/**
+ * Versioned storage on top of LocalStorage.
+ * Every persisted key registers a schema with its current version, the migrations from older versions
+ * and a validator. Reads migrate old payloads and validate them; payloads that cannot be read are moved
+ * aside to a quarantine key instead of failing the caller.
+ * @module
+ */
+
+import { HarmonyError, ErrorCategory } from "../types/core/errors";
+
+import { LocalStorage } from "./localStorage";
+import { debug, info, warn } from "./logger";
+
+/** Suffix of the key a payload is moved to when it cannot be read */
+const QUARANTINE_SUFFIX = "-quarantined";
+
+/** JSON object stored under a key, without its version */
+export type StoragePayload = Record<string, unknown>;
+
+/** Upgrades a payload from one version to the next */
+export type StorageMigration = (payload: StoragePayload) => StoragePayload;
+
+/**
+ * Schema of a persisted key
+ * @interface StorageSchema
+ */
+export interface StorageSchema<T extends object> {
+  /** Key the payload is stored under, or the prefix of a family of keys such as one per hub */
+  readonly key: string;
+  /** Version written with every payload */
+  readonly version: number;
+  /** Migrations keyed by the version they upgrade from; payloads written without a version are version 0 */
+  readonly migrations?: Readonly<Record<number, StorageMigration>>;
+  /** Checks a payload of the current version */
+  readonly validate: (payload: unknown) => payload is T;
+}
+
+/**
+ * Payload moved aside because it could not be read
+ * @interface QuarantinedPayload
+ */
+export interface QuarantinedPayload {
+  /** Payload as it was stored */
+  readonly raw: string;
+  /** Why it could not be read */
+  readonly reason: string;
+  /** When it was moved aside */
+  readonly quarantinedAt: number;
+}
+
+/**
+ * Storage key a payload that cannot be read is moved to
+ * @param key - Key the payload was stored under
+ */
+export function quarantineKey(key: string): string {
+  return `${key}${QUARANTINE_SUFFIX}`;
+}
+
+/**
+ * Reads and writes the payloads of one registered schema.
+ * Payloads are stored as JSON objects with a "version" field next to their own fields.
+ */
+export class VersionedStorage<T extends object> {
+  /** Registered schemas by key */
+  private static readonly registry = new Map<string, StorageSchema<object>>();
+
+  /**
+   * Creates a new VersionedStorage
+   * @param schema - Schema of the key
+   */
+  private constructor(private readonly schema: StorageSchema<T>) {}
+
+  /**
+   * Registers the schema of a persisted key
+   * @param schema - Schema of the key
+   * @returns Storage for the key
+   * @throws {HarmonyError} If the key already has a schema or its migration chain has gaps
+   */
+  public static register<T extends object>(schema: StorageSchema<T>): VersionedStorage<T> {
+    if (VersionedStorage.registry.has(schema.key)) {
+      throw new HarmonyError(
+        `Storage key ${schema.key} is already registered`,
+        ErrorCategory.STORAGE,
+        undefined,
+        undefined,
+        false,
+        "STORAGE_KEY_REGISTERED",
+      );
+    }
+
+    const versions = Object.keys(schema.migrations ?? {}).map(Number);
+    const oldest = versions.length > 0 ? Math.min(...versions) : schema.version;
+    for (let version = oldest; version < schema.version; version++) {
+      if (!schema.migrations?.[version]) {
+        throw new HarmonyError(
+          `Storage key ${schema.key} has no migration from version ${version}`,
+          ErrorCategory.STORAGE,
+          undefined,
+          undefined,
+          false,
+          "STORAGE_MIGRATION_MISSING",
+        );
+      }
+    }
+
+    VersionedStorage.registry.set(schema.key, schema);
+    return new VersionedStorage(schema);
+  }
+
+  /**
+   * Storage key of a payload
+   * @param id - ID within a family of keys, such as a hub ID
+   */
+  public keyFor(id?: string): string {
+    return id ? `${this.schema.key}-${id}` : this.schema.key;
+  }
+
+  /**
+   * Reads a payload, migrating it to the current version.
+   * Migrated payloads are written back. Payloads that cannot be parsed, migrated or validated are quarantined.
+   * @param id - ID within a family of keys, such as a hub ID
+   * @returns The payload, or null if there is none or it was quarantined
+   */
+  public async read(id?: string): Promise<T | null> {
+    const key = this.keyFor(id);
+    const raw = await LocalStorage.getItem(key);
+    if (!raw) {
+      return null;
+    }
+
+    let stored: unknown;
+    try {
+      stored = JSON.parse(raw);
+    } catch (err) {
+      await this.quarantine(key, raw, "Payload is not valid JSON");
+      return null;
+    }
+    if (typeof stored !== "object" || stored === null || Array.isArray(stored)) {
+      await this.quarantine(key, raw, "Payload is not a JSON object");
+      return null;
+    }
+
+    const { version = 0, ...fields } = stored as StoragePayload;
+    if (typeof version !== "number" || !Number.isInteger(version) || version > this.schema.version) {
+      await this.quarantine(key, raw, `Unsupported version ${String(version)}`);
+      return null;
+    }
+
+    let payload: StoragePayload = fields;
+    for (let from = version; from < this.schema.version; from++) {
+      const migration = this.schema.migrations?.[from];
+      if (!migration) {
+        await this.quarantine(key, raw, `No migration from version ${from}`);
+        return null;
+      }
+      try {
+        payload = migration(payload);
+      } catch (err) {
+        await this.quarantine(key, raw, `Migration from version ${from} failed: ${String(err)}`);
+        return null;
+      }
+    }
+
+    if (!this.schema.validate(payload)) {
+      await this.quarantine(key, raw, `Payload does not match version ${this.schema.version}`);
+      return null;
+    }
+
+    if (version < this.schema.version) {
+      try {
+        await this.write(payload, id);
+        info(`Migrated ${key} from version ${version} to ${this.schema.version}`);
+      } catch (err) {
+        warn(`Failed to write migrated ${key}:`, err);
+      }
+    }
+    return payload;
+  }
+
+  /**
+   * Writes a payload with the current version
+   * @param payload - Payload to store
+   * @param id - ID within a family of keys, such as a hub ID
+   * @throws {Error} If the payload cannot be stored
+   */
+  public async write(payload: T, id?: string): Promise<void> {
+    await LocalStorage.setItem(this.keyFor(id), JSON.stringify({ ...payload, version: this.schema.version }));
+  }
+
+  /**
+   * Removes a payload
+   * @param id - ID within a family of keys, such as a hub ID
+   * @throws {Error} If the payload cannot be removed
+   */
+  public async remove(id?: string): Promise<void> {
+    await LocalStorage.removeItem(this.keyFor(id));
+  }
+
+  /**
+   * Moves a payload that cannot be read aside, replacing any payload quarantined for the key before
+   * @private
+   */
+  private async quarantine(key: string, raw: string, reason: string): Promise<void> {
+    warn(`Quarantining stored ${key}: ${reason}`);
+    const quarantined: QuarantinedPayload = { raw, reason, quarantinedAt: Date.now() };
+    try {
+      await LocalStorage.setItem(quarantineKey(key), JSON.stringify(quarantined));
+      await LocalStorage.removeItem(key);
+      debug(`Moved ${key} to ${quarantineKey(key)}`);
+    } catch (err) {
+      warn(`Failed to quarantine ${key}:`, err);
+    }
+  }
+}
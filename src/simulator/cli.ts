@@ -0,0 +1,103 @@
+/**
+ * Command-line entry point for the local Harmony Hub simulator.
+ * Usage: npm run simulator -- [--fixture path.json] [--host 127.0.0.1] [--port 8088] [--no-discovery] [--verbose]
+ * @module
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+
+import { configure, error, info } from "../services/logger";
+import { LogLevel } from "../types/core/logging";
+
+import { HubSimulator } from "./hubSimulator";
+import { SimulatorFixture } from "./types";
+
+/** Fixture used when none is given on the command line */
+const DEFAULT_FIXTURE = path.join(__dirname, "fixtures", "living-room.json");
+
+/**
+ * Parsed command-line options
+ * @interface CliOptions
+ */
+interface CliOptions {
+  fixture: string;
+  host?: string;
+  port?: number;
+  discovery: boolean;
+  verbose: boolean;
+}
+
+/**
+ * Parses process arguments into simulator options
+ * @param args - Arguments after the script name
+ * @returns Parsed options
+ */
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { fixture: DEFAULT_FIXTURE, discovery: true, verbose: false };
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case "--fixture":
+        options.fixture = path.resolve(args[++i] ?? DEFAULT_FIXTURE);
+        break;
+      case "--host":
+        options.host = args[++i];
+        break;
+      case "--port":
+        options.port = parseInt(args[++i] ?? "", 10);
+        break;
+      case "--no-discovery":
+        options.discovery = false;
+        break;
+      case "--verbose":
+        options.verbose = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Reads and minimally validates a fixture file
+ * @param file - Path to the fixture JSON
+ * @returns Parsed fixture
+ */
+function loadFixture(file: string): SimulatorFixture {
+  const fixture = JSON.parse(readFileSync(file, "utf8")) as SimulatorFixture;
+  if (!fixture.hub?.remoteId || !Array.isArray(fixture.devices) || !Array.isArray(fixture.activities)) {
+    throw new Error(`Invalid simulator fixture: ${file}`);
+  }
+  return fixture;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  configure({ minLevel: options.verbose ? LogLevel.DEBUG : LogLevel.INFO });
+
+  const fixture = loadFixture(options.fixture);
+  const simulator = new HubSimulator(fixture, {
+    host: options.host,
+    port: options.port,
+    discoveryPort: options.discovery ? undefined : 0,
+  });
+
+  const port = await simulator.start();
+  info(
+    `Serving ${fixture.devices.length} devices and ${fixture.activities.length} activities from ${options.fixture} on port ${port}`,
+  );
+
+  const shutdown = async (): Promise<void> => {
+    await simulator.stop();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((err) => {
+  error("Simulator failed to start", { error: err instanceof Error ? err.message : String(err) });
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+/**
+ * Answers Harmony discovery broadcasts on behalf of a simulated hub.
+ * Mirrors the reverse-bonjour handshake used by @harmonyhub/discover's Explorer.
+ * @module
+ */
+
+import dgram from "dgram";
+import net from "net";
+
+import { debug, error, info } from "../services/logger";
+
+import { SimulatedHubInfo } from "./types";
+
+/** Prefix of the UDP ping sent by Explorer */
+const PING_PREFIX = "_logitech-reverse-bonjour._tcp.local.";
+
+/**
+ * Serializes hub info into the "key:value;key:value" format the Explorer parses
+ * @param hub - Hub identity to announce
+ * @param port - Port the hub's WebSocket server listens on
+ * @returns Serialized hub info
+ */
+export function serializeHubInfo(hub: SimulatedHubInfo, port: number): string {
+  const pairs: Record<string, string> = {
+    uuid: hub.uuid,
+    ip: hub.ip,
+    friendlyName: hub.friendlyName,
+    hubId: hub.hubId,
+    remoteId: hub.remoteId,
+    current_fw_version: hub.current_fw_version,
+    productId: hub.productId,
+    protocolVersion: hub.protocolVersion,
+    port: String(port),
+  };
+  return Object.entries(pairs)
+    .map(([key, value]) => `${key}:${value}`)
+    .join(";");
+}
+
+/**
+ * Listens for discovery pings and connects back to the announced TCP port
+ * with the simulated hub's details.
+ */
+export class DiscoveryResponder {
+  /** UDP socket receiving pings */
+  private socket: dgram.Socket | null = null;
+
+  /**
+   * Creates a new DiscoveryResponder
+   * @param hub - Hub identity to announce
+   * @param hubPort - Port of the simulated hub's WebSocket server
+   * @param discoveryPort - UDP port to listen on for pings
+   */
+  constructor(
+    private readonly hub: SimulatedHubInfo,
+    private readonly hubPort: number,
+    private readonly discoveryPort: number,
+  ) {}
+
+  /**
+   * Starts listening for discovery pings
+   * @returns Promise resolving once the socket is bound
+   */
+  public start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = dgram.createSocket({ type: "udp4", reuseAddr: true });
+      this.socket = socket;
+
+      socket.on("message", (message, remote) => this.handlePing(message.toString(), remote.address));
+      socket.once("error", (err) => {
+        error("Discovery responder error", { error: err.message });
+        reject(err);
+      });
+      socket.bind(this.discoveryPort, () => {
+        info(`Simulator answering discovery on UDP ${this.discoveryPort}`);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * Stops listening for discovery pings
+   */
+  public stop(): void {
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  /**
+   * Handles a single ping by connecting back to the sender
+   * @param message - Raw ping payload
+   * @param address - Address of the sender
+   * @private
+   */
+  private handlePing(message: string, address: string): void {
+    const [prefix, portText] = message.split("\n");
+    const port = parseInt(portText ?? "", 10);
+    if (prefix !== PING_PREFIX || isNaN(port)) {
+      debug("Ignoring unexpected discovery message", { message });
+      return;
+    }
+
+    debug(`Answering discovery ping from ${address}:${port}`);
+    const client = net.connect(port, address, () => {
+      client.end(serializeHubInfo(this.hub, this.hubPort));
+    });
+    client.on("error", (err) => {
+      error("Failed to answer discovery ping", { address, port, error: err.message });
+    });
+  }
+}
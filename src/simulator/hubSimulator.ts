@@ -0,0 +1,380 @@
+/**
+ * Local Harmony Hub simulator for offline development and tests.
+ * Speaks the HTTP provisioning and WebSocket protocol spoken by real hubs
+ * and answers the discovery broadcast used by @harmonyhub/discover.
+ * @module
+ */
+
+import { EventEmitter } from "events";
+import http from "http";
+import { AddressInfo } from "net";
+
+import { WebSocket, WebSocketServer } from "ws";
+
+import { debug, error, info, warn } from "../services/logger";
+
+import { DiscoveryResponder } from "./discoveryResponder";
+import { HubSimulatorOptions, SimulatedCommandEvent, SimulatorFixture } from "./types";
+
+/** Default port used by real hubs */
+const DEFAULT_PORT = 8088;
+/** Default UDP port Explorer pings */
+const DEFAULT_DISCOVERY_PORT = 5224;
+/** Default simulated activity transition time */
+const DEFAULT_TRANSITION_DELAY = 500;
+/** Activity ID the hub uses for "everything off" */
+const POWER_OFF_ID = "-1";
+
+/**
+ * Hub commands understood by the simulator
+ */
+const HubCommands = {
+  STATE_DIGEST: "vnd.logitech.connect/vnd.logitech.statedigest?get",
+  CURRENT_ACTIVITY: "vnd.logitech.harmony/vnd.logitech.harmony.engine?getCurrentActivity",
+  CONFIG: "vnd.logitech.harmony/vnd.logitech.harmony.engine?config",
+  RUN_ACTIVITY: "harmony.activityengine?runactivity",
+  HOLD_ACTION: "harmony.engine?holdAction",
+  RELEASE_ACTION: "harmony.engine?releaseAction",
+} as const;
+
+/** Notification type used for state digests */
+const STATE_DIGEST_NOTIFY = "connect.stateDigest?notify";
+
+/**
+ * Activity status values reported in state digests
+ */
+enum ActivityStatus {
+  HUB_IS_OFF = 0,
+  ACTIVITY_STARTING = 1,
+  ACTIVITY_STARTED = 2,
+  HUB_TURNING_OFF = 3,
+}
+
+/**
+ * Shape of a request sent over the WebSocket by clients
+ * @interface HubRequest
+ */
+interface HubRequest {
+  hubId?: string;
+  timeout?: number;
+  hbus?: {
+    cmd?: string;
+    id?: string | number;
+    params?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Simulated Harmony Hub.
+ * Emits "command" for every hold/release action and "activity" when the running activity changes.
+ */
+export class HubSimulator extends EventEmitter {
+  /** HTTP server handling provisioning and WebSocket upgrades */
+  private server: http.Server | null = null;
+  /** WebSocket server for hub protocol traffic */
+  private wss: WebSocketServer | null = null;
+  /** Discovery broadcast responder */
+  private discovery: DiscoveryResponder | null = null;
+  /** Currently running activity ID */
+  private currentActivityId: string;
+  /** Incremented whenever the configuration changes */
+  private configVersion = 1;
+  /** Pending activity transition timer */
+  private transitionTimer: NodeJS.Timeout | null = null;
+  /** Every command received since start */
+  private readonly commandLog: SimulatedCommandEvent[] = [];
+  /** Resolved options */
+  private readonly options: Required<HubSimulatorOptions>;
+
+  /**
+   * Creates a new HubSimulator
+   * @param fixture - Devices, activities and hub identity to serve
+   * @param options - Network and timing options
+   */
+  constructor(
+    private fixture: SimulatorFixture,
+    options: HubSimulatorOptions = {},
+  ) {
+    super();
+    this.currentActivityId = fixture.currentActivityId ?? POWER_OFF_ID;
+    this.options = {
+      host: options.host ?? fixture.hub.ip,
+      port: options.port ?? DEFAULT_PORT,
+      discoveryPort: options.discoveryPort ?? DEFAULT_DISCOVERY_PORT,
+      activityTransitionDelay: options.activityTransitionDelay ?? DEFAULT_TRANSITION_DELAY,
+    };
+  }
+
+  /**
+   * Starts the HTTP/WebSocket server and, unless disabled, the discovery responder
+   * @returns The port the hub server is listening on
+   */
+  public async start(): Promise<number> {
+    const server = http.createServer((req, res) => this.handleHttp(req, res));
+    const wss = new WebSocketServer({ server });
+    wss.on("connection", (socket) => this.handleConnection(socket));
+    this.server = server;
+    this.wss = wss;
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    const port = (server.address() as AddressInfo).port;
+    info(`Simulated hub ${this.fixture.hub.friendlyName} listening on ${this.options.host}:${port}`);
+
+    if (this.options.discoveryPort > 0) {
+      this.discovery = new DiscoveryResponder(this.fixture.hub, port, this.options.discoveryPort);
+      await this.discovery.start();
+    }
+
+    return port;
+  }
+
+  /**
+   * Stops all servers and closes open client connections
+   */
+  public async stop(): Promise<void> {
+    if (this.transitionTimer) {
+      clearTimeout(this.transitionTimer);
+      this.transitionTimer = null;
+    }
+    this.discovery?.stop();
+    this.discovery = null;
+
+    this.wss?.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => (this.wss ? this.wss.close(() => resolve()) : resolve()));
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.wss = null;
+    this.server = null;
+    info("Simulated hub stopped");
+  }
+
+  /**
+   * Gets the currently running activity ID ("-1" when off)
+   */
+  public getCurrentActivityId(): string {
+    return this.currentActivityId;
+  }
+
+  /**
+   * Gets every command received since start
+   */
+  public getCommandLog(): readonly SimulatedCommandEvent[] {
+    return [...this.commandLog];
+  }
+
+  /**
+   * Replaces the served configuration and notifies connected clients,
+   * as if the user had edited the setup in the Harmony app.
+   * @param fixture - New fixture to serve
+   */
+  public updateFixture(fixture: SimulatorFixture): void {
+    this.fixture = fixture;
+    this.configVersion++;
+    this.broadcastStateDigest(this.currentActivityId, this.statusFor(this.currentActivityId));
+  }
+
+  /**
+   * Changes the activity as if it had been switched with the physical remote
+   * @param activityId - Activity to start, or "-1" to power off
+   */
+  public setCurrentActivity(activityId: string): void {
+    this.runActivity(activityId);
+  }
+
+  /**
+   * Handles the HTTP provisioning request clients make to learn the remote ID
+   * @private
+   */
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      debug("Simulator received HTTP request", { url: req.url, body });
+      const { hub } = this.fixture;
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          cmd: "setup.account?getProvisionInfo",
+          code: 200,
+          msg: "OK",
+          data: {
+            remoteId: hub.remoteId,
+            activeRemoteId: hub.remoteId,
+            friendlyName: hub.friendlyName,
+            hubId: hub.hubId,
+            uuid: hub.uuid,
+            current_fw_version: hub.current_fw_version,
+            productId: hub.productId,
+            protocolVersion: hub.protocolVersion,
+          },
+        }),
+      );
+    });
+  }
+
+  /**
+   * Wires up a newly connected WebSocket client
+   * @private
+   */
+  private handleConnection(socket: WebSocket): void {
+    info("Client connected to simulated hub");
+    socket.on("message", (raw) => this.handleMessage(socket, raw.toString()));
+    socket.on("close", () => debug("Client disconnected from simulated hub"));
+  }
+
+  /**
+   * Dispatches a single protocol message
+   * @private
+   */
+  private handleMessage(socket: WebSocket, raw: string): void {
+    // Clients send an empty string as heartbeat
+    if (!raw.trim()) {
+      return;
+    }
+
+    let request: HubRequest;
+    try {
+      request = JSON.parse(raw) as HubRequest;
+    } catch (err) {
+      warn("Simulator received invalid JSON", { raw });
+      return;
+    }
+
+    const cmd = request.hbus?.cmd ?? "";
+    const id = request.hbus?.id;
+    const params = request.hbus?.params ?? {};
+    debug("Simulator received command", { cmd, id });
+
+    switch (cmd) {
+      case HubCommands.STATE_DIGEST:
+        this.reply(
+          socket,
+          cmd,
+          id,
+          this.buildStateDigest(this.currentActivityId, this.statusFor(this.currentActivityId)),
+        );
+        break;
+      case HubCommands.CURRENT_ACTIVITY:
+        this.reply(socket, cmd, id, { result: this.currentActivityId });
+        break;
+      case HubCommands.CONFIG:
+        this.reply(socket, cmd, id, { activity: this.fixture.activities, device: this.fixture.devices });
+        break;
+      case HubCommands.RUN_ACTIVITY:
+        this.reply(socket, cmd, id, {});
+        this.runActivity(String(params.activityId ?? POWER_OFF_ID));
+        break;
+      case HubCommands.HOLD_ACTION:
+      case HubCommands.RELEASE_ACTION:
+        this.recordCommand(cmd, params);
+        break;
+      default:
+        warn("Simulator received unsupported command", { cmd });
+        this.reply(socket, cmd, id, {}, 400, "Unsupported command");
+    }
+  }
+
+  /**
+   * Sends a response correlated with the request ID
+   * @private
+   */
+  private reply(
+    socket: WebSocket,
+    cmd: string,
+    id: string | number | undefined,
+    data: unknown,
+    code = 200,
+    msg = "OK",
+  ): void {
+    socket.send(JSON.stringify({ cmd, code, id, msg, data }));
+  }
+
+  /**
+   * Records a hold/release action and emits it to listeners
+   * @private
+   */
+  private recordCommand(cmd: string, params: Record<string, unknown>): void {
+    let payload: Record<string, unknown> = {};
+    try {
+      payload = typeof params.action === "string" ? JSON.parse(params.action) : {};
+    } catch (err) {
+      error("Simulator could not decode action", { action: params.action });
+    }
+
+    const event: SimulatedCommandEvent = {
+      action: cmd.split("?")[1] ?? cmd,
+      status: String(params.status ?? ""),
+      payload,
+      timestamp: Date.now(),
+    };
+    this.commandLog.push(event);
+    info(`Simulated hub received ${event.action} (${event.status})`, payload);
+    this.emit("command", event);
+  }
+
+  /**
+   * Starts an activity (or powers off) with a starting/started digest pair
+   * @private
+   */
+  private runActivity(activityId: string): void {
+    if (activityId !== POWER_OFF_ID && !this.fixture.activities.some((a) => a.id === activityId)) {
+      warn(`Simulator asked to start unknown activity ${activityId}`);
+      return;
+    }
+
+    if (this.transitionTimer) {
+      clearTimeout(this.transitionTimer);
+    }
+
+    const isOff = activityId === POWER_OFF_ID;
+    this.broadcastStateDigest(activityId, isOff ? ActivityStatus.HUB_TURNING_OFF : ActivityStatus.ACTIVITY_STARTING);
+
+    this.transitionTimer = setTimeout(() => {
+      this.transitionTimer = null;
+      this.currentActivityId = activityId;
+      this.broadcastStateDigest(activityId, this.statusFor(activityId));
+      this.emit("activity", activityId);
+    }, this.options.activityTransitionDelay);
+  }
+
+  /**
+   * Gets the settled status for an activity
+   * @private
+   */
+  private statusFor(activityId: string): ActivityStatus {
+    return activityId === POWER_OFF_ID ? ActivityStatus.HUB_IS_OFF : ActivityStatus.ACTIVITY_STARTED;
+  }
+
+  /**
+   * Builds a state digest payload
+   * @private
+   */
+  private buildStateDigest(activityId: string, activityStatus: ActivityStatus): Record<string, unknown> {
+    return {
+      activityId,
+      activityStatus,
+      runningActivityList: activityId === POWER_OFF_ID ? "" : activityId,
+      configVersion: this.configVersion,
+      contentVersion: this.configVersion,
+      stateVersion: Date.now(),
+      hubSwVersion: this.fixture.hub.current_fw_version,
+      errorCode: "200",
+      time: Math.floor(Date.now() / 1000),
+    };
+  }
+
+  /**
+   * Sends a state digest notification to every connected client
+   * @private
+   */
+  private broadcastStateDigest(activityId: string, status: ActivityStatus): void {
+    const message = JSON.stringify({ type: STATE_DIGEST_NOTIFY, data: this.buildStateDigest(activityId, status) });
+    this.wss?.clients.forEach((client) => {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(message);
+      }
+    });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Type definitions for the local Harmony Hub simulator
+ * @module
+ */
+
+/**
+ * A single function on a control group, in the shape the hub reports it
+ * @interface SimulatedFunction
+ */
+export interface SimulatedFunction {
+  /** Function name (e.g., "VolumeUp") */
+  readonly name: string;
+  /** Display label */
+  readonly label: string;
+  /** Encoded action JSON sent back by clients in holdAction/releaseAction */
+  readonly action: string;
+}
+
+/**
+ * A control group on a device or activity
+ * @interface SimulatedControlGroup
+ */
+export interface SimulatedControlGroup {
+  /** Group name (e.g., "Volume", "NavigationDPad") */
+  readonly name: string;
+  /** Functions in this group */
+  readonly function: readonly SimulatedFunction[];
+}
+
+/**
+ * A device in the simulated hub configuration
+ * @interface SimulatedDevice
+ */
+export interface SimulatedDevice {
+  /** Device identifier */
+  readonly id: string;
+  /** Display label */
+  readonly label: string;
+  /** Device type (e.g., "Television") */
+  readonly type: string;
+  /** Control groups exposed by the device */
+  readonly controlGroup: readonly SimulatedControlGroup[];
+  /** Any additional fields are passed through to clients untouched */
+  readonly [key: string]: unknown;
+}
+
+/**
+ * An activity in the simulated hub configuration
+ * @interface SimulatedActivity
+ */
+export interface SimulatedActivity {
+  /** Activity identifier */
+  readonly id: string;
+  /** Display label */
+  readonly label: string;
+  /** Activity type (e.g., "VirtualTelevisionN") */
+  readonly type: string;
+  /** Any additional fields are passed through to clients untouched */
+  readonly [key: string]: unknown;
+}
+
+/**
+ * Hub identity announced during discovery and provisioning
+ * @interface SimulatedHubInfo
+ */
+export interface SimulatedHubInfo {
+  /** Unique identifier for the hub */
+  readonly uuid: string;
+  /** User-friendly name of the hub */
+  readonly friendlyName: string;
+  /** IP address clients should connect to */
+  readonly ip: string;
+  /** Hub ID from Logitech service */
+  readonly hubId: string;
+  /** Remote ID used in the WebSocket URL */
+  readonly remoteId: string;
+  /** Firmware version */
+  readonly current_fw_version: string;
+  /** Product ID of the hub */
+  readonly productId: string;
+  /** Protocol versions supported by the hub */
+  readonly protocolVersion: string;
+}
+
+/**
+ * JSON fixture that drives the simulator
+ * @interface SimulatorFixture
+ */
+export interface SimulatorFixture {
+  /** Hub identity */
+  readonly hub: SimulatedHubInfo;
+  /** Devices configured on the hub */
+  readonly devices: readonly SimulatedDevice[];
+  /** Activities configured on the hub */
+  readonly activities: readonly SimulatedActivity[];
+  /** Activity running when the simulator starts ("-1" when off) */
+  readonly currentActivityId?: string;
+}
+
+/**
+ * Options for starting the simulator
+ * @interface HubSimulatorOptions
+ */
+export interface HubSimulatorOptions {
+  /** Address to bind the HTTP/WebSocket server to */
+  readonly host?: string;
+  /** Port for the HTTP/WebSocket server (real hubs use 8088) */
+  readonly port?: number;
+  /** UDP port to listen on for discovery broadcasts (0 disables discovery) */
+  readonly discoveryPort?: number;
+  /** Simulated time an activity takes to start or stop, in milliseconds */
+  readonly activityTransitionDelay?: number;
+}
+
+/**
+ * A command press or release received by the simulator
+ * @interface SimulatedCommandEvent
+ */
+export interface SimulatedCommandEvent {
+  /** Hub action, "holdAction" or "releaseAction" */
+  readonly action: string;
+  /** Press status reported by the client */
+  readonly status: string;
+  /** Decoded action payload */
+  readonly payload: Record<string, unknown>;
+  /** When the event was received */
+  readonly timestamp: number;
+}
@@ -0,0 +1,31 @@
+import { LaunchProps, showHUD } from "@raycast/api";
+
+import { findByName, loadCachedHub, withHubClient } from "./services/harmony/quickControl";
+import { ToastManager } from "./services/toast";
+
+/**
+ * Arguments declared for the start-activity command
+ * @interface StartActivityArguments
+ */
+interface StartActivityArguments {
+  /** Name or ID of the activity to start */
+  activity: string;
+}
+
+export default async function Command(props: LaunchProps<{ arguments: StartActivityArguments }>): Promise<void> {
+  try {
+    const hub = await loadCachedHub();
+    await ToastManager.loading(`Starting ${props.arguments.activity}...`);
+
+    const activity = await withHubClient(hub, async (client) => {
+      const activities = await client.getActivities();
+      const match = findByName(activities, props.arguments.activity, "activity", (a) => a.name);
+      await client.startActivity(match.id);
+      return match;
+    });
+
+    await showHUD(`Started ${activity.name}`);
+  } catch (err) {
+    await ToastManager.error("Failed to start activity", err instanceof Error ? err.message : String(err));
+  }
+}
@@ -0,0 +1,49 @@
+import { LocalStorage, resetLocalStorage } from "../../__mocks__/raycast-api";
+import { HarmonyError } from "../../types/core/errors";
+import { useFavoritesStore } from "../favorites";
+
+describe("useFavoritesStore", () => {
+  beforeEach(async () => {
+    resetLocalStorage();
+    useFavoritesStore.setState({ hubId: null, favorites: { commands: [], devices: [], activities: [] } });
+  });
+
+  it("stars and unstars items", async () => {
+    await useFavoritesStore.getState().loadFavorites("12345");
+
+    expect(await useFavoritesStore.getState().toggleFavorite("commands", "50000001:Mute")).toBe(true);
+    expect(await useFavoritesStore.getState().toggleFavorite("activities", "30000001")).toBe(true);
+    expect(await useFavoritesStore.getState().toggleFavorite("commands", "50000001:Mute")).toBe(false);
+
+    expect(useFavoritesStore.getState().favorites).toEqual({
+      commands: [],
+      devices: [],
+      activities: ["30000001"],
+    });
+  });
+
+  it("stores favorites per hub", async () => {
+    await useFavoritesStore.getState().loadFavorites("12345");
+    await useFavoritesStore.getState().toggleFavorite("devices", "50000001");
+
+    await useFavoritesStore.getState().loadFavorites("67890");
+    expect(useFavoritesStore.getState().favorites.devices).toEqual([]);
+
+    await useFavoritesStore.getState().loadFavorites("12345");
+    expect(useFavoritesStore.getState().favorites.devices).toEqual(["50000001"]);
+  });
+
+  it("ignores invalid stored favorites", async () => {
+    await LocalStorage.setItem("harmony-favorites-12345", JSON.stringify({ favorites: { commands: "Mute" } }));
+
+    await useFavoritesStore.getState().loadFavorites("12345");
+
+    expect(useFavoritesStore.getState().favorites).toEqual({ commands: [], devices: [], activities: [] });
+  });
+
+  it("requires a hub before starring", async () => {
+    await expect(useFavoritesStore.getState().toggleFavorite("devices", "50000001")).rejects.toBeInstanceOf(
+      HarmonyError,
+    );
+  });
+});
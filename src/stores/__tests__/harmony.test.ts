@@ -0,0 +1,291 @@
+import { resetLocalStorage, showToast } from "../../__mocks__/raycast-api";
+import type * as MockHubConnection from "../../services/harmony/__mocks__/hubConnection";
+import { HarmonyClient } from "../../services/harmony/harmonyClient";
+import { HarmonyManager } from "../../services/harmony/harmonyManager";
+import { LocalStorage } from "../../services/localStorage";
+import fixture from "../../simulator/fixtures/living-room.json";
+import { ErrorCategory, HarmonyError, HarmonyStage } from "../../types/core";
+import { HarmonyHub } from "../../types/core/harmony";
+import { useHarmonyStore } from "../harmony";
+
+jest.mock("../../services/harmony/hubConnection");
+const { createdClients, connectToHub, resetHubConnections } = jest.requireMock<typeof MockHubConnection>(
+  "../../services/harmony/hubConnection",
+);
+
+const hub: HarmonyHub = {
+  id: fixture.hub.uuid,
+  name: fixture.hub.friendlyName,
+  ip: fixture.hub.ip,
+  hubId: fixture.hub.hubId,
+  remoteId: fixture.hub.remoteId,
+  version: fixture.hub.current_fw_version,
+  port: "8088",
+  productId: fixture.hub.productId,
+  protocolVersion: fixture.hub.protocolVersion,
+};
+
+const bedroomHub: HarmonyHub = {
+  ...hub,
+  id: "sim-hub-0002",
+  name: "Bedroom",
+  ip: "127.0.0.2",
+  hubId: "107",
+};
+
+describe("useHarmonyStore", () => {
+  beforeEach(() => {
+    resetLocalStorage();
+    resetHubConnections();
+    useHarmonyStore.getState().reset();
+  });
+
+  afterEach(async () => {
+    jest.useRealTimers();
+    await HarmonyClient.getClient(hub).disconnect();
+    await HarmonyClient.getClient(bedroomHub).disconnect();
+  });
+
+  it("selectHub connects and loads devices and activities", async () => {
+    await useHarmonyStore.getState().selectHub(hub);
+
+    const state = useHarmonyStore.getState();
+    expect(state.selectedHub?.hubId).toBe(hub.hubId);
+    expect(state.devices).toHaveLength(fixture.devices.length);
+    expect(state.activities).toHaveLength(fixture.activities.length);
+    expect(state.currentActivity).toBeNull();
+    expect(state.loadingState.stage).toBe(HarmonyStage.CONNECTED);
+    expect(state.error).toBeNull();
+  });
+
+  it("startActivity marks the started activity as current", async () => {
+    await useHarmonyStore.getState().selectHub(hub);
+    const activity = useHarmonyStore.getState().activities[1];
+    if (!activity) throw new Error("fixture has too few activities");
+
+    await useHarmonyStore.getState().startActivity(activity);
+
+    const state = useHarmonyStore.getState();
+    expect(state.currentActivity?.id).toBe(activity.id);
+    expect(state.activities.filter((a) => a.isCurrent).map((a) => a.id)).toEqual([activity.id]);
+  });
+
+  it("stopActivity clears the current activity", async () => {
+    await useHarmonyStore.getState().selectHub(hub);
+    const activity = useHarmonyStore.getState().activities[0];
+    if (!activity) throw new Error("fixture has no activities");
+    await useHarmonyStore.getState().startActivity(activity);
+
+    await useHarmonyStore.getState().stopActivity(activity);
+
+    expect(useHarmonyStore.getState().currentActivity).toBeNull();
+    expect(createdClients[0]?.turnOff).toHaveBeenCalled();
+  });
+
+  it("follows activity changes made with the physical remote", async () => {
+    await useHarmonyStore.getState().selectHub(hub);
+    const hubClient = createdClients[0];
+    const activityId = fixture.activities[2]?.id ?? "";
+
+    hubClient?.emit("stateDigest", { activityId, activityStatus: 1 });
+    expect(useHarmonyStore.getState().pendingActivityId).toBe(activityId);
+
+    hubClient?.emit("stateDigest", { activityId, activityStatus: 2 });
+    await new Promise(process.nextTick);
+
+    const state = useHarmonyStore.getState();
+    expect(state.pendingActivityId).toBeNull();
+    expect(state.currentActivity?.id).toBe(activityId);
+    expect(state.activities.find((a) => a.id === activityId)?.isCurrent).toBe(true);
+  });
+
+  it("reports reconnection progress through the loading state", async () => {
+    await useHarmonyStore.getState().selectHub(hub);
+    connectToHub.mockImplementationOnce(() => new Promise(() => undefined));
+    jest.useFakeTimers();
+
+    createdClients[0]?.emit("close");
+
+    const { loadingState } = useHarmonyStore.getState();
+    expect(loadingState.stage).toBe(HarmonyStage.RECONNECTING);
+    expect(loadingState.message).toContain("attempt 1 of 5");
+  });
+
+  it("sends rapid commands one after another", async () => {
+    await useHarmonyStore.getState().selectHub(hub);
+    const [mute, volumeUp] = useHarmonyStore.getState().devices[0]?.commands ?? [];
+    if (!mute || !volumeUp) throw new Error("fixture has too few commands");
+
+    await Promise.all([
+      useHarmonyStore.getState().executeCommand(mute),
+      useHarmonyStore.getState().executeCommand(volumeUp),
+    ]);
+
+    const sent = createdClients[0]?.send.mock.calls.map((call: unknown[]) => [
+      call[0],
+      JSON.parse(call[1] as string).command,
+    ]);
+    expect(sent).toEqual([
+      ["holdAction", mute.id],
+      ["releaseAction", mute.id],
+      ["holdAction", volumeUp.id],
+      ["releaseAction", volumeUp.id],
+    ]);
+  });
+
+  it("executeCommand rethrows a STATE error without a hub", async () => {
+    const command = { id: "Mute", name: "Mute", label: "Mute", deviceId: "1" };
+
+    const err = await useHarmonyStore
+      .getState()
+      .executeCommand(command)
+      .catch((e) => e);
+
+    expect(err).toBeInstanceOf(HarmonyError);
+    expect(err.category).toBe(ErrorCategory.STATE);
+    expect(useHarmonyStore.getState().loadingState.stage).toBe(HarmonyStage.ERROR);
+  });
+
+  it("disconnectHub ends the session and clears hub data", async () => {
+    await useHarmonyStore.getState().selectHub(hub);
+
+    await useHarmonyStore.getState().disconnectHub();
+
+    const state = useHarmonyStore.getState();
+    expect(state.selectedHub).toBeNull();
+    expect(state.devices).toEqual([]);
+    expect(createdClients[0]?.end).toHaveBeenCalled();
+  });
+
+  it("records connection failures in the store", async () => {
+    connectToHub.mockRejectedValueOnce(new Error("ECONNREFUSED"));
+
+    await useHarmonyStore.getState().selectHub(hub);
+
+    const state = useHarmonyStore.getState();
+    expect(state.selectedHub).toBeNull();
+    expect(state.loadingState.stage).toBe(HarmonyStage.ERROR);
+    expect((state.error as HarmonyError).category).toBe(ErrorCategory.HUB_COMMUNICATION);
+  });
+
+  describe("with several hubs connected", () => {
+    beforeEach(async () => {
+      await useHarmonyStore.getState().selectHub(hub);
+      await useHarmonyStore.getState().selectHub(bedroomHub);
+    });
+
+    it("keeps a session per hub and combines their devices", () => {
+      const state = useHarmonyStore.getState();
+      expect(Object.keys(state.sessions).sort()).toEqual([hub.hubId, bedroomHub.hubId]);
+      expect(state.selectedHub?.hubId).toBe(bedroomHub.hubId);
+      expect(state.devices).toHaveLength(fixture.devices.length * 2);
+      expect(state.devices.filter((d) => d.hubId === hub.hubId)).toHaveLength(fixture.devices.length);
+      expect(state.devices[0]?.commands[0]?.hubId).toBe(state.devices[0]?.hubId);
+    });
+
+    it("sends commands to the hub that owns them", async () => {
+      const command = useHarmonyStore.getState().devices.find((d) => d.hubId === hub.hubId)?.commands[0];
+      if (!command) throw new Error("fixture has no commands");
+
+      await useHarmonyStore.getState().executeCommand(command);
+
+      expect(createdClients[0]?.send).toHaveBeenCalledWith("holdAction", expect.anything());
+      expect(createdClients[1]?.send).not.toHaveBeenCalled();
+    });
+
+    it("starts an activity without touching the other hub", async () => {
+      const activity = useHarmonyStore.getState().activities.find((a) => a.hubId === hub.hubId);
+      if (!activity) throw new Error("fixture has no activities");
+
+      await useHarmonyStore.getState().startActivity(activity);
+
+      const { sessions } = useHarmonyStore.getState();
+      expect(createdClients[0]?.startActivity).toHaveBeenCalledWith(activity.id);
+      expect(createdClients[1]?.startActivity).not.toHaveBeenCalled();
+      expect(sessions[hub.hubId]?.currentActivity?.id).toBe(activity.id);
+      expect(sessions[bedroomHub.hubId]?.currentActivity).toBeNull();
+    });
+
+    it("disconnecting one hub keeps the other session", async () => {
+      await useHarmonyStore.getState().disconnectHub(bedroomHub.hubId);
+
+      const state = useHarmonyStore.getState();
+      expect(Object.keys(state.sessions)).toEqual([hub.hubId]);
+      expect(state.selectedHub?.hubId).toBe(hub.hubId);
+      expect(state.devices).toHaveLength(fixture.devices.length);
+      expect(createdClients[1]?.end).toHaveBeenCalled();
+      expect(createdClients[0]?.end).not.toHaveBeenCalled();
+    });
+  });
+  describe("starting from the cache", () => {
+    let finishDiscovery: (hubs: HarmonyHub[]) => void;
+
+    beforeEach(async () => {
+      // Cache the hub config, then drop a device so the hub has something new to report
+      await useHarmonyStore.getState().selectHub(hub);
+      await HarmonyClient.getClient(hub).disconnect();
+      useHarmonyStore.getState().reset();
+      const cacheKey = `harmony-config-${hub.hubId}`;
+      const cache = JSON.parse((await LocalStorage.getItem(cacheKey)) ?? "{}");
+      await LocalStorage.setItem(
+        cacheKey,
+        JSON.stringify({ ...cache, devices: cache.devices.slice(1), fingerprint: "0" }),
+      );
+
+      useHarmonyStore.setState({ hubs: [hub], selectedHub: hub });
+      jest
+        .spyOn(HarmonyManager.prototype, "startDiscovery")
+        .mockImplementation(() => new Promise((resolve) => (finishDiscovery = resolve)));
+      showToast.mockClear();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    // Starts discovery and lets the cached sessions appear
+    async function startDiscovery(): Promise<{ discovery: Promise<void> }> {
+      const discovery = useHarmonyStore.getState().discoverHubs();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return { discovery };
+    }
+
+    it("shows the cached devices while discovery runs", async () => {
+      const { discovery } = await startDiscovery();
+
+      const state = useHarmonyStore.getState();
+      expect(state.loadingState.stage).toBe(HarmonyStage.REFRESHING);
+      expect(state.sessions[hub.hubId]?.isStale).toBe(true);
+      expect(state.devices).toHaveLength(fixture.devices.length - 1);
+
+      finishDiscovery([hub]);
+      await discovery;
+    });
+
+    it("replaces the cached devices with the hub's and reports the change", async () => {
+      const { discovery } = await startDiscovery();
+
+      finishDiscovery([hub]);
+      await discovery;
+
+      const state = useHarmonyStore.getState();
+      expect(state.sessions[hub.hubId]?.isStale).toBe(false);
+      expect(state.devices).toHaveLength(fixture.devices.length);
+      expect(showToast).toHaveBeenCalledWith(
+        expect.objectContaining({ title: `${hub.name} was updated`, message: `${fixture.devices[0]?.label} added` }),
+      );
+    });
+
+    it("removes cached hubs that are no longer found", async () => {
+      const { discovery } = await startDiscovery();
+
+      finishDiscovery([]);
+      await discovery;
+
+      const state = useHarmonyStore.getState();
+      expect(state.sessions).toEqual({});
+      expect(state.devices).toEqual([]);
+      expect(showToast).toHaveBeenCalledWith(expect.objectContaining({ title: `${hub.name} not found` }));
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { LocalStorage, resetLocalStorage } from "../../__mocks__/raycast-api";
+import { CommandQueue } from "../../services/harmony/commandQueue";
+import { CommandExecution, ExecutionMode } from "../../types/core/command";
+import { HarmonyCommand, HarmonyHub } from "../../types/core/harmony";
+import { useMacroStore } from "../macros";
+
+const hub = { hubId: "12345", name: "Living Room" } as HarmonyHub;
+
+function command(id: string): HarmonyCommand {
+  return { id, name: id, label: id, deviceId: "50000001", group: "IRCommand" };
+}
+
+describe("useMacroStore", () => {
+  let executor: jest.Mock<Promise<void>, [HarmonyCommand, CommandExecution | undefined]>;
+
+  beforeEach(async () => {
+    resetLocalStorage();
+    executor = jest.fn<Promise<void>, [HarmonyCommand, CommandExecution | undefined]>(async () => undefined);
+    jest.spyOn(CommandQueue, "getQueue").mockReturnValue(new CommandQueue(executor, { commandDelay: 0 }));
+    await useMacroStore.getState().loadMacros(hub.hubId);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("stores macros per hub", async () => {
+    const macro = await useMacroStore.getState().createMacro("Movie Night", command("InputHdmi2"));
+    await useMacroStore.getState().addStep(macro.id, command("VolumeDown"));
+
+    await useMacroStore.getState().loadMacros("67890");
+    expect(useMacroStore.getState().macros).toEqual([]);
+
+    await useMacroStore.getState().loadMacros(hub.hubId);
+    const [stored] = useMacroStore.getState().macros;
+    expect(stored?.name).toBe("Movie Night");
+    expect(stored?.steps.map((step) => step.command.id)).toEqual(["InputHdmi2", "VolumeDown"]);
+  });
+
+  it("reorders and edits steps", async () => {
+    const macro = await useMacroStore.getState().createMacro("Volume", command("Mute"));
+    await useMacroStore.getState().addStep(macro.id, command("VolumeDown"));
+    const stepId = useMacroStore.getState().macros[0]?.steps[1]?.id ?? "";
+
+    await useMacroStore.getState().moveStep(macro.id, stepId, -1);
+    await useMacroStore.getState().updateStep(macro.id, stepId, { repeat: 5, delay: 250, holdTime: 50 });
+
+    const [first, second] = useMacroStore.getState().macros[0]?.steps ?? [];
+    expect(first).toMatchObject({ id: stepId, repeat: 5, delay: 250, holdTime: 50 });
+    expect(second?.command.id).toBe("Mute");
+  });
+
+  it("runs steps in order with repeats and hold times", async () => {
+    const macro = await useMacroStore.getState().createMacro("Volume", command("InputHdmi2"));
+    await useMacroStore.getState().addStep(macro.id, command("VolumeDown"));
+    const stepId = useMacroStore.getState().macros[0]?.steps[1]?.id ?? "";
+    await useMacroStore.getState().updateStep(macro.id, stepId, { repeat: 3, holdTime: 200 });
+
+    await useMacroStore.getState().runMacro(hub, macro.id);
+
+    expect(executor.mock.calls.map(([sent, execution]) => [sent.id, execution])).toEqual([
+      ["InputHdmi2", undefined],
+      ["VolumeDown", { mode: ExecutionMode.TAP, holdTime: 200 }],
+      ["VolumeDown", { mode: ExecutionMode.TAP, holdTime: 200 }],
+      ["VolumeDown", { mode: ExecutionMode.TAP, holdTime: 200 }],
+    ]);
+    expect(useMacroStore.getState().progress).toBeNull();
+  });
+
+  it("sends each step to the hub owning its command", async () => {
+    const otherHub = { hubId: "67890", name: "Bedroom" } as HarmonyHub;
+    const otherExecutor = jest.fn<Promise<void>, [HarmonyCommand, CommandExecution | undefined]>(async () => undefined);
+    const queues = new Map([
+      [hub.hubId, new CommandQueue(executor, { commandDelay: 0 })],
+      [otherHub.hubId, new CommandQueue(otherExecutor, { commandDelay: 0 })],
+    ]);
+    jest.spyOn(CommandQueue, "getQueue").mockImplementation((target) => queues.get(target.hubId) as CommandQueue);
+    const macro = await useMacroStore.getState().createMacro("Both Rooms", command("PowerOn"));
+    await useMacroStore.getState().addStep(macro.id, { ...command("PowerOff"), hubId: otherHub.hubId });
+    await useMacroStore.getState().addStep(macro.id, { ...command("Mute"), hubId: hub.hubId });
+
+    await useMacroStore.getState().runMacro(hub, macro.id, [hub, otherHub]);
+
+    expect(executor.mock.calls.map(([sent]) => sent.id)).toEqual(["PowerOn", "Mute"]);
+    expect(otherExecutor.mock.calls.map(([sent]) => sent.id)).toEqual(["PowerOff"]);
+  });
+
+  it("stops the steps queued on every hub the macro ran on", async () => {
+    const otherHub = { hubId: "67890", name: "Bedroom" } as HarmonyHub;
+    let finishPowerOff = (): void => undefined;
+    const otherExecutor = jest.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          finishPowerOff = resolve;
+        }),
+    );
+    const queues = new Map([
+      [hub.hubId, new CommandQueue(executor, { commandDelay: 0 })],
+      [otherHub.hubId, new CommandQueue(otherExecutor, { commandDelay: 0 })],
+    ]);
+    jest.spyOn(CommandQueue, "getQueue").mockImplementation((target) => queues.get(target.hubId) as CommandQueue);
+    const cancelled = jest.spyOn(queues.get(otherHub.hubId) as CommandQueue, "cancelAll");
+    const macro = await useMacroStore.getState().createMacro("Both Rooms", command("PowerOn"));
+    await useMacroStore.getState().addStep(macro.id, { ...command("PowerOff"), hubId: otherHub.hubId });
+    await useMacroStore.getState().addStep(macro.id, command("Mute"));
+
+    const run = useMacroStore.getState().runMacro(hub, macro.id, [hub, otherHub]);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(otherExecutor).toHaveBeenCalled();
+    useMacroStore.getState().stopMacro();
+    finishPowerOff();
+    await run;
+
+    expect(executor.mock.calls.map(([sent]) => sent.id)).toEqual(["PowerOn"]);
+    expect(cancelled).toHaveBeenCalled();
+    expect(useMacroStore.getState().progress).toBeNull();
+  });
+
+  it("stops a running macro during a delay", async () => {
+    jest.useFakeTimers();
+    try {
+      const macro = await useMacroStore.getState().createMacro("Slow", command("PowerOn"));
+      await useMacroStore.getState().addStep(macro.id, command("InputHdmi2"));
+      const stepId = useMacroStore.getState().macros[0]?.steps[0]?.id ?? "";
+      await useMacroStore.getState().updateStep(macro.id, stepId, { delay: 10000 });
+
+      const run = useMacroStore.getState().runMacro(hub, macro.id);
+      await jest.advanceTimersByTimeAsync(100);
+      useMacroStore.getState().stopMacro();
+      await run;
+
+      expect(executor.mock.calls.map(([sent]) => sent.id)).toEqual(["PowerOn"]);
+      expect(useMacroStore.getState().progress).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it("ignores invalid stored macros", async () => {
+    await useMacroStore.getState().createMacro("Valid");
+    const key = `harmony-macros-${hub.hubId}`;
+    const stored = JSON.parse((await LocalStorage.getItem(key)) as string);
+    stored.macros.push({ id: "broken", steps: "not a list" });
+    await LocalStorage.setItem(key, JSON.stringify(stored));
+
+    await useMacroStore.getState().loadMacros(hub.hubId);
+
+    expect(useMacroStore.getState().macros.map((macro) => macro.name)).toEqual(["Valid"]);
+  });
+});
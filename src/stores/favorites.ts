@@ -0,0 +1,117 @@
+/**
+ * Favorites state management store.
+ * Starred commands, devices and activities are stored per hub in LocalStorage.
+ * @module
+ */
+
+import { castDraft } from "immer";
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+
+import { debug, error, info } from "../services/logger";
+import { VersionedStorage } from "../services/versionedStorage";
+import { HarmonyError, ErrorCategory } from "../types/core/errors";
+import { FavoriteKind, HarmonyFavorites, isHarmonyFavorites } from "../types/core/favorites";
+
+/** Favorites of a hub with nothing starred */
+const EMPTY_FAVORITES: HarmonyFavorites = { commands: [], devices: [], activities: [] };
+
+/**
+ * State of the favorites store
+ */
+interface FavoritesState {
+  /** Hub the loaded favorites belong to */
+  hubId: string | null;
+  /** Starred item IDs by kind */
+  favorites: HarmonyFavorites;
+}
+
+/**
+ * Actions that can be performed on the store
+ */
+interface FavoritesActions {
+  loadFavorites: (hubId: string) => Promise<void>;
+  toggleFavorite: (kind: FavoriteKind, id: string) => Promise<boolean>;
+}
+
+/**
+ * Combined store type with state and actions
+ */
+type FavoritesStore = FavoritesState & FavoritesActions;
+
+/**
+ * Stored payload of a hub's favorites
+ */
+interface StoredFavorites {
+  /** Starred item IDs by kind */
+  favorites: HarmonyFavorites;
+}
+
+/** Favorites, one key per hub ID */
+const favoritesStorage = VersionedStorage.register<StoredFavorites>({
+  key: "harmony-favorites",
+  version: 1,
+  validate: (payload): payload is StoredFavorites =>
+    isHarmonyFavorites((payload as Partial<StoredFavorites>).favorites),
+});
+
+/**
+ * Create the favorites store with Zustand and Immer
+ */
+export const useFavoritesStore = create<FavoritesStore>()(
+  immer((set, get) => {
+    const saveFavorites = async (): Promise<void> => {
+      const { hubId, favorites } = get();
+      if (!hubId) return;
+      try {
+        await favoritesStorage.write({ favorites }, hubId);
+        debug("Saved favorites", { hubId });
+      } catch (err) {
+        error("Failed to save favorites", err);
+      }
+    };
+
+    return {
+      // Initial State
+      hubId: null,
+      favorites: EMPTY_FAVORITES,
+
+      loadFavorites: async (hubId) => {
+        let favorites = EMPTY_FAVORITES;
+        try {
+          // Invalid stored favorites are quarantined and the hub starts without favorites
+          const stored = await favoritesStorage.read(hubId);
+          if (stored) {
+            favorites = stored.favorites;
+          }
+          info(`Loaded favorites for hub ${hubId}`);
+        } catch (err) {
+          error("Failed to load favorites", err);
+        }
+
+        set((state) => {
+          state.hubId = hubId;
+          state.favorites = castDraft(favorites);
+        });
+      },
+
+      toggleFavorite: async (kind, id) => {
+        if (!get().hubId) {
+          throw new HarmonyError("No hub selected", ErrorCategory.STATE);
+        }
+
+        const isFavorite = get().favorites[kind].includes(id);
+        set((state) => {
+          state.favorites[kind] = isFavorite
+            ? state.favorites[kind].filter((favoriteId) => favoriteId !== id)
+            : [...state.favorites[kind], id];
+        });
+        await saveFavorites();
+        return !isFavorite;
+      },
+    };
+  }),
+);
+
+// Selectors
+export const selectFavorites = (state: FavoritesStore): HarmonyFavorites => state.favorites;
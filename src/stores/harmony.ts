@@ -1,5 +1,7 @@
 /**
- * Harmony Hub state management store
+ * Harmony Hub state management store.
+ * Holds a session per connected hub; commands and activity calls are routed
+ * to the hub that owns the device or activity.
  * @module
  */
 
@@ -7,9 +9,12 @@ import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
 
 import { ErrorHandler } from "../services/errorHandler";
+import { CommandQueue } from "../services/harmony/commandQueue";
 import { HarmonyClient } from "../services/harmony/harmonyClient";
-import { LocalStorage } from "../services/localStorage";
-import { error, info } from "../services/logger";
+import { HarmonyManager } from "../services/harmony/harmonyManager";
+import { loadHubState, saveHubState } from "../services/harmony/hubState";
+import { debug, error, info, warn } from "../services/logger";
+import { getPreferences } from "../services/preferences";
 import { ToastManager } from "../services/toast";
 import {
   HarmonyHub,
@@ -20,14 +25,18 @@ import {
   ErrorCategory,
   LoadingState,
   HarmonyStage,
+  CommandRequest,
+  HarmonyHubSession,
 } from "../types/core";
 import {
   MutableHarmonyState,
+  MutableHubSession,
   toMutableHub,
   toMutableDevice,
   toMutableActivity,
   toMutableLoadingState,
 } from "../types/core/state-mutable";
+import { diffHubConfig, summarizeHubConfigChanges } from "../utils/configChanges";
 
 /**
  * Actions that can be performed on the store
@@ -35,15 +44,17 @@ import {
 interface HarmonyActions {
   // Hub Management
   discoverHubs: () => Promise<void>;
+  addHub: (ip: string) => Promise<HarmonyHub>;
   selectHub: (hub: HarmonyHub) => Promise<void>;
-  disconnectHub: () => Promise<void>;
+  disconnectHub: (hubId?: string) => Promise<void>;
+  clearCache: () => Promise<void>;
 
   // Device Management
-  loadDevices: () => Promise<void>;
-  executeCommand: (command: HarmonyCommand) => Promise<void>;
+  loadDevices: (hubId?: string) => Promise<void>;
+  executeCommand: (command: HarmonyCommand, options?: CommandOptions) => Promise<void>;
 
   // Activity Management
-  loadActivities: () => Promise<void>;
+  loadActivities: (hubId?: string) => Promise<void>;
   startActivity: (activity: HarmonyActivity) => Promise<void>;
   stopActivity: (activity: HarmonyActivity) => Promise<void>;
 
@@ -54,30 +65,87 @@ interface HarmonyActions {
   reset: () => void;
 }
 
+/**
+ * Per-command overrides for the hub's command queue
+ */
+export type CommandOptions = Pick<CommandRequest, "timeout" | "retries" | "execution">;
+
 /**
  * Combined store type with state and actions
  */
 type HarmonyStore = MutableHarmonyState & HarmonyActions;
 
+/** Shared manager instance used for hub discovery */
+const manager = new HarmonyManager();
+
+/**
+ * Mark the matching activity as current and all others as not running
+ * @param activities - Activities to update
+ * @param currentId - ID of the running activity, or null if none
+ */
+function withCurrentActivity(activities: readonly HarmonyActivity[], currentId: string | null): HarmonyActivity[] {
+  return activities.map((activity) => ({ ...activity, isCurrent: activity.id === currentId }));
+}
+
+/**
+ * Stamp the owning hub on a device and its commands
+ * @param hubId - Hub the device was loaded from
+ * @param device - Device to stamp
+ */
+function ownDevice(hubId: string, device: HarmonyDevice): HarmonyDevice {
+  return { ...device, hubId, commands: device.commands.map((command) => ({ ...command, hubId })) };
+}
+
+/**
+ * Stamp the owning hub on an activity and its control group commands
+ * @param hubId - Hub the activity was loaded from
+ * @param activity - Activity to stamp
+ */
+function ownActivity(hubId: string, activity: HarmonyActivity): HarmonyActivity {
+  return {
+    ...activity,
+    hubId,
+    controlGroups: activity.controlGroups.map((group) => ({
+      ...group,
+      commands: group.commands.map((command) => ({ ...command, hubId })),
+    })),
+  };
+}
+
+/**
+ * Rebuild the combined device and activity lists after a session changed
+ * @param state - Store draft to update
+ */
+function syncSessions(state: MutableHarmonyState): void {
+  const sessions = Object.values(state.sessions);
+  const selected = state.selectedHub ? state.sessions[state.selectedHub.hubId] : undefined;
+  state.devices = sessions.flatMap((session) => session.devices);
+  state.activities = sessions.flatMap((session) => session.activities);
+  state.currentActivity = selected?.currentActivity ?? null;
+  state.pendingActivityId =
+    selected?.pendingActivityId ?? sessions.find((session) => session.pendingActivityId)?.pendingActivityId ?? null;
+}
+
 /**
  * Create the Harmony store with Zustand and Immer
  */
 export const useHarmonyStore = create<HarmonyStore>()(
   immer((set, get) => {
+    // Hubs that had sessions when the state was saved, reconnected after discovery
+    let restoreHubIds: string[] = [];
+
     // Load persisted state
     const loadPersistedState = async (): Promise<void> => {
       try {
-        const persistedJSON = await LocalStorage.getItem("harmony-hub-state");
-        if (persistedJSON) {
-          const { state } = JSON.parse(persistedJSON);
+        const state = await loadHubState();
+        if (state) {
           set((draft) => {
             if (state.selectedHub) {
               draft.selectedHub = toMutableHub(state.selectedHub);
             }
-            if (state.hubs) {
-              draft.hubs = state.hubs.map(toMutableHub);
-            }
+            draft.hubs = state.hubs.map(toMutableHub);
           });
+          restoreHubIds = state.sessionHubIds ?? [];
           info("Loaded persisted hub state");
         }
       } catch (err) {
@@ -88,27 +156,199 @@ export const useHarmonyStore = create<HarmonyStore>()(
     // Save state changes
     const saveState = async (state: HarmonyStore): Promise<void> => {
       try {
-        const persistedState = {
+        await saveHubState({
           selectedHub: state.selectedHub,
-          hubs: state.hubs,
-        };
-        await LocalStorage.setItem("harmony-hub-state", JSON.stringify({ state: persistedState, version: 1 }));
+          hubs: [...state.hubs],
+          sessionHubIds: Object.keys(state.sessions),
+        });
         info("Saved hub state");
       } catch (err) {
         error("Failed to save hub state", err);
       }
     };
 
+    // Listeners on each session's client by hub ID, removed when the session ends
+    const clientSubscriptions = new Map<string, Array<() => void>>();
+
+    const unsubscribeFromClient = (hubId: string): void => {
+      clientSubscriptions.get(hubId)?.forEach((unsubscribe) => unsubscribe());
+      clientSubscriptions.delete(hubId);
+    };
+
+    const unsubscribeFromAll = (): void => {
+      Array.from(clientSubscriptions.keys()).forEach(unsubscribeFromClient);
+    };
+
+    // Apply a change to one hub's session and rebuild the combined lists
+    const updateSession = (hubId: string, update: (session: MutableHubSession) => void): void => {
+      set((state) => {
+        const session = state.sessions[hubId];
+        if (!session) return;
+        update(session);
+        syncSessions(state);
+      });
+    };
+
+    // The hub a call is routed to: the owner's session, or the selected hub when there is no owner
+    const routeTo = (hubId?: string): HarmonyHub => {
+      const { sessions, selectedHub } = get();
+      const hub = hubId ? sessions[hubId]?.hub : selectedHub;
+      if (!hub) {
+        throw new HarmonyError(hubId ? `Hub ${hubId} is not connected` : "No hub selected", ErrorCategory.STATE);
+      }
+      return hub;
+    };
+
+    // Keep activities in sync with changes made on the hub or with the physical remote
+    const subscribeToClient = (client: HarmonyClient): void => {
+      const { hubId } = client.hub;
+      unsubscribeFromClient(hubId);
+      clientSubscriptions.set(hubId, [
+        client.on("activityStarting", (activityId) => {
+          updateSession(hubId, (session) => {
+            session.pendingActivityId = activityId;
+          });
+        }),
+        client.on("activityStarted", (activity) => {
+          debug("Hub reported activity started", { hubId, activityId: activity.id });
+          updateSession(hubId, (session) => {
+            session.activities = withCurrentActivity(session.activities, activity.id).map(toMutableActivity);
+            session.currentActivity = toMutableActivity(ownActivity(hubId, activity));
+            session.pendingActivityId = null;
+          });
+        }),
+        client.on("activityStopped", () => {
+          debug("Hub reported activity stopped", { hubId });
+          updateSession(hubId, (session) => {
+            session.activities = withCurrentActivity(session.activities, null).map(toMutableActivity);
+            session.currentActivity = null;
+            session.pendingActivityId = null;
+          });
+        }),
+        client.on("configChanged", async () => {
+          info(`Hub ${client.hub.name} config changed, reloading devices and activities`);
+          await get().loadDevices(hubId);
+          await get().loadActivities(hubId);
+        }),
+        client.on("reconnecting", (attempt, maxAttempts) => {
+          set((state) => {
+            state.loadingState = toMutableLoadingState({
+              stage: HarmonyStage.RECONNECTING,
+              progress: (attempt - 1) / maxAttempts,
+              message: `Reconnecting to ${client.hub.name} (attempt ${attempt} of ${maxAttempts})...`,
+            });
+          });
+          if (attempt === 1) {
+            ToastManager.loading(`Reconnecting to ${client.hub.name}...`);
+          }
+        }),
+        client.on("reconnected", () => {
+          set((state) => {
+            state.loadingState = toMutableLoadingState({
+              stage: HarmonyStage.CONNECTED,
+              progress: 1,
+              message: `Reconnected to ${client.hub.name}`,
+            });
+          });
+          ToastManager.success(`Reconnected to ${client.hub.name}`);
+        }),
+        client.on("connectionLost", (harmonyError) => {
+          ErrorHandler.handle(harmonyError, "Hub connection lost");
+          set((state) => {
+            state.error = harmonyError;
+            state.loadingState = toMutableLoadingState({
+              stage: HarmonyStage.ERROR,
+              progress: 1,
+              message: harmonyError.message,
+            });
+          });
+        }),
+      ]);
+    };
+
+    // Show the sessions open when the extension was last used from the cache, before the hubs are reachable.
+    // Returns whether cached hubs are shown, so discovery can run in the background.
+    const showCachedSessions = async (): Promise<boolean> => {
+      await persistedStateLoaded;
+      // Only on startup; later refreshes keep the live sessions
+      if (Object.keys(get().sessions).length > 0) {
+        return false;
+      }
+
+      const hubs = get().hubs.length > 0 ? get().hubs : await manager.loadCachedHubs();
+      if (hubs.length === 0) {
+        return false;
+      }
+
+      const selectedHubId = get().selectedHub?.hubId;
+      const sessionHubIds = new Set([...restoreHubIds, ...(selectedHubId ? [selectedHubId] : [])]);
+      const cachedSessions: { hub: HarmonyHub; devices: HarmonyDevice[]; activities: HarmonyActivity[] }[] = [];
+      for (const hub of hubs.filter((h) => sessionHubIds.has(h.hubId))) {
+        const config = await HarmonyClient.getClient(hub).loadCachedConfig();
+        if (config) {
+          cachedSessions.push({ hub, ...config });
+        }
+      }
+
+      set((state) => {
+        state.hubs = hubs.map(toMutableHub);
+        for (const { hub, devices, activities } of cachedSessions) {
+          state.sessions[hub.hubId] = {
+            hub: toMutableHub(hub),
+            devices: devices.map((device) => toMutableDevice(ownDevice(hub.hubId, device))),
+            // Which activity is running is not cached, so none is shown as running until the hub answers
+            activities: withCurrentActivity(
+              activities.map((activity) => ownActivity(hub.hubId, activity)),
+              null,
+            ).map(toMutableActivity),
+            currentActivity: null,
+            pendingActivityId: null,
+            isStale: true,
+          };
+        }
+        syncSessions(state);
+      });
+      info(`Showing ${cachedSessions.length} cached hub session(s) while checking the hubs`);
+      return true;
+    };
+
+    // Replace a session's cached devices and activities with the hub's and report what changed
+    const revalidateSession = async (client: HarmonyClient): Promise<void> => {
+      const { hub } = client;
+      const devices = (await client.getDevices()).map((device) => ownDevice(hub.hubId, device));
+      const activities = (await client.getActivities()).map((activity) => ownActivity(hub.hubId, activity));
+      const currentActivity = await client.getCurrentActivity();
+
+      const cached = get().sessions[hub.hubId];
+      const summary = cached ? summarizeHubConfigChanges(diffHubConfig(cached, { devices, activities })) : null;
+
+      updateSession(hub.hubId, (session) => {
+        session.devices = devices.map(toMutableDevice);
+        session.activities = withCurrentActivity(activities, currentActivity?.id ?? null).map(toMutableActivity);
+        session.currentActivity = currentActivity ? toMutableActivity(ownActivity(hub.hubId, currentActivity)) : null;
+        session.isStale = false;
+      });
+
+      if (summary) {
+        info(`Hub ${hub.name} changed since it was cached`, { summary });
+        ToastManager.success(`${hub.name} was updated`, summary);
+      } else {
+        debug(`Cached data for hub ${hub.name} is up to date`);
+      }
+    };
+
     // Initialize state
-    loadPersistedState();
+    const persistedStateLoaded = loadPersistedState();
 
     return {
       // Initial State
       hubs: [],
       selectedHub: null,
+      sessions: {},
       devices: [],
       activities: [],
       currentActivity: null,
+      pendingActivityId: null,
       error: null,
       loadingState: {
         stage: HarmonyStage.INITIAL,
@@ -119,20 +359,52 @@ export const useHarmonyStore = create<HarmonyStore>()(
       // Hub Management Actions
       discoverHubs: async () => {
         try {
+          // With cached hubs on screen, discovery refreshes them in the background instead of blocking the views
+          const stage = (await showCachedSessions()) ? HarmonyStage.REFRESHING : HarmonyStage.DISCOVERING;
           set((state) => {
             state.loadingState = toMutableLoadingState({
-              stage: HarmonyStage.DISCOVERING,
+              stage,
               progress: 0,
               message: "Discovering Harmony Hubs...",
             });
             state.error = null;
           });
 
-          // TODO: Implement hub discovery
-          const hubs: HarmonyHub[] = [];
+          const hubs = await manager.startDiscovery((progress, message) => {
+            set((state) => {
+              state.loadingState = toMutableLoadingState({
+                stage,
+                progress,
+                message,
+              });
+            });
+          });
+
+          // Only keep the previously selected hub if it is still on the network
+          const previousHub = get().selectedHub;
+          const restoredHub = previousHub ? hubs.find((hub) => hub.hubId === previousHub.hubId) : undefined;
+          // Reconnect the other hubs that had sessions as well
+          const sessionHubIds = new Set([...restoreHubIds, ...Object.keys(get().sessions)]);
+          const restoredSessions = hubs.filter(
+            (hub) => sessionHubIds.has(hub.hubId) && hub.hubId !== restoredHub?.hubId,
+          );
+
+          // Cached sessions of hubs that are no longer on the network are dropped
+          const missingHubs = Object.values(get().sessions)
+            .filter((session) => session.isStale && !hubs.some((hub) => hub.hubId === session.hub.hubId))
+            .map((session) => session.hub);
+          missingHubs.forEach((hub) => {
+            warn(`Cached hub ${hub.name} was not found, removing its session`);
+            ToastManager.error(`${hub.name} not found`, "Its cached devices and activities were removed");
+          });
 
           set((state) => {
             state.hubs = hubs.map(toMutableHub);
+            missingHubs.forEach((hub) => delete state.sessions[hub.hubId]);
+            syncSessions(state);
+            if (!restoredHub) {
+              state.selectedHub = null;
+            }
             state.loadingState = toMutableLoadingState({
               stage: HarmonyStage.INITIAL,
               progress: 1,
@@ -142,6 +414,22 @@ export const useHarmonyStore = create<HarmonyStore>()(
           saveState(get());
 
           ToastManager.success(`Found ${hubs.length} Harmony Hub(s)`);
+
+          const preferences = getPreferences();
+          for (const hub of restoredSessions) {
+            info(`Reconnecting to hub ${hub.name}`);
+            await get().selectHub(hub);
+          }
+          // Select the previously selected hub last so it stays selected
+          if (restoredHub) {
+            info(`Reconnecting to previously selected hub ${restoredHub.name}`);
+            await get().selectHub(restoredHub);
+          } else if (restoredSessions.length > 0) {
+            debug("Restored hub sessions without the previously selected hub");
+          } else if (preferences.autoConnect && hubs.length === 1 && hubs[0]) {
+            info("Single hub found, auto-selecting");
+            await get().selectHub(hubs[0]);
+          }
         } catch (error) {
           const harmonyError =
             error instanceof HarmonyError
@@ -163,6 +451,19 @@ export const useHarmonyStore = create<HarmonyStore>()(
         }
       },
 
+      addHub: async (ip) => {
+        const hub = await manager.addHub(ip);
+
+        set((state) => {
+          state.hubs = [...state.hubs.filter((h) => h.hubId !== hub.hubId), toMutableHub(hub)];
+        });
+        saveState(get());
+        ToastManager.success(`Added ${hub.name}`);
+
+        await get().selectHub(hub);
+        return hub;
+      },
+
       selectHub: async (hub) => {
         try {
           set((state) => {
@@ -174,10 +475,27 @@ export const useHarmonyStore = create<HarmonyStore>()(
             state.error = null;
           });
 
-          // TODO: Implement hub connection
+          const client = HarmonyClient.getClient(hub);
+          if (!client.isClientConnected()) {
+            await client.connect();
+          }
+          subscribeToClient(client);
+          const isStale = get().sessions[hub.hubId]?.isStale ?? false;
 
+          // Connecting another hub adds a session; the sessions already open stay connected
           set((state) => {
             state.selectedHub = toMutableHub(hub);
+            if (!state.sessions[hub.hubId]) {
+              state.sessions[hub.hubId] = {
+                hub: toMutableHub(hub),
+                devices: [],
+                activities: [],
+                currentActivity: null,
+                pendingActivityId: null,
+                isStale: false,
+              };
+            }
+            syncSessions(state);
             state.loadingState = toMutableLoadingState({
               stage: HarmonyStage.CONNECTED,
               progress: 1,
@@ -186,9 +504,13 @@ export const useHarmonyStore = create<HarmonyStore>()(
           });
           saveState(get());
 
-          // Load devices and activities
-          await get().loadDevices();
-          await get().loadActivities();
+          // Load devices and activities; cached ones stay on screen until the fresh ones arrive
+          if (isStale) {
+            await revalidateSession(client);
+          } else {
+            await get().loadDevices(hub.hubId);
+            await get().loadActivities(hub.hubId);
+          }
 
           ToastManager.success(`Connected to ${hub.name}`);
         } catch (error) {
@@ -212,26 +534,31 @@ export const useHarmonyStore = create<HarmonyStore>()(
         }
       },
 
-      disconnectHub: async () => {
+      disconnectHub: async (hubId) => {
         try {
-          const { selectedHub } = get();
-          if (!selectedHub) return;
+          const { sessions, selectedHub } = get();
+          const hub = hubId ? sessions[hubId]?.hub : selectedHub;
+          if (!hub) return;
 
           set((state) => {
             state.loadingState = toMutableLoadingState({
               stage: HarmonyStage.INITIAL,
               progress: 0,
-              message: "Disconnecting...",
+              message: `Disconnecting from ${hub.name}...`,
             });
           });
 
-          // TODO: Implement hub disconnection
+          unsubscribeFromClient(hub.hubId);
+          CommandQueue.getQueue(hub).cancelAll();
+          await HarmonyClient.getClient(hub).disconnect();
 
           set((state) => {
-            state.selectedHub = null;
-            state.devices = [];
-            state.activities = [];
-            state.currentActivity = null;
+            delete state.sessions[hub.hubId];
+            // Fall back to another connected hub, if any
+            if (state.selectedHub?.hubId === hub.hubId) {
+              state.selectedHub = Object.values(state.sessions)[0]?.hub ?? null;
+            }
+            syncSessions(state);
             state.loadingState = toMutableLoadingState({
               stage: HarmonyStage.INITIAL,
               progress: 1,
@@ -240,7 +567,7 @@ export const useHarmonyStore = create<HarmonyStore>()(
           });
           saveState(get());
 
-          ToastManager.success("Disconnected from Harmony Hub");
+          ToastManager.success(`Disconnected from ${hub.name}`);
         } catch (error) {
           const harmonyError =
             error instanceof HarmonyError
@@ -257,13 +584,54 @@ export const useHarmonyStore = create<HarmonyStore>()(
         }
       },
 
-      // Device Management Actions
-      loadDevices: async () => {
+      clearCache: async () => {
         try {
-          const { selectedHub } = get();
-          if (!selectedHub) {
-            throw new HarmonyError("No hub selected", ErrorCategory.STATE);
+          const { sessions, selectedHub } = get();
+          unsubscribeFromAll();
+          const connectedHubs = Object.values(sessions).map((session) => session.hub);
+          if (selectedHub && !sessions[selectedHub.hubId]) {
+            connectedHubs.push(selectedHub);
           }
+          for (const hub of connectedHubs) {
+            await HarmonyClient.getClient(hub).disconnect();
+          }
+
+          await manager.clearCache();
+
+          set((state) => {
+            state.hubs = [];
+            state.selectedHub = null;
+            state.sessions = {};
+            state.devices = [];
+            state.activities = [];
+            state.currentActivity = null;
+            state.pendingActivityId = null;
+          });
+          saveState(get());
+          info("Cleared hub caches, rediscovering hubs");
+        } catch (error) {
+          const harmonyError =
+            error instanceof HarmonyError
+              ? error
+              : new HarmonyError(
+                  "Failed to clear cache",
+                  ErrorCategory.CACHE,
+                  error instanceof Error ? error : undefined,
+                );
+          ErrorHandler.handle(harmonyError, "Cache clearing failed");
+          set((state) => {
+            state.error = harmonyError;
+          });
+          return;
+        }
+
+        await get().discoverHubs();
+      },
+
+      // Device Management Actions
+      loadDevices: async (hubId) => {
+        try {
+          const hub = routeTo(hubId);
 
           set((state) => {
             state.loadingState = toMutableLoadingState({
@@ -273,11 +641,12 @@ export const useHarmonyStore = create<HarmonyStore>()(
             });
           });
 
-          // TODO: Implement device loading
-          const devices: HarmonyDevice[] = [];
+          const devices = await HarmonyClient.getClient(hub).getDevices();
 
+          updateSession(hub.hubId, (session) => {
+            session.devices = devices.map((device) => toMutableDevice(ownDevice(hub.hubId, device)));
+          });
           set((state) => {
-            state.devices = devices.map(toMutableDevice);
             state.loadingState = toMutableLoadingState({
               stage: HarmonyStage.CONNECTED,
               progress: 1,
@@ -300,39 +669,57 @@ export const useHarmonyStore = create<HarmonyStore>()(
         }
       },
 
-      executeCommand: async (command) => {
+      executeCommand: async (command, options) => {
         try {
-          const { selectedHub } = get();
-          if (!selectedHub) {
-            throw new HarmonyError("No hub selected", ErrorCategory.STATE);
-          }
+          // Commands go to the hub that owns their device
+          const hub = routeTo(command.hubId);
 
-          const client = await HarmonyClient.getClient(selectedHub);
-          await client.executeCommand(command);
-          ToastManager.success(`Executed ${command.label}`);
+          debug("Sending command to hub", { hub: hub.name, command });
+          set((state) => {
+            state.loadingState = toMutableLoadingState({
+              stage: HarmonyStage.EXECUTING_COMMAND,
+              progress: 0.5,
+              message: `Sending ${command.name}...`,
+            });
+          });
+
+          // Queue the command so rapid presses are sent one at a time
+          const queue = CommandQueue.getQueue(hub);
+          await queue.enqueue(CommandQueue.createRequest(command, options));
+
+          set((state) => {
+            state.loadingState = toMutableLoadingState({
+              stage: HarmonyStage.CONNECTED,
+              progress: 1,
+              message: "Command sent successfully",
+            });
+          });
         } catch (error) {
           const harmonyError =
             error instanceof HarmonyError
               ? error
               : new HarmonyError(
                   "Failed to execute command",
-                  ErrorCategory.COMMAND,
+                  ErrorCategory.COMMAND_EXECUTION,
                   error instanceof Error ? error : undefined,
                 );
-          ToastManager.error(`Failed to execute ${command.label}`, harmonyError.message);
           set((state) => {
             state.error = harmonyError;
+            state.loadingState = toMutableLoadingState({
+              stage: HarmonyStage.ERROR,
+              progress: 1,
+              message: harmonyError.message,
+            });
           });
+          // Rethrow so callers can apply their own retry and feedback policy
+          throw harmonyError;
         }
       },
 
       // Activity Management Actions
-      loadActivities: async () => {
+      loadActivities: async (hubId) => {
         try {
-          const { selectedHub } = get();
-          if (!selectedHub) {
-            throw new HarmonyError("No hub selected", ErrorCategory.STATE);
-          }
+          const hub = routeTo(hubId);
 
           set((state) => {
             state.loadingState = toMutableLoadingState({
@@ -342,11 +729,17 @@ export const useHarmonyStore = create<HarmonyStore>()(
             });
           });
 
-          // TODO: Implement activity loading
-          const activities: HarmonyActivity[] = [];
+          const client = HarmonyClient.getClient(hub);
+          const activities = (await client.getActivities()).map((activity) => ownActivity(hub.hubId, activity));
+          const currentActivity = await client.getCurrentActivity();
 
+          updateSession(hub.hubId, (session) => {
+            session.activities = withCurrentActivity(activities, currentActivity?.id ?? null).map(toMutableActivity);
+            session.currentActivity = currentActivity
+              ? toMutableActivity(ownActivity(hub.hubId, currentActivity))
+              : null;
+          });
           set((state) => {
-            state.activities = activities.map(toMutableActivity);
             state.loadingState = toMutableLoadingState({
               stage: HarmonyStage.CONNECTED,
               progress: 1,
@@ -370,11 +763,9 @@ export const useHarmonyStore = create<HarmonyStore>()(
       },
 
       startActivity: async (activity) => {
+        const hubId = activity.hubId ?? get().selectedHub?.hubId;
         try {
-          const { selectedHub } = get();
-          if (!selectedHub) {
-            throw new HarmonyError("No hub selected", ErrorCategory.STATE);
-          }
+          const hub = routeTo(activity.hubId);
 
           set((state) => {
             state.loadingState = toMutableLoadingState({
@@ -384,10 +775,13 @@ export const useHarmonyStore = create<HarmonyStore>()(
             });
           });
 
-          // TODO: Implement activity start
+          await HarmonyClient.getClient(hub).startActivity(activity.id);
 
+          updateSession(hub.hubId, (session) => {
+            session.activities = withCurrentActivity(session.activities, activity.id).map(toMutableActivity);
+            session.currentActivity = toMutableActivity(ownActivity(hub.hubId, { ...activity, isCurrent: true }));
+          });
           set((state) => {
-            state.currentActivity = toMutableActivity(activity);
             state.loadingState = toMutableLoadingState({
               stage: HarmonyStage.CONNECTED,
               progress: 1,
@@ -409,16 +803,18 @@ export const useHarmonyStore = create<HarmonyStore>()(
           set((state) => {
             state.error = harmonyError;
           });
+          if (hubId) {
+            updateSession(hubId, (session) => {
+              session.pendingActivityId = null;
+            });
+          }
         }
       },
 
       stopActivity: async (activity) => {
         try {
-          const { selectedHub, currentActivity } = get();
-          if (!selectedHub) {
-            throw new HarmonyError("No hub selected", ErrorCategory.STATE);
-          }
-          if (!currentActivity) {
+          const hub = routeTo(activity.hubId);
+          if (!get().sessions[hub.hubId]?.currentActivity) {
             throw new HarmonyError("No activity is running", ErrorCategory.STATE);
           }
 
@@ -430,10 +826,13 @@ export const useHarmonyStore = create<HarmonyStore>()(
             });
           });
 
-          // TODO: Implement activity stop
+          await HarmonyClient.getClient(hub).stopActivity();
 
+          updateSession(hub.hubId, (session) => {
+            session.activities = withCurrentActivity(session.activities, null).map(toMutableActivity);
+            session.currentActivity = null;
+          });
           set((state) => {
-            state.currentActivity = null;
             state.loadingState = toMutableLoadingState({
               stage: HarmonyStage.CONNECTED,
               progress: 1,
@@ -478,12 +877,15 @@ export const useHarmonyStore = create<HarmonyStore>()(
       },
 
       reset: () => {
+        unsubscribeFromAll();
         set((state) => {
           state.hubs = [];
           state.selectedHub = null;
+          state.sessions = {};
           state.devices = [];
           state.activities = [];
           state.currentActivity = null;
+          state.pendingActivityId = null;
           state.error = null;
           state.loadingState = toMutableLoadingState({
             stage: HarmonyStage.INITIAL,
@@ -500,16 +902,20 @@ export const useHarmonyStore = create<HarmonyStore>()(
 // Export selectors for common state derivations
 export const selectHubs = (state: HarmonyStore): readonly HarmonyHub[] => state.hubs;
 export const selectSelectedHub = (state: HarmonyStore): HarmonyHub | null => state.selectedHub;
+export const selectSessions = (state: HarmonyStore): Readonly<Record<string, HarmonyHubSession>> => state.sessions;
 export const selectDevices = (state: HarmonyStore): readonly HarmonyDevice[] => state.devices;
 export const selectActivities = (state: HarmonyStore): readonly HarmonyActivity[] => state.activities;
 export const selectCurrentActivity = (state: HarmonyStore): HarmonyActivity | null => state.currentActivity;
+export const selectPendingActivityId = (state: HarmonyStore): string | null => state.pendingActivityId;
 export const selectError = (state: HarmonyStore): HarmonyError | null => state.error as HarmonyError | null;
 export const selectLoadingState = (state: HarmonyStore): LoadingState => ({
   stage: state.loadingState.stage as HarmonyStage,
   progress: state.loadingState.progress,
   message: state.loadingState.message,
 });
+// Refreshing runs in the background behind the cached lists, so it does not count as loading
 export const selectIsLoading = (state: HarmonyStore): boolean =>
   state.loadingState.stage !== HarmonyStage.INITIAL &&
   state.loadingState.stage !== HarmonyStage.CONNECTED &&
+  state.loadingState.stage !== HarmonyStage.REFRESHING &&
   state.loadingState.stage !== HarmonyStage.ERROR;
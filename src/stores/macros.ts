@@ -0,0 +1,298 @@
+/**
+ * Macro state management store.
+ * Macros are stored per hub in LocalStorage and run through the command queue of the hub owning each step's command.
+ * @module
+ */
+
+import { castDraft } from "immer";
+import { v4 as uuidv4 } from "uuid";
+import { create } from "zustand";
+import { immer } from "zustand/middleware/immer";
+
+import { ErrorHandler } from "../services/errorHandler";
+import { CommandQueue } from "../services/harmony/commandQueue";
+import { debug, error, info, warn } from "../services/logger";
+import { ToastManager } from "../services/toast";
+import { VersionedStorage } from "../services/versionedStorage";
+import { ExecutionMode } from "../types/core/command";
+import { HarmonyError, ErrorCategory } from "../types/core/errors";
+import { HarmonyCommand, HarmonyHub } from "../types/core/harmony";
+import { HarmonyMacro, MacroProgress, MacroStep, isHarmonyMacro } from "../types/core/macro";
+
+/**
+ * Step settings that can be edited after the step is added
+ */
+export type MacroStepChanges = Partial<Pick<MacroStep, "repeat" | "delay" | "holdTime">>;
+
+/**
+ * State of the macro store
+ */
+interface MacroState {
+  /** Hub the loaded macros belong to */
+  hubId: string | null;
+  /** Macros for the hub, in creation order */
+  macros: HarmonyMacro[];
+  /** Progress of the running macro, if any */
+  progress: MacroProgress | null;
+}
+
+/**
+ * Actions that can be performed on the store
+ */
+interface MacroActions {
+  loadMacros: (hubId: string) => Promise<void>;
+  createMacro: (name: string, command?: HarmonyCommand) => Promise<HarmonyMacro>;
+  renameMacro: (macroId: string, name: string) => Promise<void>;
+  deleteMacro: (macroId: string) => Promise<void>;
+  addStep: (macroId: string, command: HarmonyCommand) => Promise<void>;
+  updateStep: (macroId: string, stepId: string, changes: MacroStepChanges) => Promise<void>;
+  removeStep: (macroId: string, stepId: string) => Promise<void>;
+  moveStep: (macroId: string, stepId: string, offset: number) => Promise<void>;
+  runMacro: (hub: HarmonyHub, macroId: string, connectedHubs?: readonly HarmonyHub[]) => Promise<void>;
+  stopMacro: () => void;
+}
+
+/**
+ * Combined store type with state and actions
+ */
+type MacroStore = MacroState & MacroActions;
+
+/**
+ * Stored payload of a hub's macros.
+ * Macros are validated one by one when loaded, so one broken macro does not discard the others.
+ */
+interface StoredMacros {
+  /** Macros for the hub */
+  macros: unknown[];
+}
+
+/** Macros, one key per hub ID */
+const macroStorage = VersionedStorage.register<StoredMacros>({
+  key: "harmony-macros",
+  version: 1,
+  validate: (payload): payload is StoredMacros => Array.isArray((payload as Partial<StoredMacros>).macros),
+});
+
+/**
+ * Create the macro store with Zustand and Immer
+ */
+export const useMacroStore = create<MacroStore>()(
+  immer((set, get) => {
+    // Set by stopMacro, checked before every press
+    let stopRequested = false;
+    // Ends the pause between steps early when the macro is stopped
+    let cancelDelay: (() => void) | null = null;
+    // Queues of the hubs the running macro has sent commands to, cancelled when it is stopped
+    const runningQueues = new Set<CommandQueue>();
+
+    const saveMacros = async (): Promise<void> => {
+      const { hubId, macros } = get();
+      if (!hubId) return;
+      try {
+        await macroStorage.write({ macros }, hubId);
+        debug("Saved macros", { hubId, count: macros.length });
+      } catch (err) {
+        error("Failed to save macros", err);
+      }
+    };
+
+    const requireMacro = (macroId: string): HarmonyMacro => {
+      const macro = get().macros.find((m) => m.id === macroId);
+      if (!macro) {
+        throw new HarmonyError(`Macro ${macroId} not found`, ErrorCategory.STATE, undefined, undefined, false);
+      }
+      return macro;
+    };
+
+    // Apply a change to one macro's steps and persist the result
+    const updateSteps = async (macroId: string, update: (steps: MacroStep[]) => MacroStep[]): Promise<void> => {
+      const macro = requireMacro(macroId);
+      const steps = update([...macro.steps]);
+      set((state) => {
+        const index = state.macros.findIndex((m) => m.id === macroId);
+        state.macros[index] = castDraft({ ...macro, steps, updatedAt: Date.now() });
+      });
+      await saveMacros();
+    };
+
+    const wait = (ms: number): Promise<void> =>
+      new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          cancelDelay = null;
+          resolve();
+        }, ms);
+        cancelDelay = () => {
+          clearTimeout(timer);
+          cancelDelay = null;
+          resolve();
+        };
+      });
+
+    return {
+      // Initial State
+      hubId: null,
+      macros: [],
+      progress: null,
+
+      loadMacros: async (hubId) => {
+        let macros: HarmonyMacro[] = [];
+        try {
+          const stored = await macroStorage.read(hubId);
+          if (stored) {
+            const parsed = stored.macros;
+            macros = parsed.filter(isHarmonyMacro);
+            if (macros.length !== parsed.length) {
+              warn(`Dropped ${parsed.length - macros.length} invalid stored macro(s)`);
+            }
+          }
+          info(`Loaded ${macros.length} macro(s) for hub ${hubId}`);
+        } catch (err) {
+          error("Failed to load macros", err);
+        }
+
+        set((state) => {
+          state.hubId = hubId;
+          state.macros = castDraft(macros);
+        });
+      },
+
+      createMacro: async (name, command) => {
+        if (!get().hubId) {
+          throw new HarmonyError("No hub selected", ErrorCategory.STATE);
+        }
+
+        const now = Date.now();
+        const macro: HarmonyMacro = {
+          id: uuidv4(),
+          name: name.trim(),
+          steps: command ? [{ id: uuidv4(), command, repeat: 1, delay: 0 }] : [],
+          createdAt: now,
+          updatedAt: now,
+        };
+        set((state) => {
+          state.macros.push(castDraft(macro));
+        });
+        await saveMacros();
+        return macro;
+      },
+
+      renameMacro: async (macroId, name) => {
+        const macro = requireMacro(macroId);
+        set((state) => {
+          const index = state.macros.findIndex((m) => m.id === macroId);
+          state.macros[index] = castDraft({ ...macro, name: name.trim(), updatedAt: Date.now() });
+        });
+        await saveMacros();
+      },
+
+      deleteMacro: async (macroId) => {
+        set((state) => {
+          state.macros = state.macros.filter((m) => m.id !== macroId);
+        });
+        await saveMacros();
+      },
+
+      addStep: (macroId, command) =>
+        updateSteps(macroId, (steps) => [...steps, { id: uuidv4(), command, repeat: 1, delay: 0 }]),
+
+      updateStep: (macroId, stepId, changes) =>
+        updateSteps(macroId, (steps) => steps.map((step) => (step.id === stepId ? { ...step, ...changes } : step))),
+
+      removeStep: (macroId, stepId) => updateSteps(macroId, (steps) => steps.filter((step) => step.id !== stepId)),
+
+      moveStep: (macroId, stepId, offset) =>
+        updateSteps(macroId, (steps) => {
+          const from = steps.findIndex((step) => step.id === stepId);
+          if (from === -1) return steps;
+          const to = Math.min(Math.max(from + offset, 0), steps.length - 1);
+          const [step] = steps.splice(from, 1);
+          if (step) {
+            steps.splice(to, 0, step);
+          }
+          return steps;
+        }),
+
+      runMacro: async (hub, macroId, connectedHubs = [hub]) => {
+        const macro = requireMacro(macroId);
+        if (get().progress) {
+          ToastManager.error("Another macro is running");
+          return;
+        }
+
+        stopRequested = false;
+        runningQueues.clear();
+        // Steps run on the hub that owns their command, or on the macro's hub when the command has no owner
+        const queueFor = (step: MacroStep): CommandQueue => {
+          const { hubId } = step.command;
+          const owner = hubId ? connectedHubs.find((connected) => connected.hubId === hubId) : hub;
+          if (!owner) {
+            throw new HarmonyError(`Hub ${hubId} is not connected`, ErrorCategory.STATE);
+          }
+          const queue = CommandQueue.getQueue(owner);
+          runningQueues.add(queue);
+          return queue;
+        };
+        info(`Running macro ${macro.name}`, { steps: macro.steps.length });
+        ToastManager.loading(`Running ${macro.name}...`);
+
+        try {
+          for (const [stepIndex, step] of macro.steps.entries()) {
+            for (let repeat = 1; repeat <= step.repeat && !stopRequested; repeat++) {
+              set((state) => {
+                state.progress = { macroId, stepIndex, repeat };
+              });
+              await queueFor(step).enqueue(
+                CommandQueue.createRequest(step.command, {
+                  execution:
+                    step.holdTime === undefined ? undefined : { mode: ExecutionMode.TAP, holdTime: step.holdTime },
+                }),
+              );
+            }
+            if (stopRequested) break;
+            if (step.delay > 0) {
+              await wait(step.delay);
+            }
+          }
+
+          if (stopRequested) {
+            info(`Stopped macro ${macro.name}`);
+            ToastManager.success(`Stopped ${macro.name}`);
+          } else {
+            ToastManager.success(`Ran ${macro.name}`);
+          }
+        } catch (err) {
+          if (err instanceof HarmonyError && err.code === "COMMAND_CANCELLED") {
+            info(`Stopped macro ${macro.name}`);
+            ToastManager.success(`Stopped ${macro.name}`);
+          } else {
+            const step = get().progress?.stepIndex ?? 0;
+            ErrorHandler.handle(
+              new HarmonyError(
+                `Macro ${macro.name} failed at step ${step + 1}`,
+                ErrorCategory.COMMAND_EXECUTION,
+                err instanceof Error ? err : undefined,
+              ),
+              "Macro failed",
+            );
+          }
+        } finally {
+          runningQueues.clear();
+          set((state) => {
+            state.progress = null;
+          });
+        }
+      },
+
+      stopMacro: () => {
+        if (!get().progress) return;
+        stopRequested = true;
+        cancelDelay?.();
+        runningQueues.forEach((queue) => queue.cancelAll());
+      },
+    };
+  }),
+);
+
+// Selectors
+export const selectMacros = (state: MacroStore): readonly HarmonyMacro[] => state.macros;
+export const selectMacroProgress = (state: MacroStore): MacroProgress | null => state.progress;
@@ -3,15 +3,14 @@
  * @module
  */
 
-import { getPreferenceValues } from "@raycast/api";
 import { create } from "zustand";
 import { immer } from "zustand/middleware/immer";
 
-import { LocalStorage } from "../services/localStorage";
 import { debug, error, info } from "../services/logger";
+import { getPreferences } from "../services/preferences";
+import { VersionedStorage } from "../services/versionedStorage";
 import { HarmonyDevice, HarmonyActivity } from "../types/core/harmony";
-import { View, ViewFilters, ViewActions, MutableViewState } from "../types/core/views";
-import { Preferences } from "../types/preferences";
+import { View, ViewFilters, ViewActions, MutableViewState, CommandDisplayMode } from "../types/core/views";
 import { toMutableDevice, toMutableActivity } from "../utils/state";
 
 /**
@@ -19,6 +18,39 @@ import { toMutableDevice, toMutableActivity } from "../utils/state";
  */
 type ViewStore = MutableViewState & ViewActions;
 
+/**
+ * Stored payload of the view state
+ */
+interface StoredViewState {
+  /** The persisted state */
+  state: {
+    /** Active list filters */
+    filters: ViewFilters;
+  };
+}
+
+/**
+ * Type guard for the stored view state
+ * @param obj - Stored payload
+ */
+function isStoredViewState(obj: unknown): obj is StoredViewState {
+  const filters = (obj as Partial<StoredViewState>).state?.filters;
+  return (
+    typeof filters === "object" &&
+    filters !== null &&
+    typeof filters.showFavorites === "boolean" &&
+    (filters.deviceType === undefined || typeof filters.deviceType === "string") &&
+    (filters.activityType === undefined || typeof filters.activityType === "string")
+  );
+}
+
+/** Storage of the view state */
+const viewStateStorage = VersionedStorage.register<StoredViewState>({
+  key: "harmony-view-state",
+  version: 1,
+  validate: isStoredViewState,
+});
+
 /**
  * Create a debounced function
  * @param fn Function to debounce
@@ -39,10 +71,7 @@ function debounce(fn: (state: ViewStore) => void, delay: number): (state: ViewSt
 // Create debounced save function
 const debouncedSave = debounce(async (state: ViewStore) => {
   try {
-    const persistedState = {
-      filters: state.filters,
-    };
-    await LocalStorage.setItem("harmony-view-state", JSON.stringify({ state: persistedState, version: 1 }));
+    await viewStateStorage.write({ state: { filters: state.filters } });
     debug("Saved view state");
   } catch (err) {
     error("Failed to save view state", err);
@@ -54,15 +83,15 @@ const debouncedSave = debounce(async (state: ViewStore) => {
  */
 export const useViewStore = create<ViewStore>()(
   immer((set, get) => {
-    const preferences = getPreferenceValues<Preferences>();
+    const preferences = getPreferences();
     debug("Initializing view store with preferences", { defaultView: preferences.defaultView });
 
     // Load persisted state
     const loadPersistedState = async (): Promise<void> => {
       try {
-        const persistedJSON = await LocalStorage.getItem("harmony-view-state");
-        if (persistedJSON) {
-          const { state } = JSON.parse(persistedJSON);
+        const stored = await viewStateStorage.read();
+        if (stored) {
+          const { state } = stored;
           set((draft) => {
             // Don't override the default view from preferences
             draft.filters = state.filters;
@@ -91,13 +120,14 @@ export const useViewStore = create<ViewStore>()(
         activityType: undefined,
         showFavorites: false,
       },
+      commandDisplayMode: preferences.commandDisplayMode,
 
       // View Actions
       changeView: (view: View) => {
         set((state: MutableViewState) => {
           // If transitioning from hubs view after connection, use the preferred view
           if (state.currentView === View.HUBS && view === View.DEVICES) {
-            const preferences = getPreferenceValues<Preferences>();
+            const preferences = getPreferences();
             state.currentView = preferences.defaultView === "activities" ? View.ACTIVITIES : View.DEVICES;
           } else {
             state.currentView = view;
@@ -166,6 +196,12 @@ export const useViewStore = create<ViewStore>()(
         });
         debouncedSave(get());
       },
+
+      toggleCommandDisplayMode: () => {
+        set((state: MutableViewState) => {
+          state.commandDisplayMode = state.commandDisplayMode === "grid" ? "list" : "grid";
+        });
+      },
     };
   }),
 );
@@ -176,6 +212,7 @@ export const selectSelectedDevice = (state: ViewStore): HarmonyDevice | null =>
 export const selectSelectedActivity = (state: ViewStore): HarmonyActivity | null => state.selectedActivity;
 export const selectSearchQuery = (state: ViewStore): string => state.searchQuery;
 export const selectFilters = (state: ViewStore): ViewFilters => state.filters;
+export const selectCommandDisplayMode = (state: ViewStore): CommandDisplayMode => state.commandDisplayMode;
 
 // Derived selectors
 export const selectIsDetailView = (state: ViewStore): boolean =>
@@ -24,6 +24,43 @@ export enum CommandStatus {
   CANCELLED = "CANCELLED",
 }
 
+/**
+ * How a command is pressed
+ * @enum {string}
+ */
+export enum ExecutionMode {
+  /** A single press held for the command hold time */
+  TAP = "tap",
+  /** A single press held for a given duration */
+  LONG_PRESS = "longPress",
+  /** Several presses with a pause between them */
+  REPEAT = "repeat",
+}
+
+/**
+ * Execution options for a command, by mode
+ */
+export type CommandExecution =
+  | {
+      readonly mode: ExecutionMode.TAP;
+      /** Hold time in milliseconds, overriding the commandHoldTime preference */
+      readonly holdTime?: number;
+    }
+  | {
+      readonly mode: ExecutionMode.LONG_PRESS;
+      /** How long the button is held in milliseconds */
+      readonly duration: number;
+    }
+  | {
+      readonly mode: ExecutionMode.REPEAT;
+      /** Number of presses */
+      readonly count: number;
+      /** Pause between presses in milliseconds */
+      readonly interval: number;
+      /** Hold time of each press in milliseconds, overriding the commandHoldTime preference */
+      readonly holdTime?: number;
+    };
+
 /**
  * Command queue configuration
  * @interface CommandQueueConfig
@@ -56,6 +93,8 @@ export interface CommandRequest {
   readonly timeout?: number;
   /** Optional number of retries */
   readonly retries?: number;
+  /** Optional execution mode, a single tap if not given */
+  readonly execution?: CommandExecution;
   /** Optional callback when command completes successfully */
   readonly onComplete?: () => void;
   /** Optional callback when command fails */
@@ -71,6 +110,8 @@ export interface CommandResult {
   readonly id: string;
   /** Command that was executed */
   readonly command: import("./harmony").HarmonyCommand;
+  /** How the command is pressed, a single tap if not given */
+  readonly execution?: CommandExecution;
   /** Current status of the command */
   readonly status: CommandStatus;
   /** Error if command failed */
@@ -83,6 +124,17 @@ export interface CommandResult {
   readonly completedAt?: number;
 }
 
+/**
+ * Point-in-time view of a command queue
+ * @interface CommandQueueSnapshot
+ */
+export interface CommandQueueSnapshot {
+  /** Commands waiting or executing, oldest first */
+  readonly pending: readonly CommandResult[];
+  /** Finished commands, newest first */
+  readonly history: readonly CommandResult[];
+}
+
 /**
  * Retry configuration for error handling
  * @interface RetryConfig
@@ -107,16 +159,16 @@ export interface RetryConfig {
  * @interface TimeoutConfig
  */
 export interface TimeoutConfig {
-  /** Connection timeout in milliseconds */
+  /** Time to wait for the hub to accept a connection in milliseconds */
   readonly connection: number;
-  /** Message timeout in milliseconds */
+  /** Time to wait for the hub to answer a request in milliseconds */
   readonly message: number;
-  /** Activity timeout in milliseconds */
+  /** Time to wait for the hub to confirm an activity change in milliseconds */
   readonly activity: number;
-  /** Command timeout in milliseconds */
+  /** Time to wait for a queued command to finish in milliseconds */
   readonly command: number;
-  /** Discovery timeout in milliseconds */
+  /** Time to wait for hubs to answer discovery in milliseconds */
   readonly discovery: number;
-  /** Cache timeout in milliseconds */
+  /** Time cached hub data stays valid in milliseconds */
   readonly cache: number;
 }
@@ -0,0 +1,51 @@
+/**
+ * Favorites type definitions for Harmony Hub integration
+ * @module
+ */
+
+import type { HarmonyCommand } from "./harmony";
+
+/**
+ * Kinds of items that can be starred
+ */
+export type FavoriteKind = "commands" | "devices" | "activities";
+
+/**
+ * Starred item IDs for a hub, by kind.
+ * Command IDs are only unique per device, so commands are keyed by favoriteCommandId.
+ * @interface HarmonyFavorites
+ */
+export interface HarmonyFavorites {
+  /** Starred commands, as deviceId:commandId */
+  readonly commands: readonly string[];
+  /** Starred device IDs */
+  readonly devices: readonly string[];
+  /** Starred activity IDs */
+  readonly activities: readonly string[];
+}
+
+/**
+ * ID used to star a command
+ * @param command - Command to identify
+ * @returns The command's device and command IDs joined by a colon
+ */
+export function favoriteCommandId(command: HarmonyCommand): string {
+  return `${command.deviceId}:${command.id}`;
+}
+
+/**
+ * Type guard to check if an object is a HarmonyFavorites.
+ * @param obj The object to check
+ * @returns True if every kind is a list of strings
+ */
+export function isHarmonyFavorites(obj: unknown): obj is HarmonyFavorites {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+
+  const favorites = obj as Partial<Record<FavoriteKind, unknown>>;
+  return (["commands", "devices", "activities"] as const).every((kind) => {
+    const ids = favorites[kind];
+    return Array.isArray(ids) && ids.every((id) => typeof id === "string");
+  });
+}
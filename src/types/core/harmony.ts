@@ -5,6 +5,8 @@
 
 import { debug } from "../../services/logger";
 
+import type { HarmonyError } from "./errors";
+
 /** Re-export ErrorCategory for backwards compatibility */
 export { ErrorCategory } from "./errors";
 
@@ -46,6 +48,8 @@ export interface HarmonyDevice {
   readonly type: string;
   /** Available commands for this device */
   readonly commands: readonly HarmonyCommand[];
+  /** ID of the hub the device is configured on, set once loaded into a hub session */
+  readonly hubId?: string;
 }
 
 /**
@@ -61,8 +65,12 @@ export interface HarmonyCommand {
   readonly label: string;
   /** ID of the device this command belongs to */
   readonly deviceId: string;
-  /** Command group for categorization (e.g., "IRCommand", "PowerToggle", etc.) */
+  /** Control group the hub lists the command under (e.g., "Power", "NumericBasic", "Volume") */
   readonly group?: string;
+  /** JSON encoded action from the hub config, e.g. {"command":"Mute","type":"IRCommand","deviceId":"123"} */
+  readonly action?: string;
+  /** ID of the hub that sends the command, set once loaded into a hub session */
+  readonly hubId?: string;
 }
 
 /**
@@ -78,6 +86,61 @@ export interface HarmonyActivity {
   readonly type: string;
   /** Whether this is the currently running activity */
   readonly isCurrent: boolean;
+  /** Control groups the activity routes to its devices, in hub order */
+  readonly controlGroups: readonly HarmonyControlGroup[];
+  /** Device states applied when the activity starts (the hub's "fixit") */
+  readonly powerStates: readonly HarmonyDevicePowerState[];
+  /** ID of the device that handles volume in this activity */
+  readonly volumeActivityRole?: string;
+  /** ID of the device that handles channel changes in this activity */
+  readonly channelChangingActivityRole?: string;
+  /** IDs of the sequences attached to the activity */
+  readonly sequences: readonly string[];
+  /** ID of the hub the activity is configured on, set once loaded into a hub session */
+  readonly hubId?: string;
+}
+
+/**
+ * A group of commands an activity routes to its devices (e.g. "Volume" to the receiver)
+ * @interface HarmonyControlGroup
+ */
+export interface HarmonyControlGroup {
+  /** Group name from the hub config (e.g. "Volume", "TransportBasic") */
+  readonly name: string;
+  /** Commands in the group, each targeting the device the hub routes it to */
+  readonly commands: readonly HarmonyCommand[];
+}
+
+/**
+ * State the hub puts a device in when an activity starts
+ * @interface HarmonyDevicePowerState
+ */
+export interface HarmonyDevicePowerState {
+  /** ID of the device */
+  readonly deviceId: string;
+  /** Power state (e.g. "On") */
+  readonly power?: string;
+  /** Input the device is switched to (e.g. "InputHdmi2") */
+  readonly input?: string;
+}
+
+/**
+ * A connected hub with the devices and activities loaded from it
+ * @interface HarmonyHubSession
+ */
+export interface HarmonyHubSession {
+  /** The connected hub */
+  readonly hub: HarmonyHub;
+  /** Devices configured on the hub */
+  readonly devices: readonly HarmonyDevice[];
+  /** Activities configured on the hub */
+  readonly activities: readonly HarmonyActivity[];
+  /** Activity running on the hub */
+  readonly currentActivity: HarmonyActivity | null;
+  /** Activity the hub reports as starting, until it is running */
+  readonly pendingActivityId: string | null;
+  /** Whether devices and activities come from the cache and have not been checked against the hub yet */
+  readonly isStale: boolean;
 }
 
 /**
@@ -101,6 +164,8 @@ export enum HarmonyStage {
   STOPPING_ACTIVITY = "stopping_activity",
   /** Executing a device command */
   EXECUTING_COMMAND = "executing_command",
+  /** Re-establishing a dropped hub connection */
+  RECONNECTING = "reconnecting",
   /** Refreshing hub state */
   REFRESHING = "refreshing",
   /** Successfully connected and ready */
@@ -122,24 +187,6 @@ export interface LoadingState {
   readonly message: string;
 }
 
-/**
- * Configuration for operation timeouts
- */
-export interface TimeoutConfig {
-  /** Timeout for network operations in milliseconds */
-  connection: number;
-  /** Timeout for message operations in milliseconds */
-  message: number;
-  /** Timeout for activity operations in milliseconds */
-  activity: number;
-  /** Timeout for command operations in milliseconds */
-  command: number;
-  /** Timeout for discovery operations in milliseconds */
-  discovery: number;
-  /** Timeout for cache operations in milliseconds */
-  cache: number;
-}
-
 /**
  * Type guard to check if an object is a HarmonyHub.
  * Performs detailed validation of all required properties.
@@ -206,6 +253,7 @@ export function isHarmonyDevice(obj: unknown): obj is HarmonyDevice {
     { field: "name", valid: typeof device.name === "string" && device.name.length > 0, value: device.name },
     { field: "type", valid: typeof device.type === "string" && device.type.length > 0, value: device.type },
     { field: "commands", valid: Array.isArray(device.commands), value: device.commands },
+    { field: "hubId", valid: device.hubId === undefined || typeof device.hubId === "string", value: device.hubId },
   ];
 
   const failures = validations.filter((v) => !v.valid);
@@ -285,7 +333,16 @@ export function isHarmonyCommand(obj: unknown): obj is HarmonyCommand {
     return false;
   }
 
-  // Optional group validation
+  // Optional group, action and hub validation
+  if (command.hubId !== undefined && typeof command.hubId !== "string") {
+    debug("isHarmonyCommand validation failed", {
+      reason: "Invalid hubId type",
+      receivedType: typeof command.hubId,
+      receivedValue: command.hubId,
+    });
+    return false;
+  }
+
   if (command.group !== undefined && typeof command.group !== "string") {
     debug("isHarmonyCommand validation failed", {
       reason: "Invalid group type",
@@ -295,9 +352,57 @@ export function isHarmonyCommand(obj: unknown): obj is HarmonyCommand {
     return false;
   }
 
+  if (command.action !== undefined && typeof command.action !== "string") {
+    debug("isHarmonyCommand validation failed", {
+      reason: "Invalid action type",
+      receivedType: typeof command.action,
+      receivedValue: command.action,
+    });
+    return false;
+  }
+
   return true;
 }
 
+/**
+ * Type guard to check if an object is a HarmonyControlGroup.
+ * Validates every command in the group as well.
+ * @param obj The object to check
+ * @returns True if the object is a HarmonyControlGroup
+ */
+export function isHarmonyControlGroup(obj: unknown): obj is HarmonyControlGroup {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+
+  const group = obj as Partial<HarmonyControlGroup>;
+  return (
+    typeof group.name === "string" &&
+    group.name.length > 0 &&
+    Array.isArray(group.commands) &&
+    group.commands.every(isHarmonyCommand)
+  );
+}
+
+/**
+ * Type guard to check if an object is a HarmonyDevicePowerState.
+ * @param obj The object to check
+ * @returns True if the object is a HarmonyDevicePowerState
+ */
+export function isHarmonyDevicePowerState(obj: unknown): obj is HarmonyDevicePowerState {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+
+  const state = obj as Partial<HarmonyDevicePowerState>;
+  return (
+    typeof state.deviceId === "string" &&
+    state.deviceId.length > 0 &&
+    (state.power === undefined || typeof state.power === "string") &&
+    (state.input === undefined || typeof state.input === "string")
+  );
+}
+
 /**
  * Type guard to check if an object is a HarmonyActivity.
  * Performs detailed validation of all required properties.
@@ -320,6 +425,37 @@ export function isHarmonyActivity(obj: unknown): obj is HarmonyActivity {
     { field: "name", valid: typeof activity.name === "string" && activity.name.length > 0, value: activity.name },
     { field: "type", valid: typeof activity.type === "string" && activity.type.length > 0, value: activity.type },
     { field: "isCurrent", valid: typeof activity.isCurrent === "boolean", value: activity.isCurrent },
+    {
+      field: "controlGroups",
+      valid: Array.isArray(activity.controlGroups) && activity.controlGroups.every(isHarmonyControlGroup),
+      value: activity.controlGroups,
+    },
+    {
+      field: "powerStates",
+      valid: Array.isArray(activity.powerStates) && activity.powerStates.every(isHarmonyDevicePowerState),
+      value: activity.powerStates,
+    },
+    {
+      field: "volumeActivityRole",
+      valid: activity.volumeActivityRole === undefined || typeof activity.volumeActivityRole === "string",
+      value: activity.volumeActivityRole,
+    },
+    {
+      field: "channelChangingActivityRole",
+      valid:
+        activity.channelChangingActivityRole === undefined || typeof activity.channelChangingActivityRole === "string",
+      value: activity.channelChangingActivityRole,
+    },
+    {
+      field: "sequences",
+      valid: Array.isArray(activity.sequences) && activity.sequences.every((id) => typeof id === "string"),
+      value: activity.sequences,
+    },
+    {
+      field: "hubId",
+      valid: activity.hubId === undefined || typeof activity.hubId === "string",
+      value: activity.hubId,
+    },
   ];
 
   const failures = validations.filter((v) => !v.valid);
@@ -425,6 +561,55 @@ export interface HarmonyMessage {
   };
 }
 
+/**
+ * Activity status reported in hub state digests
+ * @enum {number}
+ */
+export enum HarmonyActivityStatus {
+  /** No activity is running */
+  HUB_OFF = 0,
+  /** An activity is powering up its devices */
+  STARTING = 1,
+  /** An activity is running */
+  STARTED = 2,
+  /** The hub is powering everything off */
+  TURNING_OFF = 3,
+}
+
+/**
+ * State digest pushed by the hub whenever its state changes
+ * @interface HarmonyStateDigest
+ */
+export interface HarmonyStateDigest {
+  /** Activity the status refers to ("-1" when the hub is off) */
+  readonly activityId: string;
+  /** Progress of the activity */
+  readonly activityStatus: HarmonyActivityStatus;
+  /** Version of the hub configuration, bumped whenever devices or activities change */
+  readonly configVersion?: number;
+}
+
+/**
+ * Events emitted by HarmonyClient as the hub pushes state changes
+ * @interface HarmonyClientEvents
+ */
+export interface HarmonyClientEvents {
+  /** An activity has begun starting */
+  activityStarting: (activityId: string) => void;
+  /** An activity is now running */
+  activityStarted: (activity: HarmonyActivity) => void;
+  /** The hub has turned everything off */
+  activityStopped: () => void;
+  /** Devices or activities were changed on the hub */
+  configChanged: (configVersion: number) => void;
+  /** The connection dropped and a reconnection attempt is starting */
+  reconnecting: (attempt: number, maxAttempts: number) => void;
+  /** The connection was re-established */
+  reconnected: () => void;
+  /** Every reconnection attempt failed */
+  connectionLost: (error: HarmonyError) => void;
+}
+
 /**
  * Message handler type
  */
@@ -434,3 +619,24 @@ export type MessageHandler = (message: HarmonyMessage) => void;
  * Hub discovery handler type
  */
 export type HubDiscoveryHandler = (hub: HarmonyHub) => void;
+
+/**
+ * Hub discovery configuration
+ * @interface DiscoveryConfig
+ */
+export interface DiscoveryConfig {
+  /** Maximum time to wait for hubs to answer the broadcast in milliseconds */
+  readonly timeout?: number;
+  /** Time to wait for further hubs after one answers in milliseconds */
+  readonly completeDelay?: number;
+  /** Local port hubs send their discovery replies to */
+  readonly port?: number;
+  /** Address the discovery broadcast is sent to, defaults to the interface's broadcast address */
+  readonly broadcastAddress?: string;
+  /** Network interface to discover and scan on, e.g. en0 */
+  readonly networkInterface?: string;
+  /** Whether to probe every address in the scan range when no hub answers the broadcast */
+  readonly subnetScan?: boolean;
+  /** CIDR range to scan, defaults to the interface's network */
+  readonly scanRange?: string;
+}
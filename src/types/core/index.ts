@@ -8,6 +8,8 @@ export * from "./harmony";
 export * from "./errors";
 export * from "./validation";
 export * from "./command";
+export * from "./macro";
+export * from "./favorites";
 export * from "./logging";
 export * from "./websocket";
 export * from "./state";
@@ -16,13 +18,19 @@ export * from "./state";
 export type {
   // Harmony types
   HarmonyHub,
+  HarmonyHubSession,
   HarmonyDevice,
   HarmonyActivity,
   HarmonyCommand,
+  HarmonyControlGroup,
+  HarmonyDevicePowerState,
   LoadingState,
   HarmonyMessage,
   MessageHandler,
   HubDiscoveryHandler,
+  DiscoveryConfig,
+  HarmonyStateDigest,
+  HarmonyClientEvents,
 } from "./harmony";
 
 // Re-export commonly used enums
@@ -31,6 +39,8 @@ export {
   HarmonyStage,
 } from "./state";
 
+export { HarmonyActivityStatus } from "./harmony";
+
 // Re-export error types
 export { HarmonyError, ErrorCategory, ErrorSeverity, ErrorRecoveryAction } from "./errors";
 
@@ -38,10 +48,27 @@ export { HarmonyError, ErrorCategory, ErrorSeverity, ErrorRecoveryAction } from
 export { validateHub, validateDevice, validateCommand, validateActivity, validateLoadingState } from "./validation";
 
 // Re-export command types
-export type { CommandQueueConfig, CommandRequest, CommandResult, RetryConfig, TimeoutConfig } from "./command";
+export type {
+  CommandQueueConfig,
+  CommandQueueSnapshot,
+  CommandRequest,
+  CommandResult,
+  RetryConfig,
+  TimeoutConfig,
+} from "./command";
 
 export { CommandStatus } from "./command";
 
+// Re-export macro types
+export type { HarmonyMacro, MacroStep, MacroProgress } from "./macro";
+
+export { isHarmonyMacro, isMacroStep } from "./macro";
+
+// Re-export favorites types
+export type { FavoriteKind, HarmonyFavorites } from "./favorites";
+
+export { favoriteCommandId, isHarmonyFavorites } from "./favorites";
+
 // Re-export logging types
 export type { LogLevel, LogEntry, LoggerOptions, ILogger, LogFilter, LogFormatter } from "./logging";
 
@@ -57,18 +84,23 @@ export type {
   WebSocketEventHandler,
   WebSocketErrorHandler,
   QueuedMessage,
+  HubRequestFrame,
+  HubFrame,
+  WebSocketTransportEvents,
 } from "./websocket";
 
 export { WebSocketConnectionStatus, WebSocketMessageType } from "./websocket";
 
 // Re-export state types
-export type { View, ViewFilters, ViewActions, MutableViewState } from "./views";
+export type { View, ViewFilters, ViewActions, MutableViewState, CommandDisplayMode } from "./views";
 
 export {
   isHarmonyHub,
   isHarmonyDevice,
   isHarmonyActivity,
   isHarmonyCommand,
+  isHarmonyControlGroup,
+  isHarmonyDevicePowerState,
   validateHarmonyHub,
   validateHarmonyDevice,
   validateHarmonyActivity,
@@ -0,0 +1,133 @@
+/**
+ * Macro type definitions for Harmony Hub integration
+ * @module
+ */
+
+import { debug } from "../../services/logger";
+
+import { HarmonyCommand, isHarmonyCommand } from "./harmony";
+
+/**
+ * A single step of a macro
+ * @interface MacroStep
+ */
+export interface MacroStep {
+  /** Unique identifier for the step */
+  readonly id: string;
+  /** Command sent by this step */
+  readonly command: HarmonyCommand;
+  /** Number of times the command is sent */
+  readonly repeat: number;
+  /** Pause in milliseconds after the step before the next one starts */
+  readonly delay: number;
+  /** Hold time in milliseconds, defaults to the commandHoldTime preference */
+  readonly holdTime?: number;
+}
+
+/**
+ * An ordered list of commands run as one action
+ * @interface HarmonyMacro
+ */
+export interface HarmonyMacro {
+  /** Unique identifier for the macro */
+  readonly id: string;
+  /** User-friendly name of the macro */
+  readonly name: string;
+  /** Steps run in order */
+  readonly steps: readonly MacroStep[];
+  /** When the macro was created */
+  readonly createdAt: number;
+  /** When the macro was last changed */
+  readonly updatedAt: number;
+}
+
+/**
+ * Progress of a running macro
+ * @interface MacroProgress
+ */
+export interface MacroProgress {
+  /** ID of the running macro */
+  readonly macroId: string;
+  /** Index of the step being sent */
+  readonly stepIndex: number;
+  /** Repeat of the current step being sent, starting at 1 */
+  readonly repeat: number;
+}
+
+/**
+ * Type guard to check if an object is a MacroStep.
+ * @param obj The object to check
+ * @returns True if the object is a MacroStep
+ */
+export function isMacroStep(obj: unknown): obj is MacroStep {
+  if (typeof obj !== "object" || obj === null) {
+    debug("isMacroStep validation failed", { reason: "Not an object", received: typeof obj });
+    return false;
+  }
+
+  const step = obj as Partial<MacroStep>;
+  const validations = [
+    { field: "id", valid: typeof step.id === "string" && step.id.length > 0, value: step.id },
+    { field: "command", valid: isHarmonyCommand(step.command), value: step.command },
+    {
+      field: "repeat",
+      valid: typeof step.repeat === "number" && Number.isInteger(step.repeat) && step.repeat > 0,
+      value: step.repeat,
+    },
+    { field: "delay", valid: typeof step.delay === "number" && step.delay >= 0, value: step.delay },
+    {
+      field: "holdTime",
+      valid: step.holdTime === undefined || (typeof step.holdTime === "number" && step.holdTime >= 0),
+      value: step.holdTime,
+    },
+  ];
+
+  const failures = validations.filter((v) => !v.valid);
+  if (failures.length > 0) {
+    debug("isMacroStep validation failed", {
+      failures: failures.map((f) => ({
+        field: f.field,
+        receivedType: typeof f.value,
+        receivedValue: f.value,
+      })),
+    });
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Type guard to check if an object is a HarmonyMacro.
+ * Validates every step as well as the macro itself.
+ * @param obj The object to check
+ * @returns True if the object is a HarmonyMacro
+ */
+export function isHarmonyMacro(obj: unknown): obj is HarmonyMacro {
+  if (typeof obj !== "object" || obj === null) {
+    debug("isHarmonyMacro validation failed", { reason: "Not an object", received: typeof obj });
+    return false;
+  }
+
+  const macro = obj as Partial<HarmonyMacro>;
+  const validations = [
+    { field: "id", valid: typeof macro.id === "string" && macro.id.length > 0, value: macro.id },
+    { field: "name", valid: typeof macro.name === "string" && macro.name.length > 0, value: macro.name },
+    { field: "steps", valid: Array.isArray(macro.steps) && macro.steps.every(isMacroStep), value: macro.steps },
+    { field: "createdAt", valid: typeof macro.createdAt === "number", value: macro.createdAt },
+    { field: "updatedAt", valid: typeof macro.updatedAt === "number", value: macro.updatedAt },
+  ];
+
+  const failures = validations.filter((v) => !v.valid);
+  if (failures.length > 0) {
+    debug("isHarmonyMacro validation failed", {
+      failures: failures.map((f) => ({
+        field: f.field,
+        receivedType: typeof f.value,
+      })),
+    });
+    return false;
+  }
+
+  return true;
+}
@@ -3,31 +3,99 @@
  * @module
  */
 
+import type { CommandDisplayMode } from "./views";
+
 /**
- * User preferences for the Harmony extension
+ * Raw preference values as Raycast passes them, one per preference in package.json.
+ * Text fields arrive as strings and may be empty.
  * @interface Preferences
  */
 export interface Preferences {
   /** Default view to show after connecting */
-  defaultView: "devices" | "activities";
-  /** Whether to auto-connect to a single hub */
-  autoConnect: boolean;
+  defaultView: string;
   /** Command hold time in milliseconds */
   commandHoldTime: string;
+  /** Whether to enable debug mode */
+  debugMode: boolean;
+  /** Whether to auto-retry failed commands */
+  autoRetry: boolean;
+  /** Maximum number of retries */
+  maxRetries: string;
+  /** Whether to auto-connect to a single hub */
+  autoConnect: boolean;
+  /** How device commands are shown */
+  commandDisplayMode: string;
+  /** Number of columns in the command grid */
+  commandGridColumns: string;
+  /** Command execution timeout in milliseconds */
+  commandTimeout: string;
+  /** Activity change timeout in milliseconds */
+  activityTimeout: string;
+  /** Network request timeout in milliseconds */
+  networkTimeout: string;
+  /** Hub message timeout in milliseconds */
+  messageTimeout: string;
+  /** Cache duration in seconds */
+  cacheDuration: string;
   /** Discovery timeout in milliseconds */
   discoveryTimeout: string;
   /** Discovery complete delay in milliseconds */
   discoveryCompleteDelay: string;
-  /** Cache TTL in milliseconds */
-  cacheTTL: string;
-  /** Maximum cache entries */
-  maxCacheEntries: string;
-  /** Minimum log level */
-  minLogLevel: "DEBUG" | "INFO" | "WARN" | "ERROR";
-  /** Whether to include timestamps in logs */
-  includeTimestamp: boolean;
-  /** Whether to include log level in messages */
-  includeLogLevel: boolean;
-  /** Whether to log toast notifications */
-  logToasts: boolean;
+  /** Local port hubs send discovery replies to */
+  discoveryPort: string;
+  /** Address the discovery broadcast is sent to */
+  discoveryBroadcastAddress: string;
+  /** Network interface to discover on */
+  discoveryInterface: string;
+  /** Whether to scan a subnet when discovery finds no hubs */
+  subnetScan: boolean;
+  /** CIDR range to scan */
+  scanRange: string;
+}
+
+/**
+ * Parsed and validated preferences
+ * @interface HarmonyPreferences
+ */
+export interface HarmonyPreferences {
+  /** Default view to show after connecting */
+  readonly defaultView: "devices" | "activities";
+  /** Command hold time in milliseconds */
+  readonly commandHoldTime: number;
+  /** Whether to enable debug mode */
+  readonly debugMode: boolean;
+  /** Whether to auto-retry failed commands */
+  readonly autoRetry: boolean;
+  /** Maximum number of retries */
+  readonly maxRetries: number;
+  /** Whether to auto-connect to a single hub */
+  readonly autoConnect: boolean;
+  /** How device commands are shown */
+  readonly commandDisplayMode: CommandDisplayMode;
+  /** Number of columns in the command grid */
+  readonly commandGridColumns: number;
+  /** Command execution timeout in milliseconds */
+  readonly commandTimeout: number;
+  /** Activity change timeout in milliseconds */
+  readonly activityTimeout: number;
+  /** Network request timeout in milliseconds */
+  readonly networkTimeout: number;
+  /** Hub message timeout in milliseconds */
+  readonly messageTimeout: number;
+  /** Cache duration in seconds */
+  readonly cacheDuration: number;
+  /** Discovery timeout in milliseconds */
+  readonly discoveryTimeout: number;
+  /** Discovery complete delay in milliseconds */
+  readonly discoveryCompleteDelay: number;
+  /** Local port hubs send discovery replies to */
+  readonly discoveryPort: number;
+  /** Address the discovery broadcast is sent to, if set */
+  readonly discoveryBroadcastAddress?: string;
+  /** Network interface to discover on, if set */
+  readonly discoveryInterface?: string;
+  /** Whether to scan a subnet when discovery finds no hubs */
+  readonly subnetScan: boolean;
+  /** CIDR range to scan, if set */
+  readonly scanRange?: string;
 }
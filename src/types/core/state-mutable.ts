@@ -3,7 +3,15 @@
  * @module
  */
 
-import type { HarmonyHub, HarmonyDevice, HarmonyActivity, HarmonyCommand, LoadingState } from "./harmony";
+import type {
+  HarmonyHub,
+  HarmonyDevice,
+  HarmonyActivity,
+  HarmonyCommand,
+  HarmonyControlGroup,
+  HarmonyDevicePowerState,
+  LoadingState,
+} from "./harmony";
 
 /**
  * Mutable version of HarmonyHub
@@ -29,6 +37,8 @@ export interface MutableHarmonyCommand {
   label: string;
   deviceId: string;
   group?: string;
+  action?: string;
+  hubId?: string;
 }
 
 /**
@@ -39,6 +49,7 @@ export interface MutableHarmonyDevice {
   name: string;
   type: string;
   commands: MutableHarmonyCommand[];
+  hubId?: string;
 }
 
 /**
@@ -49,6 +60,29 @@ export interface MutableHarmonyActivity {
   name: string;
   type: string;
   isCurrent: boolean;
+  controlGroups: MutableHarmonyControlGroup[];
+  powerStates: MutableHarmonyDevicePowerState[];
+  volumeActivityRole?: string;
+  channelChangingActivityRole?: string;
+  sequences: string[];
+  hubId?: string;
+}
+
+/**
+ * Mutable version of HarmonyControlGroup
+ */
+export interface MutableHarmonyControlGroup {
+  name: string;
+  commands: MutableHarmonyCommand[];
+}
+
+/**
+ * Mutable version of HarmonyDevicePowerState
+ */
+export interface MutableHarmonyDevicePowerState {
+  deviceId: string;
+  power?: string;
+  input?: string;
 }
 
 /**
@@ -60,15 +94,35 @@ export interface MutableLoadingState {
   message: string;
 }
 
+/**
+ * Mutable version of HarmonyHubSession
+ */
+export interface MutableHubSession {
+  hub: MutableHarmonyHub;
+  devices: MutableHarmonyDevice[];
+  activities: MutableHarmonyActivity[];
+  currentActivity: MutableHarmonyActivity | null;
+  pendingActivityId: string | null;
+  isStale: boolean;
+}
+
 /**
  * Mutable version of HarmonyState
  */
 export interface MutableHarmonyState {
   hubs: MutableHarmonyHub[];
+  /** Hub whose macros, favorites and queue the views show; new sessions become selected */
   selectedHub: MutableHarmonyHub | null;
+  /** Connected hubs by hub ID, in connection order */
+  sessions: Record<string, MutableHubSession>;
+  /** Devices of every session, in session order */
   devices: MutableHarmonyDevice[];
+  /** Activities of every session, in session order */
   activities: MutableHarmonyActivity[];
+  /** Activity running on the selected hub */
   currentActivity: MutableHarmonyActivity | null;
+  /** Activity the hub reports as starting, until it is running */
+  pendingActivityId: string | null;
   error: Error | null;
   loadingState: MutableLoadingState;
 }
@@ -100,6 +154,8 @@ export function toMutableCommand(command: HarmonyCommand): MutableHarmonyCommand
     label: command.label,
     deviceId: command.deviceId,
     group: command.group,
+    action: command.action,
+    hubId: command.hubId,
   };
 }
 
@@ -112,6 +168,28 @@ export function toMutableDevice(device: HarmonyDevice): MutableHarmonyDevice {
     name: device.name,
     type: device.type,
     commands: device.commands.map(toMutableCommand),
+    hubId: device.hubId,
+  };
+}
+
+/**
+ * Convert a readonly HarmonyControlGroup to a mutable one
+ */
+export function toMutableControlGroup(group: HarmonyControlGroup): MutableHarmonyControlGroup {
+  return {
+    name: group.name,
+    commands: group.commands.map(toMutableCommand),
+  };
+}
+
+/**
+ * Convert a readonly HarmonyDevicePowerState to a mutable one
+ */
+export function toMutablePowerState(state: HarmonyDevicePowerState): MutableHarmonyDevicePowerState {
+  return {
+    deviceId: state.deviceId,
+    power: state.power,
+    input: state.input,
   };
 }
 
@@ -124,6 +202,12 @@ export function toMutableActivity(activity: HarmonyActivity): MutableHarmonyActi
     name: activity.name,
     type: activity.type,
     isCurrent: activity.isCurrent,
+    controlGroups: activity.controlGroups.map(toMutableControlGroup),
+    powerStates: activity.powerStates.map(toMutablePowerState),
+    volumeActivityRole: activity.volumeActivityRole,
+    channelChangingActivityRole: activity.channelChangingActivityRole,
+    sequences: [...activity.sequences],
+    hubId: activity.hubId,
   };
 }
 
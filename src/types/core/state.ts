@@ -26,6 +26,8 @@ export enum HarmonyStage {
   STOPPING_ACTIVITY = "stopping_activity",
   /** Executing a device command */
   EXECUTING_COMMAND = "executing_command",
+  /** Re-establishing a dropped hub connection */
+  RECONNECTING = "reconnecting",
   /** Refreshing hub state */
   REFRESHING = "refreshing",
   /** Successfully connected and ready */
@@ -16,8 +16,14 @@ export enum View {
   ACTIVITIES = "activities",
   DEVICE_DETAIL = "device_detail",
   ACTIVITY_DETAIL = "activity_detail",
+  MACROS = "macros",
 }
 
+/**
+ * How a device's commands are shown: a grouped list, or a grid laid out like a remote
+ */
+export type CommandDisplayMode = "list" | "grid";
+
 /**
  * View state for the application
  */
@@ -32,6 +38,8 @@ export interface ViewState {
   readonly searchQuery: string;
   /** Filter settings */
   readonly filters: ViewFilters;
+  /** How device commands are shown */
+  readonly commandDisplayMode: CommandDisplayMode;
 }
 
 /**
@@ -48,6 +56,8 @@ export interface MutableViewState {
   searchQuery: string;
   /** Filter settings */
   filters: MutableViewFilters;
+  /** How device commands are shown */
+  commandDisplayMode: CommandDisplayMode;
 }
 
 /**
@@ -83,7 +93,8 @@ export type ViewEvent =
   | { type: "SELECT_ACTIVITY"; activity: HarmonyActivity }
   | { type: "CLEAR_SELECTION" }
   | { type: "SET_SEARCH"; query: string }
-  | { type: "SET_FILTERS"; filters: Partial<ViewFilters> };
+  | { type: "SET_FILTERS"; filters: Partial<ViewFilters> }
+  | { type: "TOGGLE_COMMAND_DISPLAY_MODE" };
 
 /**
  * View action handlers
@@ -101,4 +112,6 @@ export interface ViewActions {
   setSearch: (query: string) => void;
   /** Update filter settings */
   setFilters: (filters: Partial<ViewFilters>) => void;
+  /** Switch device commands between the list and the remote grid */
+  toggleCommandDisplayMode: () => void;
 }
@@ -165,3 +165,55 @@ export interface QueuedMessage<T> {
   /** Timestamp for the message */
   readonly timestamp: number;
 }
+
+/**
+ * Request frame sent to the hub over the WebSocket
+ * @interface HubRequestFrame
+ */
+export interface HubRequestFrame {
+  /** Remote ID of the hub */
+  readonly hubId: string;
+  /** Time the hub may take to answer in seconds */
+  readonly timeout: number;
+  /** Command envelope */
+  readonly hbus: {
+    /** Hub command, e.g. "harmony.engine?holdAction" */
+    readonly cmd: string;
+    /** Request ID the hub echoes in its response */
+    readonly id: string;
+    /** Command parameters */
+    readonly params: Record<string, unknown>;
+  };
+}
+
+/**
+ * Frame received from the hub: a response to a request or a pushed notification
+ * @interface HubFrame
+ */
+export interface HubFrame {
+  /** Command the response answers */
+  readonly cmd?: string;
+  /** Request ID of the response */
+  readonly id?: string | number;
+  /** Status code of the response (200 on success) */
+  readonly code?: number | string;
+  /** Status message of the response */
+  readonly msg?: string;
+  /** Notification type, e.g. "connect.stateDigest?notify" */
+  readonly type?: string;
+  /** Response or notification data */
+  readonly data?: unknown;
+}
+
+/**
+ * Events emitted by the WebSocket transport
+ * @interface WebSocketTransportEvents
+ */
+export interface WebSocketTransportEvents {
+  /** The connection status changed */
+  status: (status: WebSocketConnectionStatus) => void;
+  /** The hub pushed a notification */
+  notification: (type: string, data: unknown) => void;
+  /** The connection failed */
+  error: WebSocketErrorHandler;
+}
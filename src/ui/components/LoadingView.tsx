@@ -40,6 +40,8 @@ function getStageIcon(stage: HarmonyStage): Icon {
       return Icon.Play;
     case HarmonyStage.EXECUTING_COMMAND:
       return Icon.Terminal;
+    case HarmonyStage.RECONNECTING:
+      return Icon.Network;
     case HarmonyStage.REFRESHING:
       return Icon.ArrowClockwise;
     case HarmonyStage.ERROR:
@@ -68,6 +70,8 @@ function getStageTitle(stage: HarmonyStage): string {
       return "Stopping Activity";
     case HarmonyStage.EXECUTING_COMMAND:
       return "Executing Command";
+    case HarmonyStage.RECONNECTING:
+      return "Reconnecting to Hub";
     case HarmonyStage.REFRESHING:
       return "Refreshing";
     case HarmonyStage.ERROR:
@@ -5,13 +5,15 @@
  */
 
 import { ActionPanel, Action, Icon } from "@raycast/api";
-import { memo } from "react";
+import React, { memo } from "react";
 
 /**
  * Props for the ActivityActionPanel component
  * @interface ActivityActionPanelProps
  */
 interface ActivityActionPanelProps {
+  /** Optional item-specific actions shown before the start/stop action */
+  children?: React.ReactNode;
   /** Whether this is the currently running activity */
   isCurrentActivity: boolean;
   /** Callback to start the activity */
@@ -34,6 +36,7 @@ interface ActivityActionPanelProps {
  * @returns JSX element
  */
 function ActivityActionPanelImpl({
+  children,
   isCurrentActivity,
   onStartActivity,
   onStopActivity,
@@ -44,6 +47,7 @@ function ActivityActionPanelImpl({
   return (
     <ActionPanel>
       <ActionPanel.Section>
+        {children}
         {!isCurrentActivity ? (
           <Action title="Start Activity" icon={Icon.Play} onAction={onStartActivity} />
         ) : (
@@ -0,0 +1,53 @@
+/**
+ * Actions for starring an item and filtering lists to favorites.
+ * @module
+ */
+
+import { Action, Icon } from "@raycast/api";
+import { memo } from "react";
+
+/**
+ * Props for the FavoriteActions component
+ * @interface FavoriteActionsProps
+ */
+interface FavoriteActionsProps {
+  /** Whether the item is starred */
+  isFavorite: boolean;
+  /** Callback to star or unstar the item */
+  onToggleFavorite: () => void;
+  /** Whether lists are restricted to starred items */
+  showFavorites: boolean;
+  /** Callback to switch the favorites-only filter */
+  onToggleShowFavorites: () => void;
+}
+
+/**
+ * Component for the favorite toggle and favorites-only filter actions.
+ * @param props - Component props
+ * @returns JSX element
+ */
+function FavoriteActionsImpl({
+  isFavorite,
+  onToggleFavorite,
+  showFavorites,
+  onToggleShowFavorites,
+}: FavoriteActionsProps): JSX.Element {
+  return (
+    <>
+      <Action
+        title={isFavorite ? "Remove from Favorites" : "Add to Favorites"}
+        icon={isFavorite ? Icon.StarDisabled : Icon.Star}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "s" }}
+        onAction={onToggleFavorite}
+      />
+      <Action
+        title={showFavorites ? "Show All" : "Show Favorites Only"}
+        icon={showFavorites ? Icon.List : Icon.Star}
+        shortcut={{ modifiers: ["cmd", "shift"], key: "f" }}
+        onAction={onToggleShowFavorites}
+      />
+    </>
+  );
+}
+
+export const FavoriteActions = memo(FavoriteActionsImpl);
@@ -0,0 +1,78 @@
+/**
+ * Form for adding a hub by IP address.
+ * Used when discovery cannot reach the hub, e.g. across VLANs, VPNs or Docker networks.
+ * @module
+ */
+
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { useState } from "react";
+
+import { ErrorHandler } from "../../../services/errorHandler";
+import { useHarmonyStore } from "../../../stores/harmony";
+import { HarmonyError } from "../../../types/core/errors";
+import { UNREACHABLE_ERROR_CODE } from "../../../utils/timeout";
+import { isValidIpAddress } from "../../../utils/validation";
+
+/**
+ * Form values submitted by the AddHubForm
+ * @interface AddHubFormValues
+ */
+interface AddHubFormValues {
+  /** IPv4 address of the hub */
+  ip: string;
+}
+
+/**
+ * Component for adding a hub by IP address.
+ * Probes the address, adds the hub to the hub list and connects to it.
+ * @returns JSX element
+ */
+export function AddHubForm(): JSX.Element {
+  const addHub = useHarmonyStore((state) => state.addHub);
+  const { pop } = useNavigation();
+  const [ipError, setIpError] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (values: AddHubFormValues): Promise<void> => {
+    const ip = values.ip.trim();
+    if (!isValidIpAddress(ip)) {
+      setIpError("Enter an IPv4 address like 192.168.1.20");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await addHub(ip);
+      pop();
+    } catch (err) {
+      if (err instanceof HarmonyError && (err.code === UNREACHABLE_ERROR_CODE || err.code === "HUB_PROBE_FAILED")) {
+        setIpError(err.message);
+      } else {
+        ErrorHandler.handle(err, "Failed to add hub");
+      }
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle="Add Hub Manually"
+      isLoading={isLoading}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Add Hub" icon={Icon.Plus} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Enter the hub's IP address if discovery cannot find it on your network." />
+      <Form.TextField
+        id="ip"
+        title="IP Address"
+        placeholder="192.168.1.20"
+        error={ipError}
+        onChange={() => setIpError(undefined)}
+      />
+    </Form>
+  );
+}
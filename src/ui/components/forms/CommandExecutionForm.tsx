@@ -0,0 +1,130 @@
+/**
+ * Form for repeating or long-pressing a command.
+ * @module
+ */
+
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { useState } from "react";
+
+import { useCommandExecution } from "../../../hooks/useCommandExecution";
+import { ExecutionMode } from "../../../types/core/command";
+import { HarmonyCommand } from "../../../types/core/harmony";
+import { parseWholeNumber } from "../../../utils/validation";
+
+/** Presses sent by default when repeating */
+const DEFAULT_REPEAT_COUNT = 5;
+/** Pause between repeated presses by default in milliseconds */
+export const DEFAULT_REPEAT_INTERVAL = 300;
+/** Duration of a long press by default in milliseconds */
+export const DEFAULT_LONG_PRESS_DURATION = 1000;
+
+/**
+ * Props for the CommandExecutionForm component
+ * @interface CommandExecutionFormProps
+ */
+interface CommandExecutionFormProps {
+  /** Command to send */
+  command: HarmonyCommand;
+  /** Whether to repeat the command or hold it down */
+  mode: ExecutionMode.REPEAT | ExecutionMode.LONG_PRESS;
+}
+
+/**
+ * Form values submitted by the CommandExecutionForm
+ * @interface CommandExecutionFormValues
+ */
+interface CommandExecutionFormValues {
+  /** Number of presses */
+  count?: string;
+  /** Pause between presses in milliseconds */
+  interval?: string;
+  /** How long the button is held in milliseconds */
+  duration?: string;
+}
+
+/** Validation errors keyed by field */
+type CommandExecutionFormErrors = Partial<Record<keyof CommandExecutionFormValues, string>>;
+
+/**
+ * Component for sending a command several times or holding it down.
+ * @param props - Component props
+ * @returns JSX element
+ */
+export function CommandExecutionForm({ command, mode }: CommandExecutionFormProps): JSX.Element {
+  const { execute } = useCommandExecution();
+  const { pop } = useNavigation();
+  const [errors, setErrors] = useState<CommandExecutionFormErrors>({});
+
+  const handleSubmit = async (values: CommandExecutionFormValues): Promise<void> => {
+    if (mode === ExecutionMode.LONG_PRESS) {
+      const duration = parseWholeNumber(values.duration ?? "", 1);
+      if (duration === null) {
+        setErrors({ duration: "Enter a whole number of milliseconds" });
+        return;
+      }
+      pop();
+      await execute(command, { mode, duration });
+      return;
+    }
+
+    const count = parseWholeNumber(values.count ?? "", 1);
+    const interval = parseWholeNumber(values.interval ?? "", 0);
+    if (count === null || interval === null) {
+      setErrors({
+        count: count === null ? "Enter a whole number of at least 1" : undefined,
+        interval: interval === null ? "Enter a whole number of milliseconds" : undefined,
+      });
+      return;
+    }
+    pop();
+    await execute(command, { mode, count, interval });
+  };
+
+  const clearError = (field: keyof CommandExecutionFormValues) => () => setErrors({ ...errors, [field]: undefined });
+
+  return (
+    <Form
+      navigationTitle={`${mode === ExecutionMode.REPEAT ? "Repeat" : "Long Press"} ${command.label}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={mode === ExecutionMode.REPEAT ? "Repeat Command" : "Hold Command"}
+            icon={mode === ExecutionMode.REPEAT ? Icon.Repeat : Icon.Stopwatch}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Command" text={command.label} />
+      {mode === ExecutionMode.REPEAT ? (
+        <>
+          <Form.TextField
+            id="count"
+            title="Repeat"
+            info="Number of times the command is sent"
+            defaultValue={String(DEFAULT_REPEAT_COUNT)}
+            error={errors.count}
+            onChange={clearError("count")}
+          />
+          <Form.TextField
+            id="interval"
+            title="Interval (ms)"
+            info="Pause between presses"
+            defaultValue={String(DEFAULT_REPEAT_INTERVAL)}
+            error={errors.interval}
+            onChange={clearError("interval")}
+          />
+        </>
+      ) : (
+        <Form.TextField
+          id="duration"
+          title="Duration (ms)"
+          info="How long the button is held down"
+          defaultValue={String(DEFAULT_LONG_PRESS_DURATION)}
+          error={errors.duration}
+          onChange={clearError("duration")}
+        />
+      )}
+    </Form>
+  );
+}
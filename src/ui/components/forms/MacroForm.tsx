@@ -0,0 +1,91 @@
+/**
+ * Form for creating or renaming a macro.
+ * @module
+ */
+
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { useState } from "react";
+
+import { useMacros } from "../../../hooks/useMacros";
+import { ErrorHandler } from "../../../services/errorHandler";
+import { ToastManager } from "../../../services/toast";
+import { HarmonyCommand } from "../../../types/core/harmony";
+import { HarmonyMacro } from "../../../types/core/macro";
+import { isNonEmptyString } from "../../../utils/validation";
+
+/**
+ * Props for the MacroForm component
+ * @interface MacroFormProps
+ */
+interface MacroFormProps {
+  /** Macro to rename; a new macro is created when omitted */
+  macro?: HarmonyMacro;
+  /** Command the new macro starts with */
+  initialCommand?: HarmonyCommand;
+}
+
+/**
+ * Form values submitted by the MacroForm
+ * @interface MacroFormValues
+ */
+interface MacroFormValues {
+  /** Name of the macro */
+  name: string;
+}
+
+/**
+ * Component for naming a macro.
+ * Creates a macro, optionally seeded with a command, or renames an existing one.
+ * @param props - Component props
+ * @returns JSX element
+ */
+export function MacroForm({ macro, initialCommand }: MacroFormProps): JSX.Element {
+  const { createMacro, renameMacro } = useMacros();
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  const handleSubmit = async (values: MacroFormValues): Promise<void> => {
+    if (!isNonEmptyString(values.name)) {
+      setNameError("Name is required");
+      return;
+    }
+
+    try {
+      if (macro) {
+        await renameMacro(macro.id, values.name);
+        ToastManager.success(`Renamed macro to ${values.name.trim()}`);
+      } else {
+        await createMacro(values.name, initialCommand);
+        ToastManager.success(`Created macro ${values.name.trim()}`);
+      }
+      pop();
+    } catch (err) {
+      ErrorHandler.handle(err, "Failed to save macro");
+    }
+  };
+
+  return (
+    <Form
+      navigationTitle={macro ? "Rename Macro" : "New Macro"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={macro ? "Rename Macro" : "Create Macro"}
+            icon={Icon.Checkmark}
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Movie Night"
+        defaultValue={macro?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      {initialCommand && <Form.Description title="First Step" text={initialCommand.label} />}
+    </Form>
+  );
+}
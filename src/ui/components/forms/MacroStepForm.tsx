@@ -0,0 +1,112 @@
+/**
+ * Form for editing a macro step's repeat count, delay and hold time.
+ * @module
+ */
+
+import { Action, ActionPanel, Form, Icon, useNavigation } from "@raycast/api";
+import { useState } from "react";
+
+import { useMacros } from "../../../hooks/useMacros";
+import { ErrorHandler } from "../../../services/errorHandler";
+import { MacroStep } from "../../../types/core/macro";
+import { parseWholeNumber } from "../../../utils/validation";
+
+/**
+ * Props for the MacroStepForm component
+ * @interface MacroStepFormProps
+ */
+interface MacroStepFormProps {
+  /** ID of the macro the step belongs to */
+  macroId: string;
+  /** Step to edit */
+  step: MacroStep;
+}
+
+/**
+ * Form values submitted by the MacroStepForm
+ * @interface MacroStepFormValues
+ */
+interface MacroStepFormValues {
+  /** Number of presses */
+  repeat: string;
+  /** Pause after the step in milliseconds */
+  delay: string;
+  /** Hold time in milliseconds, blank for the preference */
+  holdTime: string;
+}
+
+/** Validation errors keyed by field */
+type MacroStepFormErrors = Partial<Record<keyof MacroStepFormValues, string>>;
+
+/**
+ * Component for editing a macro step.
+ * @param props - Component props
+ * @returns JSX element
+ */
+export function MacroStepForm({ macroId, step }: MacroStepFormProps): JSX.Element {
+  const { updateStep } = useMacros();
+  const { pop } = useNavigation();
+  const [errors, setErrors] = useState<MacroStepFormErrors>({});
+
+  const handleSubmit = async (values: MacroStepFormValues): Promise<void> => {
+    const repeat = parseWholeNumber(values.repeat, 1);
+    const delay = parseWholeNumber(values.delay, 0);
+    const holdTime = values.holdTime.trim() === "" ? undefined : parseWholeNumber(values.holdTime, 0);
+
+    const nextErrors: MacroStepFormErrors = {
+      repeat: repeat === null ? "Enter a whole number of at least 1" : undefined,
+      delay: delay === null ? "Enter a whole number of milliseconds" : undefined,
+      holdTime: holdTime === null ? "Enter a whole number of milliseconds or leave blank" : undefined,
+    };
+    if (repeat === null || delay === null || holdTime === null) {
+      setErrors(nextErrors);
+      return;
+    }
+
+    try {
+      await updateStep(macroId, step.id, { repeat, delay, holdTime });
+      pop();
+    } catch (err) {
+      ErrorHandler.handle(err, "Failed to update macro step");
+    }
+  };
+
+  const clearError = (field: keyof MacroStepFormValues) => () => setErrors({ ...errors, [field]: undefined });
+
+  return (
+    <Form
+      navigationTitle={`Edit ${step.command.label}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Step" icon={Icon.Checkmark} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description title="Command" text={step.command.label} />
+      <Form.TextField
+        id="repeat"
+        title="Repeat"
+        info="Number of times the command is sent"
+        defaultValue={String(step.repeat)}
+        error={errors.repeat}
+        onChange={clearError("repeat")}
+      />
+      <Form.TextField
+        id="delay"
+        title="Delay After (ms)"
+        info="Pause before the next step starts"
+        defaultValue={String(step.delay)}
+        error={errors.delay}
+        onChange={clearError("delay")}
+      />
+      <Form.TextField
+        id="holdTime"
+        title="Hold Time (ms)"
+        info="How long each press is held. Leave blank to use the Command Hold Time preference."
+        defaultValue={step.holdTime === undefined ? "" : String(step.holdTime)}
+        error={errors.holdTime}
+        onChange={clearError("holdTime")}
+      />
+    </Form>
+  );
+}
@@ -7,8 +7,10 @@
 import { List, Icon, Action, ActionPanel } from "@raycast/api";
 import { memo, useMemo } from "react";
 
+import { useFavorites } from "../../../hooks/useFavorites";
 import { useHarmony } from "../../../hooks/useHarmony";
-import { HarmonyActivity } from "../../../types/core/harmony";
+import { HarmonyActivity, HarmonyStage } from "../../../types/core/harmony";
+import { FavoriteActions } from "../actions/FavoriteActions";
 
 /**
  * Props for the ActivitiesView component
@@ -17,6 +19,10 @@ import { HarmonyActivity } from "../../../types/core/harmony";
 interface ActivitiesViewProps {
   /** Callback when an activity is selected */
   onActivitySelect: (activity: HarmonyActivity) => void;
+  /** Optional callback to show the macros view */
+  onShowMacros?: () => void;
+  /** Optional callback to show the hubs view, to connect or disconnect hubs */
+  onShowHubs?: () => void;
   /** Optional callback to go back */
   onBack?: () => void;
 }
@@ -28,8 +34,25 @@ interface ActivitiesViewProps {
  * @param props - Component props
  * @returns JSX element
  */
-function ActivitiesViewImpl({ onActivitySelect, onBack }: ActivitiesViewProps): JSX.Element {
-  const { activities, refresh, clearCache } = useHarmony();
+function ActivitiesViewImpl({ onActivitySelect, onShowMacros, onShowHubs, onBack }: ActivitiesViewProps): JSX.Element {
+  const {
+    activities,
+    pendingActivityId,
+    isStale,
+    loadingState,
+    hubLabel,
+    startActivity,
+    stopActivity,
+    refresh,
+    clearCache,
+  } = useHarmony();
+  const { isFavorite, toggleFavorite, showFavorites, toggleShowFavorites } = useFavorites();
+
+  // Starred activities are listed first, or on their own when filtering to favorites
+  const favoriteActivities = useMemo(
+    () => activities.filter((activity) => isFavorite("activities", activity.id, activity.hubId)),
+    [activities, isFavorite],
+  );
 
   // Memoize activity grouping
   const { activityTypes, activitiesByType } = useMemo(() => {
@@ -51,50 +74,123 @@ function ActivitiesViewImpl({ onActivitySelect, onBack }: ActivitiesViewProps):
 
   // Memoize activity list items
   const renderActivityItem = useMemo(
-    () => (activity: HarmonyActivity) => (
-      <List.Item
-        key={activity.id}
-        title={activity.name}
-        subtitle={activity.type}
-        icon={activity.isCurrent ? Icon.Play : Icon.Stop}
-        accessories={[
-          {
-            icon: activity.isCurrent ? Icon.CircleFilled : Icon.Circle,
-            tooltip: activity.isCurrent ? "Running" : "Stopped",
-          },
-        ]}
-        actions={
-          <ActionPanel>
-            <ActionPanel.Section>
-              <Action title="Select Activity" icon={Icon.ArrowRight} onAction={() => onActivitySelect(activity)} />
-            </ActionPanel.Section>
-            <ActionPanel.Section>
-              {refresh && <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} />}
-              {clearCache && <Action title="Clear Cache" icon={Icon.Trash} onAction={clearCache} />}
-              {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
-            </ActionPanel.Section>
-          </ActionPanel>
-        }
-      />
-    ),
-    [onActivitySelect, refresh, clearCache, onBack],
+    () => (activity: HarmonyActivity) => {
+      const isStarting = activity.id === pendingActivityId;
+      const starred = isFavorite("activities", activity.id, activity.hubId);
+      const hubName = hubLabel(activity.hubId);
+      return (
+        <List.Item
+          key={`${activity.hubId}:${activity.id}`}
+          title={activity.name}
+          subtitle={activity.type}
+          icon={activity.isCurrent ? Icon.Play : Icon.Stop}
+          accessories={[
+            ...(hubName ? [{ tag: hubName, tooltip: "Hub" }] : []),
+            ...(starred ? [{ icon: Icon.Star, tooltip: "Favorite" }] : []),
+            isStarting
+              ? { icon: Icon.CircleProgress50, tooltip: "Starting" }
+              : {
+                  icon: activity.isCurrent ? Icon.CircleFilled : Icon.Circle,
+                  tooltip: activity.isCurrent ? "Running" : "Stopped",
+                },
+          ]}
+          actions={
+            <ActionPanel>
+              <ActionPanel.Section>
+                <Action title="Show Activity" icon={Icon.ArrowRight} onAction={() => onActivitySelect(activity)} />
+                {activity.isCurrent ? (
+                  <Action title="Stop Activity" icon={Icon.Stop} onAction={() => stopActivity(activity.hubId)} />
+                ) : (
+                  <Action
+                    title="Start Activity"
+                    icon={Icon.Play}
+                    onAction={() => startActivity(activity.id, activity.hubId)}
+                  />
+                )}
+                <FavoriteActions
+                  isFavorite={starred}
+                  onToggleFavorite={() => toggleFavorite("activities", activity.id, activity.name, activity.hubId)}
+                  showFavorites={showFavorites}
+                  onToggleShowFavorites={toggleShowFavorites}
+                />
+                {onShowMacros && (
+                  <Action
+                    title="Show Macros"
+                    icon={Icon.List}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+                    onAction={onShowMacros}
+                  />
+                )}
+                {onShowHubs && (
+                  <Action
+                    title="Manage Hubs"
+                    icon={Icon.Network}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
+                    onAction={onShowHubs}
+                  />
+                )}
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                {refresh && <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} />}
+                {clearCache && <Action title="Clear Cache" icon={Icon.Trash} onAction={clearCache} />}
+                {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      );
+    },
+    [
+      pendingActivityId,
+      hubLabel,
+      onActivitySelect,
+      startActivity,
+      stopActivity,
+      onShowMacros,
+      onShowHubs,
+      isFavorite,
+      toggleFavorite,
+      showFavorites,
+      toggleShowFavorites,
+      refresh,
+      clearCache,
+      onBack,
+    ],
   );
 
   return (
     <List
-      navigationTitle="Activities"
+      navigationTitle={isStale ? "Activities (Cached)" : "Activities"}
       searchBarPlaceholder="Search activities..."
-      isLoading={false}
+      isLoading={pendingActivityId !== null || (isStale && loadingState.stage !== HarmonyStage.ERROR)}
       isShowingDetail={false}
     >
-      {activityTypes.map((type) => {
-        const typeActivities = activitiesByType.get(type) || [];
-        return (
-          <List.Section key={type} title={type}>
-            {typeActivities.map(renderActivityItem)}
-          </List.Section>
-        );
-      })}
+      {showFavorites && (
+        <List.EmptyView
+          icon={Icon.Star}
+          title="No Favorite Activities"
+          description="Star activities with ⌘⇧S, or show all activities with ⌘⇧F"
+          actions={
+            <ActionPanel>
+              <Action title="Show All" icon={Icon.List} onAction={toggleShowFavorites} />
+            </ActionPanel>
+          }
+        />
+      )}
+      {favoriteActivities.length > 0 && (
+        <List.Section key="favorites" title="Favorites">
+          {favoriteActivities.map(renderActivityItem)}
+        </List.Section>
+      )}
+      {!showFavorites &&
+        activityTypes.map((type) => {
+          const typeActivities = activitiesByType.get(type) || [];
+          return (
+            <List.Section key={type} title={type}>
+              {typeActivities.map(renderActivityItem)}
+            </List.Section>
+          );
+        })}
     </List>
   );
 }
@@ -0,0 +1,158 @@
+/**
+ * View component for a single activity.
+ * Shows the activity's member devices, its control groups and its power
+ * sequences, with start/stop and command actions.
+ * @module
+ */
+
+import { List, Icon, Action } from "@raycast/api";
+import { memo, useMemo } from "react";
+
+import { useCommandExecution } from "../../../hooks/useCommandExecution";
+import { useHarmony } from "../../../hooks/useHarmony";
+import { HarmonyActivity, HarmonyCommand, HarmonyDevice } from "../../../types/core/harmony";
+import { ActivityActionPanel } from "../actions/ActivityActionPanel";
+
+/**
+ * Props for the ActivityDetailView component
+ * @interface ActivityDetailViewProps
+ */
+interface ActivityDetailViewProps {
+  /** Activity to show */
+  activity: HarmonyActivity;
+  /** Callback when a member device is selected */
+  onDeviceSelect: (device: HarmonyDevice) => void;
+  /** Optional callback to go back */
+  onBack?: () => void;
+}
+
+/**
+ * Component for displaying an activity's devices, controls and power sequences.
+ * Selecting the activity no longer starts it; start and stop are explicit actions.
+ * @param props - Component props
+ * @returns JSX element
+ */
+function ActivityDetailViewImpl({ activity: selected, onDeviceSelect, onBack }: ActivityDetailViewProps): JSX.Element {
+  const { activities, devices, pendingActivityId, startActivity, stopActivity, refresh, clearCache } = useHarmony();
+  const { execute } = useCommandExecution();
+
+  // The selected activity is a snapshot, so read running state and config from the live list
+  const activity = activities.find((a) => a.id === selected.id && a.hubId === selected.hubId) ?? selected;
+  const isCurrent = activity.isCurrent;
+  const isStarting = pendingActivityId === activity.id;
+
+  // Only the devices of the hub the activity runs on
+  const devicesById = useMemo(
+    () => new Map(devices.filter((d) => d.hubId === activity.hubId).map((device) => [device.id, device])),
+    [devices, activity.hubId],
+  );
+  const deviceName = (deviceId: string): string => devicesById.get(deviceId)?.name ?? deviceId;
+
+  // Shared start/stop actions for every item in the view
+  const activityActions = (itemActions?: JSX.Element): JSX.Element => (
+    <ActivityActionPanel
+      isCurrentActivity={isCurrent}
+      onStartActivity={() => startActivity(activity.id, activity.hubId)}
+      onStopActivity={() => stopActivity(activity.hubId)}
+      onRefresh={refresh}
+      onClearCache={clearCache}
+      onBack={onBack}
+    >
+      {itemActions}
+    </ActivityActionPanel>
+  );
+
+  const renderCommandItem = (command: HarmonyCommand): JSX.Element => (
+    <List.Item
+      key={`${command.deviceId}:${command.id}`}
+      title={command.label}
+      subtitle={deviceName(command.deviceId)}
+      icon={Icon.Terminal}
+      actions={activityActions(
+        <Action title="Execute Command" icon={Icon.Terminal} onAction={() => execute(command)} />,
+      )}
+    />
+  );
+
+  return (
+    <List
+      navigationTitle={activity.name}
+      searchBarPlaceholder={`Search ${activity.name}...`}
+      isLoading={isStarting}
+      isShowingDetail={false}
+    >
+      <List.Section title="Activity">
+        <List.Item
+          title={activity.name}
+          subtitle={activity.type}
+          icon={isCurrent ? Icon.Play : Icon.Stop}
+          accessories={[
+            isStarting
+              ? { icon: Icon.CircleProgress50, text: "Starting" }
+              : { icon: isCurrent ? Icon.CircleFilled : Icon.Circle, text: isCurrent ? "Running" : "Stopped" },
+          ]}
+          actions={activityActions()}
+        />
+      </List.Section>
+      <List.Section title="Devices">
+        {activity.powerStates.map(({ deviceId }) => {
+          const device = devicesById.get(deviceId);
+          return (
+            <List.Item
+              key={deviceId}
+              title={deviceName(deviceId)}
+              subtitle={device?.type}
+              icon={Icon.Devices}
+              actions={activityActions(
+                device && (
+                  <Action title="Show Commands" icon={Icon.ArrowRight} onAction={() => onDeviceSelect(device)} />
+                ),
+              )}
+            />
+          );
+        })}
+      </List.Section>
+      {activity.controlGroups.map((group) => (
+        <List.Section key={group.name} title={group.name}>
+          {group.commands.map(renderCommandItem)}
+        </List.Section>
+      ))}
+      <List.Section title="Power On Sequence">
+        {activity.powerStates.flatMap((state) => [
+          ...(state.power
+            ? [
+                <List.Item
+                  key={`${state.deviceId}:power`}
+                  title={`Turn ${state.power.toLowerCase()} ${deviceName(state.deviceId)}`}
+                  icon={Icon.Power}
+                  actions={activityActions()}
+                />,
+              ]
+            : []),
+          ...(state.input
+            ? [
+                <List.Item
+                  key={`${state.deviceId}:input`}
+                  title={`Switch ${deviceName(state.deviceId)} to ${state.input}`}
+                  icon={Icon.Switch}
+                  actions={activityActions()}
+                />,
+              ]
+            : []),
+        ])}
+      </List.Section>
+      <List.Section title="Power Off Sequence" subtitle="When the activity stops">
+        {activity.powerStates.map(({ deviceId }) => (
+          <List.Item
+            key={deviceId}
+            title={`Turn off ${deviceName(deviceId)}`}
+            icon={Icon.Power}
+            actions={activityActions()}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
+
+export const ActivityDetailView = memo(ActivityDetailViewImpl);
@@ -1,9 +1,120 @@
-import { List, Icon, Action, ActionPanel } from "@raycast/api";
-import { memo, useMemo } from "react";
+import { List, Grid, Icon, Action, ActionPanel, Image } from "@raycast/api";
+import { memo, useCallback, useMemo } from "react";
 
 import { useCommandExecution } from "../../../hooks/useCommandExecution";
+import { useFavorites } from "../../../hooks/useFavorites";
 import { useHarmony } from "../../../hooks/useHarmony";
+import { useMacros } from "../../../hooks/useMacros";
+import { getPreferences } from "../../../services/preferences";
+import { ToastManager } from "../../../services/toast";
+import { useViewStore, selectCommandDisplayMode } from "../../../stores/view";
+import { CommandStatus, ExecutionMode } from "../../../types/core/command";
+import { favoriteCommandId } from "../../../types/core/favorites";
 import { HarmonyCommand } from "../../../types/core/harmony";
+import { layoutRemote } from "../../../utils/remoteLayout";
+import { FavoriteActions } from "../actions/FavoriteActions";
+import { CommandExecutionForm, DEFAULT_REPEAT_INTERVAL } from "../forms/CommandExecutionForm";
+import { MacroForm } from "../forms/MacroForm";
+
+/** Press counts offered in the Repeat submenu, for stepping volume and channels */
+const REPEAT_COUNTS = [2, 3, 5, 10];
+
+/** Button icons for well-known command names on the remote grid */
+const COMMAND_ICONS: Record<string, Image.Source> = {
+  poweroff: Icon.Power,
+  powertoggle: Icon.Power,
+  poweron: Icon.Power,
+  directionup: Icon.ArrowUp,
+  directiondown: Icon.ArrowDown,
+  directionleft: Icon.ArrowLeft,
+  directionright: Icon.ArrowRight,
+  select: Icon.CircleFilled,
+  ok: Icon.CircleFilled,
+  menu: Icon.Sidebar,
+  home: Icon.House,
+  info: Icon.Info,
+  back: Icon.ArrowCounterClockwise,
+  exit: Icon.Logout,
+  play: Icon.Play,
+  pause: Icon.Pause,
+  stop: Icon.Stop,
+  rewind: Icon.Rewind,
+  fastforward: Icon.Forward,
+  volumeup: Icon.SpeakerUp,
+  volumedown: Icon.SpeakerDown,
+  mute: Icon.SpeakerOff,
+  channelup: Icon.ChevronUp,
+  channeldown: Icon.ChevronDown,
+  "0": Icon.Number00,
+  "1": Icon.Number01,
+  "2": Icon.Number02,
+  "3": Icon.Number03,
+  "4": Icon.Number04,
+  "5": Icon.Number05,
+  "6": Icon.Number06,
+  "7": Icon.Number07,
+  "8": Icon.Number08,
+  "9": Icon.Number09,
+};
+
+/**
+ * Gets the button icon for a command on the remote grid
+ * @param command - The command
+ * @returns A matching icon, or a plain button
+ */
+function getCommandIcon(command: HarmonyCommand): Image.Source {
+  const name = command.name.toLowerCase().replace(/^number(?=\d$)/, "");
+  return COMMAND_ICONS[name] ?? Icon.Circle;
+}
+
+/** Control groups in the order a remote presents them; other groups follow alphabetically */
+const COMMAND_GROUP_ORDER = [
+  "Power",
+  "Activity",
+  "Input",
+  "Volume",
+  "Channel",
+  "NavigationBasic",
+  "NavigationDPad",
+  "NavigationExtended",
+  "NavigationDVD",
+  "NavigationDSTB",
+  "TransportBasic",
+  "TransportExtended",
+  "TransportRecording",
+  "NumericBasic",
+  "NumericExtended",
+  "ColoredButtons",
+  "Teletext",
+  "Setup",
+  "DisplayMode",
+  "Miscellaneous",
+];
+
+/** Section for commands without a control group, listed last */
+const DEFAULT_GROUP = "Default";
+
+/**
+ * Sorts control group names by remote order
+ * @param a - First group name
+ * @param b - Second group name
+ */
+function compareGroups(a: string, b: string): number {
+  const rank = (group: string): number => {
+    if (group === DEFAULT_GROUP) return COMMAND_GROUP_ORDER.length + 1;
+    const index = COMMAND_GROUP_ORDER.indexOf(group);
+    return index === -1 ? COMMAND_GROUP_ORDER.length : index;
+  };
+  return rank(a) - rank(b) || a.localeCompare(b);
+}
+
+/**
+ * Turns a control group name like "NavigationDPad" into a section title like "Navigation DPad"
+ * @param group - Control group name
+ */
+function formatGroupTitle(group: string): string {
+  return group.replace(/([a-z])([A-Z])/g, "$1 $2");
+}
 
 interface CommandsViewProps {
   commands: HarmonyCommand[];
@@ -12,7 +123,31 @@ interface CommandsViewProps {
 
 function CommandsViewImpl({ commands, onBack }: CommandsViewProps): JSX.Element {
   const { refresh, clearCache } = useHarmony();
-  const { execute } = useCommandExecution();
+  const { execute, pending, cancelAll } = useCommandExecution();
+  const { macros, addStep } = useMacros();
+  const { isFavorite, toggleFavorite, showFavorites, toggleShowFavorites } = useFavorites();
+  const displayMode = useViewStore(selectCommandDisplayMode);
+  const toggleDisplayMode = useViewStore((state) => state.toggleCommandDisplayMode);
+  const gridColumns = getPreferences().commandGridColumns;
+
+  // Queue status by command, so queued and in-flight presses are visible
+  const statusByCommand = useMemo(() => {
+    const statuses = new Map<string, CommandStatus>();
+    pending.forEach((result) => {
+      const key = `${result.command.deviceId}:${result.command.id}`;
+      if (statuses.get(key) !== CommandStatus.EXECUTING) {
+        statuses.set(key, result.status);
+      }
+    });
+    return statuses;
+  }, [pending]);
+  const queuedCount = pending.filter((result) => result.status === CommandStatus.QUEUED).length;
+
+  // Starred commands are listed first, or on their own when filtering to favorites
+  const favoriteCommands = useMemo(
+    () => commands.filter((command) => isFavorite("commands", favoriteCommandId(command), command.hubId)),
+    [commands, isFavorite],
+  );
 
   // Memoize command groups
   const { commandGroups, commandsByGroup } = useMemo(() => {
@@ -20,7 +155,7 @@ function CommandsViewImpl({ commands, onBack }: CommandsViewProps): JSX.Element
     const byGroup = new Map<string, HarmonyCommand[]>();
 
     commands.forEach((command) => {
-      const group = command.group || "Default";
+      const group = command.group || DEFAULT_GROUP;
       groups.add(group);
       const groupCommands = byGroup.get(group) || [];
       groupCommands.push(command);
@@ -28,51 +163,230 @@ function CommandsViewImpl({ commands, onBack }: CommandsViewProps): JSX.Element
     });
 
     return {
-      commandGroups: Array.from(groups).sort(),
+      commandGroups: Array.from(groups).sort(compareGroups),
       commandsByGroup: byGroup,
     };
   }, [commands]);
 
+  // Remote blocks for the grid
+  const remoteSections = useMemo(() => layoutRemote(commands), [commands]);
+
+  // Memoize command actions, shared by the list and the grid
+  const renderActions = useCallback(
+    (command: HarmonyCommand, starred: boolean) => (
+      <ActionPanel>
+        <ActionPanel.Section>
+          <Action title="Execute Command" icon={Icon.Terminal} onAction={() => execute(command)} />
+          <ActionPanel.Submenu title="Repeat…" icon={Icon.Repeat} shortcut={{ modifiers: ["cmd", "shift"], key: "e" }}>
+            {REPEAT_COUNTS.map((count) => (
+              <Action
+                key={count}
+                title={`${count} Times`}
+                onAction={() =>
+                  execute(command, { mode: ExecutionMode.REPEAT, count, interval: DEFAULT_REPEAT_INTERVAL })
+                }
+              />
+            ))}
+            <Action.Push
+              title="Custom…"
+              icon={Icon.Pencil}
+              target={<CommandExecutionForm command={command} mode={ExecutionMode.REPEAT} />}
+            />
+          </ActionPanel.Submenu>
+          <Action.Push
+            title="Long Press…"
+            icon={Icon.Stopwatch}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "p" }}
+            target={<CommandExecutionForm command={command} mode={ExecutionMode.LONG_PRESS} />}
+          />
+          {queuedCount > 0 && (
+            <Action
+              title={`Cancel ${queuedCount} Queued Command${queuedCount === 1 ? "" : "s"}`}
+              icon={Icon.XMarkCircle}
+              onAction={cancelAll}
+            />
+          )}
+          <ActionPanel.Submenu
+            title="Add to Macro"
+            icon={Icon.PlusCircle}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+          >
+            {macros.map((macro) => (
+              <Action
+                key={macro.id}
+                title={macro.name}
+                icon={Icon.List}
+                onAction={async () => {
+                  await addStep(macro.id, command);
+                  ToastManager.success(`Added ${command.label} to ${macro.name}`);
+                }}
+              />
+            ))}
+            <Action.Push title="New Macro…" icon={Icon.Plus} target={<MacroForm initialCommand={command} />} />
+          </ActionPanel.Submenu>
+          <FavoriteActions
+            isFavorite={starred}
+            onToggleFavorite={() =>
+              toggleFavorite("commands", favoriteCommandId(command), command.label, command.hubId)
+            }
+            showFavorites={showFavorites}
+            onToggleShowFavorites={toggleShowFavorites}
+          />
+        </ActionPanel.Section>
+        <ActionPanel.Section>
+          <Action
+            title={displayMode === "grid" ? "Show as List" : "Show as Remote"}
+            icon={displayMode === "grid" ? Icon.List : Icon.AppWindowGrid3x3}
+            shortcut={{ modifiers: ["cmd", "shift"], key: "l" }}
+            onAction={toggleDisplayMode}
+          />
+          {refresh && <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} />}
+          {clearCache && <Action title="Clear Cache" icon={Icon.Trash} onAction={clearCache} />}
+          {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
+        </ActionPanel.Section>
+      </ActionPanel>
+    ),
+    [
+      queuedCount,
+      execute,
+      cancelAll,
+      macros,
+      addStep,
+      toggleFavorite,
+      showFavorites,
+      toggleShowFavorites,
+      displayMode,
+      toggleDisplayMode,
+      refresh,
+      clearCache,
+      onBack,
+    ],
+  );
+
   // Memoize command list items
   const renderCommandItem = useMemo(
-    () => (command: HarmonyCommand) => (
-      <List.Item
-        key={command.id}
-        title={command.label}
-        subtitle={command.name}
-        icon={Icon.Terminal}
-        actions={
-          <ActionPanel>
-            <ActionPanel.Section>
-              <Action title="Execute Command" icon={Icon.Terminal} onAction={() => execute(command)} />
-            </ActionPanel.Section>
-            <ActionPanel.Section>
-              {refresh && <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} />}
-              {clearCache && <Action title="Clear Cache" icon={Icon.Trash} onAction={clearCache} />}
-              {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
-            </ActionPanel.Section>
-          </ActionPanel>
-        }
-      />
-    ),
-    [execute, refresh, clearCache, onBack],
+    () => (command: HarmonyCommand) => {
+      const status = statusByCommand.get(`${command.deviceId}:${command.id}`);
+      const starred = isFavorite("commands", favoriteCommandId(command), command.hubId);
+      return (
+        <List.Item
+          key={command.id}
+          title={command.label}
+          subtitle={command.name}
+          icon={Icon.Terminal}
+          accessories={[
+            ...(starred ? [{ icon: Icon.Star, tooltip: "Favorite" }] : []),
+            ...(status === CommandStatus.EXECUTING
+              ? [{ icon: Icon.CircleProgress50, tooltip: "Sending" }]
+              : status === CommandStatus.QUEUED
+                ? [{ icon: Icon.Clock, tooltip: "Queued" }]
+                : []),
+          ]}
+          actions={renderActions(command, starred)}
+        />
+      );
+    },
+    [statusByCommand, isFavorite, renderActions],
+  );
+
+  // Memoize remote buttons; empty slots keep the d-pad and number pad in shape
+  const renderGridItem = useMemo(
+    () => (command: HarmonyCommand | null, index: number) => {
+      if (!command) {
+        return <Grid.Item key={`empty-${index}`} content="" />;
+      }
+      const status = statusByCommand.get(`${command.deviceId}:${command.id}`);
+      const starred = isFavorite("commands", favoriteCommandId(command), command.hubId);
+      return (
+        <Grid.Item
+          key={command.id}
+          title={command.label}
+          content={{ source: getCommandIcon(command) }}
+          keywords={[command.name]}
+          accessory={
+            status === CommandStatus.EXECUTING
+              ? { icon: Icon.CircleProgress50, tooltip: "Sending" }
+              : status === CommandStatus.QUEUED
+                ? { icon: Icon.Clock, tooltip: "Queued" }
+                : starred
+                  ? { icon: Icon.Star, tooltip: "Favorite" }
+                  : undefined
+          }
+          actions={renderActions(command, starred)}
+        />
+      );
+    },
+    [statusByCommand, isFavorite, renderActions],
   );
 
+  const emptyFavoritesActions = (
+    <ActionPanel>
+      <Action title="Show All" icon={Icon.List} onAction={toggleShowFavorites} />
+      {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
+    </ActionPanel>
+  );
+
+  if (displayMode === "grid") {
+    return (
+      <Grid
+        navigationTitle="Remote"
+        searchBarPlaceholder="Search commands..."
+        isLoading={pending.length > 0}
+        columns={gridColumns}
+        inset={Grid.Inset.Large}
+      >
+        {showFavorites && (
+          <Grid.EmptyView
+            icon={Icon.Star}
+            title="No Favorite Commands"
+            description="Star commands with ⌘⇧S, or show all commands with ⌘⇧F"
+            actions={emptyFavoritesActions}
+          />
+        )}
+        {favoriteCommands.length > 0 && (
+          <Grid.Section key="favorites" title="Favorites">
+            {favoriteCommands.map(renderGridItem)}
+          </Grid.Section>
+        )}
+        {!showFavorites &&
+          remoteSections.map((section) => (
+            <Grid.Section key={section.title} title={section.title} columns={section.columns}>
+              {section.slots.map(renderGridItem)}
+            </Grid.Section>
+          ))}
+      </Grid>
+    );
+  }
+
   return (
     <List
       navigationTitle="Commands"
       searchBarPlaceholder="Search commands..."
-      isLoading={false}
+      isLoading={pending.length > 0}
       isShowingDetail={false}
     >
-      {commandGroups.map((group) => {
-        const groupCommands = commandsByGroup.get(group) || [];
-        return (
-          <List.Section key={group} title={group}>
-            {groupCommands.map(renderCommandItem)}
-          </List.Section>
-        );
-      })}
+      {showFavorites && (
+        <List.EmptyView
+          icon={Icon.Star}
+          title="No Favorite Commands"
+          description="Star commands with ⌘⇧S, or show all commands with ⌘⇧F"
+          actions={emptyFavoritesActions}
+        />
+      )}
+      {favoriteCommands.length > 0 && (
+        <List.Section key="favorites" title="Favorites">
+          {favoriteCommands.map(renderCommandItem)}
+        </List.Section>
+      )}
+      {!showFavorites &&
+        commandGroups.map((group) => {
+          const groupCommands = commandsByGroup.get(group) || [];
+          return (
+            <List.Section key={group} title={formatGroupTitle(group)}>
+              {groupCommands.map(renderCommandItem)}
+            </List.Section>
+          );
+        })}
     </List>
   );
 }
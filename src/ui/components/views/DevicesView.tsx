@@ -1,14 +1,19 @@
 /**
  * View component for displaying and managing Harmony devices.
- * Shows devices grouped by type with available commands.
+ * Shows devices grouped by type with available commands, with starred devices
+ * and commands in a Favorites section at the top.
  * @module
  */
 
 import { List, Icon, Action, ActionPanel } from "@raycast/api";
 import { memo, useMemo } from "react";
 
+import { useCommandExecution } from "../../../hooks/useCommandExecution";
+import { useFavorites } from "../../../hooks/useFavorites";
 import { useHarmony } from "../../../hooks/useHarmony";
-import { HarmonyDevice, HarmonyStage } from "../../../types/core/harmony";
+import { favoriteCommandId } from "../../../types/core/favorites";
+import { HarmonyCommand, HarmonyDevice, HarmonyStage } from "../../../types/core/harmony";
+import { FavoriteActions } from "../actions/FavoriteActions";
 import { LoadingView } from "../LoadingView";
 
 /**
@@ -18,6 +23,10 @@ import { LoadingView } from "../LoadingView";
 interface DevicesViewProps {
   /** Callback when a device is selected */
   onDeviceSelect: (device: HarmonyDevice) => void;
+  /** Optional callback to show the macros view */
+  onShowMacros?: () => void;
+  /** Optional callback to show the hubs view, to connect or disconnect hubs */
+  onShowHubs?: () => void;
   /** Optional callback to go back */
   onBack?: () => void;
 }
@@ -29,8 +38,23 @@ interface DevicesViewProps {
  * @param props - Component props
  * @returns JSX element
  */
-function DevicesViewImpl({ onDeviceSelect, onBack }: DevicesViewProps): JSX.Element {
-  const { devices, refresh, clearCache, loadingState } = useHarmony();
+function DevicesViewImpl({ onDeviceSelect, onShowMacros, onShowHubs, onBack }: DevicesViewProps): JSX.Element {
+  const { devices, hubLabel, refresh, clearCache, loadingState, isStale } = useHarmony();
+  const { execute } = useCommandExecution();
+  const { isFavorite, toggleFavorite, showFavorites, toggleShowFavorites } = useFavorites();
+
+  // Starred devices, and starred commands from any device so they can be sent from here
+  const { favoriteDevices, favoriteCommands } = useMemo(
+    () => ({
+      favoriteDevices: devices.filter((device) => isFavorite("devices", device.id, device.hubId)),
+      favoriteCommands: devices.flatMap((device) =>
+        device.commands
+          .filter((command) => isFavorite("commands", favoriteCommandId(command), command.hubId))
+          .map((command) => ({ device, command })),
+      ),
+    }),
+    [devices, isFavorite],
+  );
 
   // Show loading view when loading devices
   if (loadingState.stage === HarmonyStage.LOADING_DEVICES) {
@@ -64,45 +88,143 @@ function DevicesViewImpl({ onDeviceSelect, onBack }: DevicesViewProps): JSX.Elem
 
   // Memoize device list items
   const renderDeviceItem = useMemo(
-    () => (device: HarmonyDevice) => (
-      <List.Item
-        key={device.id}
-        title={device.name}
-        subtitle={device.type}
-        icon={Icon.Devices}
-        accessories={[
-          {
-            text: `${device.commands.length} commands`,
-            tooltip: "Number of available commands",
-          },
-        ]}
-        actions={
-          <ActionPanel>
-            <ActionPanel.Section>
-              <Action title="Select Device" icon={Icon.ArrowRight} onAction={() => onDeviceSelect(device)} />
-            </ActionPanel.Section>
-            <ActionPanel.Section>
-              {refresh && <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} />}
-              {clearCache && <Action title="Clear Cache" icon={Icon.Trash} onAction={clearCache} />}
-              {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
-            </ActionPanel.Section>
-          </ActionPanel>
-        }
-      />
-    ),
-    [onDeviceSelect, refresh, clearCache, onBack],
+    () => (device: HarmonyDevice) => {
+      const hubName = hubLabel(device.hubId);
+      return (
+        <List.Item
+          key={`${device.hubId}:${device.id}`}
+          title={device.name}
+          subtitle={device.type}
+          icon={Icon.Devices}
+          accessories={[
+            ...(hubName ? [{ tag: hubName, tooltip: "Hub" }] : []),
+            ...(isFavorite("devices", device.id, device.hubId) ? [{ icon: Icon.Star, tooltip: "Favorite" }] : []),
+            {
+              text: `${device.commands.length} commands`,
+              tooltip: "Number of available commands",
+            },
+          ]}
+          actions={
+            <ActionPanel>
+              <ActionPanel.Section>
+                <Action title="Select Device" icon={Icon.ArrowRight} onAction={() => onDeviceSelect(device)} />
+                <FavoriteActions
+                  isFavorite={isFavorite("devices", device.id, device.hubId)}
+                  onToggleFavorite={() => toggleFavorite("devices", device.id, device.name, device.hubId)}
+                  showFavorites={showFavorites}
+                  onToggleShowFavorites={toggleShowFavorites}
+                />
+                {onShowMacros && (
+                  <Action
+                    title="Show Macros"
+                    icon={Icon.List}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "m" }}
+                    onAction={onShowMacros}
+                  />
+                )}
+                {onShowHubs && (
+                  <Action
+                    title="Manage Hubs"
+                    icon={Icon.Network}
+                    shortcut={{ modifiers: ["cmd", "shift"], key: "h" }}
+                    onAction={onShowHubs}
+                  />
+                )}
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                {refresh && <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} />}
+                {clearCache && <Action title="Clear Cache" icon={Icon.Trash} onAction={clearCache} />}
+                {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      );
+    },
+    [
+      hubLabel,
+      onDeviceSelect,
+      onShowMacros,
+      onShowHubs,
+      isFavorite,
+      toggleFavorite,
+      showFavorites,
+      toggleShowFavorites,
+      refresh,
+      clearCache,
+      onBack,
+    ],
+  );
+
+  // Memoize favorite command list items
+  const renderFavoriteCommandItem = useMemo(
+    () =>
+      ({ device, command }: { device: HarmonyDevice; command: HarmonyCommand }) => (
+        <List.Item
+          key={`${command.hubId}:${favoriteCommandId(command)}`}
+          title={command.label}
+          subtitle={device.name}
+          icon={Icon.Terminal}
+          accessories={[{ icon: Icon.Star, tooltip: "Favorite" }]}
+          actions={
+            <ActionPanel>
+              <ActionPanel.Section>
+                <Action title="Execute Command" icon={Icon.Terminal} onAction={() => execute(command)} />
+                <Action title="Show Device" icon={Icon.ArrowRight} onAction={() => onDeviceSelect(device)} />
+                <FavoriteActions
+                  isFavorite
+                  onToggleFavorite={() =>
+                    toggleFavorite("commands", favoriteCommandId(command), command.label, command.hubId)
+                  }
+                  showFavorites={showFavorites}
+                  onToggleShowFavorites={toggleShowFavorites}
+                />
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                {refresh && <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} />}
+                {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      ),
+    [execute, onDeviceSelect, toggleFavorite, showFavorites, toggleShowFavorites, refresh, onBack],
   );
 
   return (
-    <List navigationTitle="Devices" searchBarPlaceholder="Search devices..." isLoading={false} isShowingDetail={false}>
-      {deviceTypes.map((type) => {
-        const typeDevices = devicesByType.get(type) || [];
-        return (
-          <List.Section key={type} title={type}>
-            {typeDevices.map(renderDeviceItem)}
-          </List.Section>
-        );
-      })}
+    <List
+      navigationTitle={isStale ? "Devices (Cached)" : "Devices"}
+      searchBarPlaceholder="Search devices..."
+      isLoading={isStale && loadingState.stage !== HarmonyStage.ERROR}
+      isShowingDetail={false}
+    >
+      {showFavorites && (
+        <List.EmptyView
+          icon={Icon.Star}
+          title="No Favorites"
+          description="Star devices and commands with ⌘⇧S, or show everything with ⌘⇧F"
+          actions={
+            <ActionPanel>
+              <Action title="Show All" icon={Icon.List} onAction={toggleShowFavorites} />
+            </ActionPanel>
+          }
+        />
+      )}
+      {(favoriteDevices.length > 0 || favoriteCommands.length > 0) && (
+        <List.Section key="favorites" title="Favorites">
+          {favoriteDevices.map(renderDeviceItem)}
+          {favoriteCommands.map(renderFavoriteCommandItem)}
+        </List.Section>
+      )}
+      {!showFavorites &&
+        deviceTypes.map((type) => {
+          const typeDevices = devicesByType.get(type) || [];
+          return (
+            <List.Section key={type} title={type}>
+              {typeDevices.map(renderDeviceItem)}
+            </List.Section>
+          );
+        })}
     </List>
   );
 }
@@ -11,13 +11,20 @@ import { memo } from "react";
 import { useHarmony } from "../../../hooks/useHarmony";
 import { debug, info } from "../../../services/logger";
 import { useViewStore } from "../../../stores/view";
-import { HarmonyCommand as HarmonyCommandType, HarmonyDevice, HarmonyActivity } from "../../../types/core/harmony";
+import {
+  HarmonyCommand as HarmonyCommandType,
+  HarmonyDevice,
+  HarmonyActivity,
+  HarmonyHub,
+} from "../../../types/core/harmony";
 import { View } from "../../../types/core/views";
 
 import { ActivitiesView } from "./ActivitiesView";
+import { ActivityDetailView } from "./ActivityDetailView";
 import { CommandsView } from "./CommandsView";
 import { DevicesView } from "./DevicesView";
 import { HubsView } from "./HubsView";
+import { MacrosView } from "./MacrosView";
 
 /**
  * Props for the CommandItem component
@@ -69,11 +76,14 @@ export const CommandItem = memo(CommandItemImpl);
  * @returns JSX element
  */
 export function HarmonyCommand(): React.ReactElement {
-  const { hubs, selectedHub, devices, activities, loadingState, error, connect, refresh, startActivity } = useHarmony();
+  const { hubs, selectedHub, devices, activities, loadingState, error, connect, refresh } = useHarmony();
 
   const currentView = useViewStore((state) => state.currentView);
   const selectedDevice = useViewStore((state) => state.selectedDevice);
+  const selectedActivity = useViewStore((state) => state.selectedActivity);
   const isMounted = useRef(false);
+  // Hub the view last switched away from the hubs view for, so Manage Hubs can stay open
+  const shownHubId = useRef<string | null>(null);
   const viewStore = useViewStore();
 
   // Start hub discovery only on initial mount
@@ -109,9 +119,15 @@ export function HarmonyCommand(): React.ReactElement {
         viewStore.changeView(View.HUBS);
       }, 0);
     }
-    // If we have a selected hub and devices, switch from hubs view
-    else if (selectedHub && devices.length > 0 && currentView === View.HUBS) {
+    // If a newly selected hub has devices, switch from hubs view
+    else if (
+      selectedHub &&
+      selectedHub.hubId !== shownHubId.current &&
+      devices.length > 0 &&
+      currentView === View.HUBS
+    ) {
       info("Hub selected with devices, switching from hubs view");
+      shownHubId.current = selectedHub.hubId;
       timeoutId = setTimeout(() => {
         viewStore.changeView(View.DEVICES);
       }, 0);
@@ -144,6 +160,25 @@ export function HarmonyCommand(): React.ReactElement {
     };
   }, [currentView, selectedDevice, viewStore]);
 
+  // Handle activity detail view transitions
+  useEffect(() => {
+    let timeoutId: NodeJS.Timeout;
+
+    if (currentView === View.ACTIVITY_DETAIL && !selectedActivity) {
+      info("No activity selected, switching to activities view");
+      timeoutId = setTimeout(() => {
+        viewStore.changeView(View.ACTIVITIES);
+      }, 0);
+    }
+
+    // Cleanup timeout on unmount or deps change
+    return () => {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+    };
+  }, [currentView, selectedActivity, viewStore]);
+
   // Memoize device selection handler
   const handleDeviceSelect = useCallback(
     (device: HarmonyDevice) => {
@@ -159,9 +194,26 @@ export function HarmonyCommand(): React.ReactElement {
   const handleActivitySelect = useCallback(
     (activity: HarmonyActivity) => {
       debug("Activity selected", { activity: activity.name });
-      startActivity(activity.id);
+      setTimeout(() => {
+        viewStore.selectActivity(activity);
+      }, 0);
     },
-    [startActivity],
+    [viewStore],
+  );
+
+  // Memoize macros view navigation
+  const handleShowMacros = useCallback(() => viewStore.changeView(View.MACROS), [viewStore]);
+
+  // Memoize hubs view navigation
+  const handleShowHubs = useCallback(() => viewStore.changeView(View.HUBS), [viewStore]);
+
+  // Selecting a hub from the hubs view always leads back to its devices
+  const handleHubSelect = useCallback(
+    (hub: HarmonyHub) => {
+      shownHubId.current = null;
+      return connect(hub);
+    },
+    [connect],
   );
 
   // Handle view rendering based on current view state
@@ -171,16 +223,61 @@ export function HarmonyCommand(): React.ReactElement {
   const viewComponents = useMemo(
     () =>
       ({
-        [View.HUBS]: <HubsView onHubSelect={connect} />,
-        [View.DEVICES]: <DevicesView onDeviceSelect={handleDeviceSelect} />,
+        [View.HUBS]: (
+          <HubsView
+            onHubSelect={handleHubSelect}
+            onBack={selectedHub ? () => viewStore.changeView(View.DEVICES) : undefined}
+          />
+        ),
+        [View.DEVICES]: (
+          <DevicesView
+            onDeviceSelect={handleDeviceSelect}
+            onShowMacros={handleShowMacros}
+            onShowHubs={handleShowHubs}
+          />
+        ),
         [View.DEVICE_DETAIL]: selectedDevice ? (
           <CommandsView commands={selectedDevice.commands} onBack={() => viewStore.changeView(View.DEVICES)} />
         ) : (
-          <DevicesView onDeviceSelect={handleDeviceSelect} />
+          <DevicesView
+            onDeviceSelect={handleDeviceSelect}
+            onShowMacros={handleShowMacros}
+            onShowHubs={handleShowHubs}
+          />
+        ),
+        [View.ACTIVITIES]: (
+          <ActivitiesView
+            onActivitySelect={handleActivitySelect}
+            onShowMacros={handleShowMacros}
+            onShowHubs={handleShowHubs}
+          />
+        ),
+        [View.ACTIVITY_DETAIL]: selectedActivity ? (
+          <ActivityDetailView
+            activity={selectedActivity}
+            onDeviceSelect={handleDeviceSelect}
+            onBack={() => viewStore.changeView(View.ACTIVITIES)}
+          />
+        ) : (
+          <ActivitiesView
+            onActivitySelect={handleActivitySelect}
+            onShowMacros={handleShowMacros}
+            onShowHubs={handleShowHubs}
+          />
         ),
-        [View.ACTIVITIES]: <ActivitiesView onActivitySelect={handleActivitySelect} />,
+        [View.MACROS]: <MacrosView onBack={() => viewStore.changeView(View.DEVICES)} />,
       }) as Record<View, React.ReactElement>,
-    [connect, handleDeviceSelect, handleActivitySelect, selectedDevice, viewStore],
+    [
+      handleHubSelect,
+      handleDeviceSelect,
+      handleActivitySelect,
+      handleShowMacros,
+      handleShowHubs,
+      selectedHub,
+      selectedDevice,
+      selectedActivity,
+      viewStore,
+    ],
   );
 
   // Return the appropriate view component
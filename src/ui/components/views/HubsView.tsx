@@ -1,6 +1,7 @@
 /**
  * View component for displaying and selecting Harmony Hubs.
  * Shows discovered hubs with their connection status and version.
+ * Several hubs can be connected at once; selecting a hub connects it alongside the others.
  * @module
  */
 
@@ -9,6 +10,7 @@ import { memo } from "react";
 
 import { useHarmony } from "../../../hooks/useHarmony";
 import { HarmonyHub, HarmonyStage } from "../../../types/core/harmony";
+import { AddHubForm } from "../forms/AddHubForm";
 import { LoadingView } from "../LoadingView";
 
 /**
@@ -30,7 +32,7 @@ interface HubsViewProps {
  * @returns JSX element
  */
 function HubsViewImpl({ onHubSelect, onBack }: HubsViewProps): JSX.Element {
-  const { hubs, refresh, clearCache, loadingState } = useHarmony();
+  const { hubs, selectedHub, connectedHubs, disconnect, refresh, clearCache, loadingState } = useHarmony();
 
   // Show loading view when discovering hubs
   if (loadingState.stage === HarmonyStage.DISCOVERING) {
@@ -51,7 +53,7 @@ function HubsViewImpl({ onHubSelect, onBack }: HubsViewProps): JSX.Element {
         <List.EmptyView
           icon={Icon.ExclamationMark}
           title="No Harmony Hubs Found"
-          description="Make sure your Harmony Hub is powered on and connected to your network."
+          description="Make sure your Harmony Hub is powered on and connected to your network, or add it by IP address with ⌘N."
           actions={
             <ActionPanel>
               <Action
@@ -60,6 +62,12 @@ function HubsViewImpl({ onHubSelect, onBack }: HubsViewProps): JSX.Element {
                 onAction={refresh}
                 shortcut={{ modifiers: ["cmd"], key: "r" }}
               />
+              <Action.Push
+                title="Add Hub Manually"
+                icon={Icon.Plus}
+                target={<AddHubForm />}
+                shortcut={{ modifiers: ["cmd"], key: "n" }}
+              />
               {clearCache && (
                 <Action
                   title="Clear Cache"
@@ -82,53 +90,79 @@ function HubsViewImpl({ onHubSelect, onBack }: HubsViewProps): JSX.Element {
       isLoading={loadingState.stage !== HarmonyStage.INITIAL && loadingState.stage !== HarmonyStage.ERROR}
       isShowingDetail={false}
     >
-      {hubs.map((hub) => (
-        <List.Item
-          key={hub.id}
-          title={hub.name}
-          subtitle={hub.ip}
-          icon={Icon.Network}
-          accessories={[
-            {
-              text: hub.version || "Unknown Version",
-              tooltip: "Hub firmware version",
-            },
-          ]}
-          actions={
-            <ActionPanel>
-              <ActionPanel.Section>
-                <Action title="Select Hub" icon={Icon.ArrowRight} onAction={() => onHubSelect(hub)} />
-              </ActionPanel.Section>
-              <ActionPanel.Section>
-                {refresh && (
-                  <Action
-                    title="Refresh"
-                    icon={Icon.ArrowClockwise}
-                    onAction={refresh}
-                    shortcut={{ modifiers: ["cmd"], key: "r" }}
-                  />
-                )}
-                {clearCache && (
-                  <Action
-                    title="Clear Cache"
-                    icon={Icon.Trash}
-                    onAction={clearCache}
-                    shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+      {hubs.map((hub) => {
+        const isConnected = connectedHubs.some((h) => h.hubId === hub.hubId);
+        return (
+          <List.Item
+            key={hub.id}
+            title={hub.name}
+            subtitle={hub.ip}
+            icon={Icon.Network}
+            accessories={[
+              ...(isConnected
+                ? [
+                    {
+                      icon: Icon.CheckCircle,
+                      text: selectedHub?.hubId === hub.hubId ? "Selected" : "Connected",
+                      tooltip: "Hub session is open",
+                    },
+                  ]
+                : []),
+              {
+                text: hub.version || "Unknown Version",
+                tooltip: "Hub firmware version",
+              },
+            ]}
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  <Action title="Select Hub" icon={Icon.ArrowRight} onAction={() => onHubSelect(hub)} />
+                  {isConnected && (
+                    <Action
+                      title="Disconnect Hub"
+                      icon={Icon.XMarkCircle}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "x" }}
+                      onAction={() => disconnect(hub.hubId)}
+                    />
+                  )}
+                  <Action.Push
+                    title="Add Hub Manually"
+                    icon={Icon.Plus}
+                    target={<AddHubForm />}
+                    shortcut={{ modifiers: ["cmd"], key: "n" }}
                   />
-                )}
-                {onBack && (
-                  <Action
-                    title="Back"
-                    icon={Icon.ArrowLeft}
-                    onAction={onBack}
-                    shortcut={{ modifiers: ["cmd"], key: "[" }}
-                  />
-                )}
-              </ActionPanel.Section>
-            </ActionPanel>
-          }
-        />
-      ))}
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  {refresh && (
+                    <Action
+                      title="Refresh"
+                      icon={Icon.ArrowClockwise}
+                      onAction={refresh}
+                      shortcut={{ modifiers: ["cmd"], key: "r" }}
+                    />
+                  )}
+                  {clearCache && (
+                    <Action
+                      title="Clear Cache"
+                      icon={Icon.Trash}
+                      onAction={clearCache}
+                      shortcut={{ modifiers: ["cmd", "shift"], key: "r" }}
+                    />
+                  )}
+                  {onBack && (
+                    <Action
+                      title="Back"
+                      icon={Icon.ArrowLeft}
+                      onAction={onBack}
+                      shortcut={{ modifiers: ["cmd"], key: "[" }}
+                    />
+                  )}
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        );
+      })}
     </List>
   );
 }
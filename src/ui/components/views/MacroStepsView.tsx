@@ -0,0 +1,117 @@
+/**
+ * View component for editing the steps of a macro.
+ * @module
+ */
+
+import { List, Icon, Action, ActionPanel } from "@raycast/api";
+import { memo } from "react";
+
+import { useMacros } from "../../../hooks/useMacros";
+import { MacroStep } from "../../../types/core/macro";
+import { MacroStepForm } from "../forms/MacroStepForm";
+
+/**
+ * Props for the MacroStepsView component
+ * @interface MacroStepsViewProps
+ */
+interface MacroStepsViewProps {
+  /** ID of the macro to edit */
+  macroId: string;
+}
+
+/**
+ * Describe a step's repeat, hold and delay settings
+ * @param step - Step to describe
+ * @returns Accessories for the step's list item
+ */
+function stepAccessories(step: MacroStep): List.Item.Accessory[] {
+  const accessories: List.Item.Accessory[] = [];
+  if (step.repeat > 1) {
+    accessories.push({ icon: Icon.Repeat, text: `×${step.repeat}`, tooltip: "Repeat" });
+  }
+  if (step.holdTime !== undefined) {
+    accessories.push({ icon: Icon.Stopwatch, text: `${step.holdTime}ms`, tooltip: "Hold time" });
+  }
+  if (step.delay > 0) {
+    accessories.push({ icon: Icon.Clock, text: `${step.delay}ms`, tooltip: "Delay after step" });
+  }
+  return accessories;
+}
+
+/**
+ * Component for reordering, editing and removing a macro's steps.
+ * @param props - Component props
+ * @returns JSX element
+ */
+function MacroStepsViewImpl({ macroId }: MacroStepsViewProps): JSX.Element {
+  const { macros, progress, runMacro, stopMacro, removeStep, moveStep } = useMacros();
+  const macro = macros.find((m) => m.id === macroId);
+  const isRunning = progress?.macroId === macroId;
+
+  return (
+    <List
+      navigationTitle={macro?.name ?? "Macro"}
+      searchBarPlaceholder="Search steps..."
+      isLoading={isRunning}
+      isShowingDetail={false}
+    >
+      <List.EmptyView
+        icon={Icon.List}
+        title="No Steps"
+        description="Add commands to this macro with Add to Macro in a device's command list"
+      />
+      {macro?.steps.map((step, index) => (
+        <List.Item
+          key={step.id}
+          title={`${index + 1}. ${step.command.label}`}
+          subtitle={step.command.name}
+          icon={isRunning && progress.stepIndex === index ? Icon.CircleProgress50 : Icon.Terminal}
+          accessories={stepAccessories(step)}
+          actions={
+            <ActionPanel>
+              <ActionPanel.Section>
+                <Action.Push
+                  title="Edit Step"
+                  icon={Icon.Pencil}
+                  target={<MacroStepForm macroId={macroId} step={step} />}
+                />
+                {isRunning ? (
+                  <Action title="Stop Macro" icon={Icon.Stop} onAction={stopMacro} />
+                ) : (
+                  <Action title="Run Macro" icon={Icon.Play} onAction={() => runMacro(macroId)} />
+                )}
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                {index > 0 && (
+                  <Action
+                    title="Move Up"
+                    icon={Icon.ArrowUp}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "arrowUp" }}
+                    onAction={() => moveStep(macroId, step.id, -1)}
+                  />
+                )}
+                {index < macro.steps.length - 1 && (
+                  <Action
+                    title="Move Down"
+                    icon={Icon.ArrowDown}
+                    shortcut={{ modifiers: ["cmd", "opt"], key: "arrowDown" }}
+                    onAction={() => moveStep(macroId, step.id, 1)}
+                  />
+                )}
+                <Action
+                  title="Remove Step"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                  onAction={() => removeStep(macroId, step.id)}
+                />
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+export const MacroStepsView = memo(MacroStepsViewImpl);
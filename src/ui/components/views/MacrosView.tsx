@@ -0,0 +1,116 @@
+/**
+ * View component for listing and running the selected hub's macros.
+ * @module
+ */
+
+import { List, Icon, Action, ActionPanel } from "@raycast/api";
+import { memo, useMemo } from "react";
+
+import { useMacros } from "../../../hooks/useMacros";
+import { HarmonyMacro } from "../../../types/core/macro";
+import { MacroForm } from "../forms/MacroForm";
+
+import { MacroStepsView } from "./MacroStepsView";
+
+/**
+ * Props for the MacrosView component
+ * @interface MacrosViewProps
+ */
+interface MacrosViewProps {
+  /** Optional callback to go back */
+  onBack?: () => void;
+}
+
+/**
+ * Component for displaying and running macros.
+ * Provides actions for running, editing, renaming and deleting macros.
+ * @param props - Component props
+ * @returns JSX element
+ */
+function MacrosViewImpl({ onBack }: MacrosViewProps): JSX.Element {
+  const { macros, progress, runMacro, stopMacro, deleteMacro } = useMacros();
+
+  // Memoize macro list items
+  const renderMacroItem = useMemo(
+    () => (macro: HarmonyMacro) => {
+      const isRunning = progress?.macroId === macro.id;
+      return (
+        <List.Item
+          key={macro.id}
+          title={macro.name}
+          subtitle={`${macro.steps.length} step${macro.steps.length === 1 ? "" : "s"}`}
+          icon={Icon.List}
+          accessories={
+            isRunning
+              ? [{ icon: Icon.CircleProgress50, text: `Step ${progress.stepIndex + 1} of ${macro.steps.length}` }]
+              : []
+          }
+          actions={
+            <ActionPanel>
+              <ActionPanel.Section>
+                {isRunning ? (
+                  <Action title="Stop Macro" icon={Icon.Stop} onAction={stopMacro} />
+                ) : (
+                  <Action title="Run Macro" icon={Icon.Play} onAction={() => runMacro(macro.id)} />
+                )}
+                <Action.Push title="Edit Steps" icon={Icon.Pencil} target={<MacroStepsView macroId={macro.id} />} />
+                <Action.Push
+                  title="Rename Macro"
+                  icon={Icon.Text}
+                  shortcut={{ modifiers: ["cmd"], key: "r" }}
+                  target={<MacroForm macro={macro} />}
+                />
+                <Action.Push
+                  title="New Macro"
+                  icon={Icon.Plus}
+                  shortcut={{ modifiers: ["cmd"], key: "n" }}
+                  target={<MacroForm />}
+                />
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                <Action
+                  title="Delete Macro"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                  onAction={() => deleteMacro(macro.id)}
+                />
+                {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      );
+    },
+    [progress, runMacro, stopMacro, deleteMacro, onBack],
+  );
+
+  return (
+    <List
+      navigationTitle="Macros"
+      searchBarPlaceholder="Search macros..."
+      isLoading={progress !== null}
+      isShowingDetail={false}
+    >
+      <List.EmptyView
+        icon={Icon.List}
+        title="No Macros"
+        description="Use Add to Macro on a command, or create a macro with ⌘N"
+        actions={
+          <ActionPanel>
+            <Action.Push
+              title="New Macro"
+              icon={Icon.Plus}
+              shortcut={{ modifiers: ["cmd"], key: "n" }}
+              target={<MacroForm />}
+            />
+            {onBack && <Action title="Back" icon={Icon.ArrowLeft} onAction={onBack} />}
+          </ActionPanel>
+        }
+      />
+      {macros.map(renderMacroItem)}
+    </List>
+  );
+}
+
+export const MacrosView = memo(MacrosViewImpl);
@@ -0,0 +1,67 @@
+import { HarmonyActivity, HarmonyDevice } from "../../types/core/harmony";
+import { diffHubConfig, summarizeHubConfigChanges } from "../configChanges";
+
+function device(id: string, name: string, commandIds: string[] = []): HarmonyDevice {
+  return {
+    id,
+    name,
+    type: "TV",
+    commands: commandIds.map((commandId) => ({ id: commandId, name: commandId, label: commandId, deviceId: id })),
+  };
+}
+
+function activity(id: string, name: string): HarmonyActivity {
+  return { id, name, type: "VirtualGeneric", isCurrent: false, controlGroups: [], powerStates: [], sequences: [] };
+}
+
+describe("diffHubConfig", () => {
+  it("lists added, removed and updated items by name", () => {
+    const changes = diffHubConfig(
+      { devices: [device("1", "TV", ["PowerOn"]), device("2", "Receiver")], activities: [activity("10", "Watch TV")] },
+      { devices: [device("1", "TV", ["PowerOn", "PowerOff"]), device("3", "Xbox")], activities: [] },
+    );
+
+    expect(changes).toEqual({
+      addedDevices: ["Xbox"],
+      removedDevices: ["Receiver"],
+      changedDevices: ["TV"],
+      addedActivities: [],
+      removedActivities: ["Watch TV"],
+    });
+  });
+
+  it("ignores the order of commands", () => {
+    const changes = diffHubConfig(
+      { devices: [device("1", "TV", ["PowerOn", "PowerOff"])], activities: [] },
+      { devices: [device("1", "TV", ["PowerOff", "PowerOn"])], activities: [] },
+    );
+
+    expect(changes.changedDevices).toEqual([]);
+  });
+});
+
+describe("summarizeHubConfigChanges", () => {
+  it("names single items and counts several", () => {
+    const summary = summarizeHubConfigChanges({
+      addedDevices: ["Xbox"],
+      removedDevices: [],
+      changedDevices: [],
+      addedActivities: ["Play Xbox", "Watch TV"],
+      removedActivities: [],
+    });
+
+    expect(summary).toBe("Xbox added, 2 activities added");
+  });
+
+  it("returns null when nothing changed", () => {
+    expect(
+      summarizeHubConfigChanges({
+        addedDevices: [],
+        removedDevices: [],
+        changedDevices: [],
+        addedActivities: [],
+        removedActivities: [],
+      }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { HarmonyCommand } from "../../types/core/harmony";
+import { layoutRemote } from "../remoteLayout";
+
+function commandsNamed(...names: string[]): HarmonyCommand[] {
+  return names.map((name) => ({ id: name, name, label: name, deviceId: "1" }));
+}
+
+function slotNames(slots: readonly (HarmonyCommand | null)[]): (string | null)[] {
+  return slots.map((slot) => slot?.name ?? null);
+}
+
+describe("layoutRemote", () => {
+  it("orders blocks like a remote and keeps unknown commands in More", () => {
+    const sections = layoutRemote(commandsNamed("InputHdmi1", "VolumeUp", "Play", "PowerOn", "DirectionUp", "5"));
+
+    expect(sections.map((section) => section.title)).toEqual([
+      "Power",
+      "Navigation",
+      "Numbers",
+      "Transport",
+      "Volume & Channel",
+      "More",
+    ]);
+    expect(slotNames(sections[5]?.slots ?? [])).toEqual(["InputHdmi1"]);
+  });
+
+  it("keeps the d-pad in shape with empty spots and drops empty rows", () => {
+    const [navigation] = layoutRemote(
+      commandsNamed("DirectionDown", "DirectionLeft", "DirectionRight", "DirectionUp", "Select", "Menu"),
+    );
+
+    expect(navigation?.columns).toBe(3);
+    expect(slotNames(navigation?.slots ?? [])).toEqual([
+      "Menu",
+      "DirectionUp",
+      null,
+      "DirectionLeft",
+      "Select",
+      "DirectionRight",
+      null,
+      "DirectionDown",
+      null,
+    ]);
+  });
+
+  it("lays out the number pad with the zero in the middle of the last row", () => {
+    const [numbers] = layoutRemote(commandsNamed("0", "1", "2", "3", "4", "5", "6", "7", "8", "9"));
+
+    expect(slotNames(numbers?.slots ?? []).slice(9)).toEqual([null, "0", null]);
+  });
+
+  it("matches names regardless of case and uses each command once", () => {
+    const sections = layoutRemote(commandsNamed("select", "OK", "Number1"));
+
+    expect(slotNames(sections[0]?.slots ?? [])).toEqual([null, "select", null]);
+    expect(slotNames(sections[1]?.slots ?? [])).toEqual(["Number1", null, null]);
+    expect(slotNames(sections[2]?.slots ?? [])).toEqual(["OK"]);
+  });
+});
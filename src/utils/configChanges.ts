@@ -0,0 +1,108 @@
+/**
+ * Compares two snapshots of a hub's configuration.
+ * Used to tell the user what changed when cached data is replaced with fresh data from the hub.
+ * @module
+ */
+
+import { HarmonyActivity, HarmonyDevice } from "../types/core/harmony";
+
+/**
+ * Devices and activities of one hub
+ * @interface HubConfigSnapshot
+ */
+export interface HubConfigSnapshot {
+  /** Devices configured on the hub */
+  readonly devices: readonly HarmonyDevice[];
+  /** Activities configured on the hub */
+  readonly activities: readonly HarmonyActivity[];
+}
+
+/**
+ * Names of the devices and activities that were added or removed
+ * @interface HubConfigChanges
+ */
+export interface HubConfigChanges {
+  /** Devices that are new */
+  readonly addedDevices: readonly string[];
+  /** Devices that are gone */
+  readonly removedDevices: readonly string[];
+  /** Devices whose commands changed */
+  readonly changedDevices: readonly string[];
+  /** Activities that are new */
+  readonly addedActivities: readonly string[];
+  /** Activities that are gone */
+  readonly removedActivities: readonly string[];
+}
+
+/**
+ * Lists the names of items only present in the first list
+ * @param items - Items to look for
+ * @param others - Items to look in
+ */
+function missingFrom<T extends { readonly id: string; readonly name: string }>(
+  items: readonly T[],
+  others: readonly T[],
+): string[] {
+  const ids = new Set(others.map((item) => item.id));
+  return items.filter((item) => !ids.has(item.id)).map((item) => item.name);
+}
+
+/**
+ * Builds a key for a device's commands, independent of their order
+ * @param device - Device to describe
+ */
+function commandKey(device: HarmonyDevice): string {
+  return device.commands
+    .map((command) => command.id)
+    .sort()
+    .join("\n");
+}
+
+/**
+ * Compares a cached snapshot with a fresh one
+ * @param previous - Snapshot shown so far
+ * @param next - Snapshot loaded from the hub
+ * @returns What was added, removed or changed
+ */
+export function diffHubConfig(previous: HubConfigSnapshot, next: HubConfigSnapshot): HubConfigChanges {
+  const previousDevices = new Map(previous.devices.map((device) => [device.id, device]));
+  return {
+    addedDevices: missingFrom(next.devices, previous.devices),
+    removedDevices: missingFrom(previous.devices, next.devices),
+    changedDevices: next.devices
+      .filter((device) => {
+        const before = previousDevices.get(device.id);
+        return before !== undefined && commandKey(before) !== commandKey(device);
+      })
+      .map((device) => device.name),
+    addedActivities: missingFrom(next.activities, previous.activities),
+    removedActivities: missingFrom(previous.activities, next.activities),
+  };
+}
+
+/**
+ * Counts a change for a summary, e.g. "2 devices added"
+ * @param names - Names of the changed items
+ * @param plural - Plural noun for the items
+ * @param verb - What happened to them
+ */
+function countChange(names: readonly string[], plural: string, verb: string): string | null {
+  if (names.length === 0) return null;
+  return names.length === 1 ? `${names[0]} ${verb}` : `${names.length} ${plural} ${verb}`;
+}
+
+/**
+ * Summarizes changes in one line for a toast
+ * @param changes - Changes to summarize
+ * @returns The summary, or null if nothing changed
+ */
+export function summarizeHubConfigChanges(changes: HubConfigChanges): string | null {
+  const parts = [
+    countChange(changes.addedDevices, "devices", "added"),
+    countChange(changes.removedDevices, "devices", "removed"),
+    countChange(changes.changedDevices, "devices", "updated"),
+    countChange(changes.addedActivities, "activities", "added"),
+    countChange(changes.removedActivities, "activities", "removed"),
+  ].filter((part): part is string => part !== null);
+  return parts.length > 0 ? parts.join(", ") : null;
+}
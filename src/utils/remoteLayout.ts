@@ -0,0 +1,164 @@
+/**
+ * Arranges a device's commands like the buttons of a physical remote.
+ * Commands are matched by name; anything without a place on the remote is kept in a final section.
+ * @module
+ */
+
+import { HarmonyCommand } from "../types/core/harmony";
+
+/**
+ * A block of buttons on the remote
+ * @interface RemoteSection
+ */
+export interface RemoteSection {
+  /** Title shown above the block */
+  readonly title: string;
+  /** Fixed column count for blocks with a physical shape, like the d-pad */
+  readonly columns?: number;
+  /** Buttons in reading order; null keeps an empty spot so the shape holds */
+  readonly slots: readonly (HarmonyCommand | null)[];
+}
+
+/**
+ * Layout of one block. Each slot lists the command names that may fill it, first match wins.
+ * @interface SectionLayout
+ */
+interface SectionLayout {
+  /** Title shown above the block */
+  title: string;
+  /** Whether empty slots are kept to preserve a 3-wide shape */
+  shaped: boolean;
+  /** Command names for each slot */
+  slots: string[][];
+}
+
+/** Blocks of a remote, top to bottom */
+const REMOTE_LAYOUT: readonly SectionLayout[] = [
+  {
+    title: "Power",
+    shaped: false,
+    slots: [["PowerOff"], ["PowerToggle"], ["PowerOn"]],
+  },
+  {
+    title: "Navigation",
+    shaped: true,
+    slots: [
+      ["Menu", "Home"],
+      ["DirectionUp", "Up"],
+      ["Info", "Guide"],
+      ["DirectionLeft", "Left"],
+      ["Select", "OK", "Enter"],
+      ["DirectionRight", "Right"],
+      ["Back", "Return"],
+      ["DirectionDown", "Down"],
+      ["Exit"],
+    ],
+  },
+  {
+    title: "Numbers",
+    shaped: true,
+    slots: [
+      ["1", "Number1"],
+      ["2", "Number2"],
+      ["3", "Number3"],
+      ["4", "Number4"],
+      ["5", "Number5"],
+      ["6", "Number6"],
+      ["7", "Number7"],
+      ["8", "Number8"],
+      ["9", "Number9"],
+      ["-", "Dash", "Period", "."],
+      ["0", "Number0"],
+      ["NumberEnter"],
+    ],
+  },
+  {
+    title: "Transport",
+    shaped: false,
+    slots: [
+      ["SkipBackward", "SkipBack", "Previous"],
+      ["Rewind"],
+      ["Play", "PlayPause"],
+      ["Pause"],
+      ["FastForward"],
+      ["SkipForward", "Next"],
+      ["Stop"],
+      ["Record"],
+    ],
+  },
+  {
+    title: "Volume & Channel",
+    shaped: false,
+    slots: [["VolumeDown"], ["Mute"], ["VolumeUp"], ["ChannelDown"], ["ChannelPrev", "PrevChannel"], ["ChannelUp"]],
+  },
+];
+
+/** Columns of the shaped blocks */
+const SHAPED_COLUMNS = 3;
+
+/**
+ * Normalizes a command name for matching, ignoring case, spaces and underscores
+ * @param name - Command name
+ */
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[\s_]/g, "");
+}
+
+/**
+ * Drops empty rows from a shaped block, so a device without a number pad's bottom row
+ * does not show a row of blanks
+ * @param slots - Slots in reading order, a multiple of the column count
+ */
+function dropEmptyRows(slots: (HarmonyCommand | null)[]): (HarmonyCommand | null)[] {
+  const rows: (HarmonyCommand | null)[][] = [];
+  for (let i = 0; i < slots.length; i += SHAPED_COLUMNS) {
+    rows.push(slots.slice(i, i + SHAPED_COLUMNS));
+  }
+  return rows.filter((row) => row.some(Boolean)).flat();
+}
+
+/**
+ * Arranges commands into the blocks of a remote.
+ * Blocks without any matching command are left out.
+ * @param commands - Commands of one device
+ * @returns Blocks in remote order, ending with a "More" block for the remaining commands
+ */
+export function layoutRemote(commands: readonly HarmonyCommand[]): RemoteSection[] {
+  const byName = new Map<string, HarmonyCommand>();
+  commands.forEach((command) => {
+    const key = normalize(command.name);
+    if (!byName.has(key)) {
+      byName.set(key, command);
+    }
+  });
+
+  const placed = new Set<HarmonyCommand>();
+  const sections: RemoteSection[] = [];
+
+  for (const layout of REMOTE_LAYOUT) {
+    const slots = layout.slots.map((names) => {
+      for (const name of names) {
+        const command = byName.get(normalize(name));
+        if (command && !placed.has(command)) {
+          placed.add(command);
+          return command;
+        }
+      }
+      return null;
+    });
+
+    if (!slots.some(Boolean)) continue;
+    sections.push(
+      layout.shaped
+        ? { title: layout.title, columns: SHAPED_COLUMNS, slots: dropEmptyRows(slots) }
+        : { title: layout.title, slots: slots.filter(Boolean) },
+    );
+  }
+
+  const remaining = commands.filter((command) => !placed.has(command));
+  if (remaining.length > 0) {
+    sections.push({ title: "More", slots: remaining });
+  }
+
+  return sections;
+}
@@ -0,0 +1,58 @@
+/**
+ * Timeout utilities for hub operations
+ * @module
+ */
+
+import { HarmonyError, ErrorCategory } from "../types/core/errors";
+
+/** Code carried by errors raised when the hub did not answer in time */
+export const TIMEOUT_ERROR_CODE = "HUB_TIMEOUT";
+
+/** Code carried by errors raised when the hub could not be reached at all */
+export const UNREACHABLE_ERROR_CODE = "HUB_UNREACHABLE";
+
+/**
+ * Creates the error raised when an operation runs out of time
+ * @param message - What did not finish in time
+ * @param timeout - Time allowed in milliseconds
+ * @param category - Category of the operation
+ * @returns A retryable HarmonyError with the timeout code
+ */
+export function createTimeoutError(
+  message: string,
+  timeout: number,
+  category: ErrorCategory = ErrorCategory.HUB_COMMUNICATION,
+): HarmonyError {
+  return new HarmonyError(message, category, undefined, undefined, true, TIMEOUT_ERROR_CODE, { timeout });
+}
+
+/**
+ * Rejects with a timeout error if an operation does not settle in time.
+ * The operation itself keeps running; callers clean up late results if needed.
+ * @param operation - Pending operation
+ * @param timeout - Time allowed in milliseconds
+ * @param message - Error message used on timeout
+ * @returns Promise settling like the operation, or rejecting on timeout
+ */
+export function withTimeout<T>(operation: Promise<T>, timeout: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const expiry = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(createTimeoutError(message, timeout)), timeout);
+  });
+  return Promise.race([operation, expiry]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Checks whether an error, or any error that caused it, is a timeout.
+ * Tells a hub that is slow to answer apart from one that cannot be reached.
+ * @param error - The error to check
+ * @returns True if the hub did not answer in time
+ */
+export function isTimeoutError(error: unknown): boolean {
+  for (let current = error; current instanceof Error; current = (current as HarmonyError).cause) {
+    if (current instanceof HarmonyError && current.code === TIMEOUT_ERROR_CODE) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -4,6 +4,7 @@
  */
 
 import { debug } from "../services/logger";
+import { CommandExecution, ExecutionMode } from "../types/core/command";
 import { HarmonyError } from "../types/core/errors";
 import { ErrorCategory } from "../types/core/harmony";
 import { HarmonyHub, HarmonyDevice, HarmonyActivity, HarmonyCommand } from "../types/core/harmony";
@@ -26,6 +27,19 @@ export function isPositiveNumber(value: unknown): value is number {
   return typeof value === "number" && !isNaN(value) && value > 0;
 }
 
+/**
+ * Parse a whole number form field
+ * @param value - Field value
+ * @param min - Smallest allowed value
+ * @returns The number, or null if the value is not a whole number of at least min
+ */
+export function parseWholeNumber(value: string, min: number): number | null {
+  const trimmed = value.trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const parsed = parseInt(trimmed, 10);
+  return parsed >= min ? parsed : null;
+}
+
 /**
  * Type guard for checking if a value is a valid port number
  * @param value - The value to check
@@ -51,14 +65,30 @@ export function isValidIpAddress(value: unknown): value is string {
 }
 
 /**
- * Type guard for checking if a value is a valid command group
+ * Type guard for checking if a value is a valid command type, the "type" of a command action
+ * @param value - The value to check
+ * @returns True if the value is a valid command type, false otherwise
+ */
+export function isValidCommandType(value: unknown): value is string {
+  if (!isNonEmptyString(value)) return false;
+  const validTypes = ["IRCommand", "HTTPCommand", "BluetoothCommand", "WifiCommand"];
+  return validTypes.includes(value);
+}
+
+/**
+ * Type guard for checking if a value is a usable command action.
+ * Actions are JSON strings naming the command, its type and the target device.
  * @param value - The value to check
- * @returns True if the value is a valid command group, false otherwise
+ * @returns True if the value is a valid command action, false otherwise
  */
-export function isValidCommandGroup(value: unknown): value is string {
+export function isValidCommandAction(value: unknown): value is string {
   if (!isNonEmptyString(value)) return false;
-  const validGroups = ["IRCommand", "HTTPCommand", "BluetoothCommand", "WifiCommand"];
-  return validGroups.includes(value);
+  try {
+    const action = JSON.parse(value);
+    return isNonEmptyString(action?.command) && isNonEmptyString(action?.deviceId) && isValidCommandType(action?.type);
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -200,7 +230,7 @@ export function validateDevice(device: Partial<HarmonyDevice>): asserts device i
       );
     }
 
-    if (command.group && !isValidCommandGroup(command.group)) {
+    if (command.group !== undefined && !isNonEmptyString(command.group)) {
       throw new HarmonyError(
         `Invalid command group at index ${index}`,
         ErrorCategory.VALIDATION,
@@ -210,6 +240,17 @@ export function validateDevice(device: Partial<HarmonyDevice>): asserts device i
         "INVALID_COMMAND_GROUP",
       );
     }
+
+    if (command.action !== undefined && !isValidCommandAction(command.action)) {
+      throw new HarmonyError(
+        `Invalid command action at index ${index}`,
+        ErrorCategory.VALIDATION,
+        undefined,
+        undefined,
+        false,
+        "INVALID_COMMAND_ACTION",
+      );
+    }
   });
 
   debug("Device validation passed", { device });
@@ -320,7 +361,7 @@ export function validateCommand(command: Partial<HarmonyCommand>): asserts comma
     );
   }
 
-  if (command.group && !isValidCommandGroup(command.group)) {
+  if (command.group !== undefined && !isNonEmptyString(command.group)) {
     throw new HarmonyError(
       "Invalid command group",
       ErrorCategory.VALIDATION,
@@ -331,9 +372,47 @@ export function validateCommand(command: Partial<HarmonyCommand>): asserts comma
     );
   }
 
+  if (command.action !== undefined && !isValidCommandAction(command.action)) {
+    throw new HarmonyError(
+      "Invalid command action",
+      ErrorCategory.VALIDATION,
+      undefined,
+      undefined,
+      false,
+      "INVALID_COMMAND_ACTION",
+    );
+  }
+
   debug("Command validation passed", { command });
 }
 
+/**
+ * Validate how a command is to be pressed
+ * @param execution - The execution options to validate
+ * @throws {HarmonyError} If a duration, count or interval is out of range
+ */
+export function validateCommandExecution(execution: CommandExecution): void {
+  const invalid = (message: string): HarmonyError =>
+    new HarmonyError(message, ErrorCategory.VALIDATION, undefined, undefined, false, "INVALID_COMMAND_EXECUTION");
+
+  if (execution.mode === ExecutionMode.LONG_PRESS && !isPositiveNumber(execution.duration)) {
+    throw invalid("Long press duration must be a positive number of milliseconds");
+  }
+
+  if (execution.mode === ExecutionMode.REPEAT) {
+    if (!Number.isInteger(execution.count) || execution.count < 1) {
+      throw invalid("Repeat count must be a whole number of at least 1");
+    }
+    if (typeof execution.interval !== "number" || !Number.isFinite(execution.interval) || execution.interval < 0) {
+      throw invalid("Repeat interval must be zero or more milliseconds");
+    }
+  }
+
+  if (execution.mode !== ExecutionMode.LONG_PRESS && execution.holdTime !== undefined && execution.holdTime < 0) {
+    throw invalid("Hold time must be zero or more milliseconds");
+  }
+}
+
 /**
  * Validates a numeric preference value
  * @param value - The value to validate
@@ -436,13 +515,34 @@ export function validateBooleanPreference(value: unknown, name: string): asserts
   debug(`Validated ${name}`, { value });
 }
 
+/**
+ * Validates an IPv4 address preference value
+ * @param value - The value to validate
+ * @param name - Name of the preference for error messages
+ * @throws {HarmonyError} If the value is invalid
+ */
+export function validateIpAddressPreference(value: unknown, name: string): asserts value is string {
+  if (!isValidIpAddress(value)) {
+    throw new HarmonyError(
+      `${name} must be an IPv4 address like 192.168.1.255`,
+      ErrorCategory.VALIDATION,
+      undefined,
+      undefined,
+      false,
+      "INVALID_IP_ADDRESS",
+    );
+  }
+
+  debug(`Validated ${name}`, { value });
+}
+
 /**
  * Validates the default view preference
  * @param value - The value to validate
  * @throws {HarmonyError} If the value is invalid
  */
 export function validateDefaultView(value: unknown): asserts value is string {
-  validateStringPreference(value, ["devices", "activities", "commands"], "Default view");
+  validateStringPreference(value, ["devices", "activities"], "Default view");
 }
 
 /**